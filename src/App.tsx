@@ -1,6 +1,7 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuthContext } from './contexts/AuthContext';
+import { StoreProvider } from './contexts/StoreContext';
 import Layout from './components/Layout/Layout';
 import AdminLayout from './components/Admin/AdminLayout';
 import Login from './components/Auth/Login';
@@ -8,6 +9,22 @@ import Register from './components/Auth/Register';
 import Dashboard from './components/Dashboard/Dashboard';
 import MobileDashboard from './components/Dashboard/MobileDashboard';
 import MedicineList from './components/Medicines/MedicineList';
+import PointOfSale from './components/Sales/PointOfSale';
+import Receivables from './components/Sales/Receivables';
+import PurchaseList from './components/Purchases/PurchaseList';
+import PurchaseOrderList from './components/Purchases/PurchaseOrderList';
+import ReorderSuggestions from './components/Purchases/ReorderSuggestions';
+import StockTransferList from './components/Transfers/StockTransferList';
+import StockTakeList from './components/StockTake/StockTakeList';
+import StockTakeSession from './components/StockTake/StockTakeSession';
+import ControlledRegister from './components/ControlledDrugs/ControlledRegister';
+import RecallList from './components/Recalls/RecallList';
+import InteractionLibrary from './components/Interactions/InteractionLibrary';
+import PatientList from './components/Patients/PatientList';
+import PatientProfile from './components/Patients/PatientProfile';
+import VendorList from './components/Vendors/VendorList';
+import VendorProfile from './components/Vendors/VendorProfile';
+import PaymentLedger from './components/Payments/PaymentLedger';
 import ReportsAnalytics from './components/Reports/ReportsAnalytics';
 import CustomReportBuilder from './components/Reports/CustomReportBuilder';
 import EmailReports from './components/Reports/EmailReports';
@@ -16,6 +33,8 @@ import SubscriptionManagement from './components/Subscriptions/SubscriptionManag
 import AdminDashboard from './components/Admin/AdminDashboard';
 import UserManagement from './components/Admin/UserManagement';
 import OrganizationSetup from './components/Organization/OrganizationSetup';
+import OrganizationSettings from './components/Organization/OrganizationSettings';
+import StoreList from './components/Stores/StoreList';
 import TeamManagement from './components/Team/TeamManagement';
 import SecurityCenter from './components/Security/SecurityCenter';
 
@@ -135,14 +154,44 @@ const AppRoutes: React.FC = () => {
         }>
           <Route index element={<Dashboard />} />
           <Route path="medicines" element={<MedicineList />} />
-          <Route path="purchases" element={<div className="p-8 text-center">Purchases module coming soon...</div>} />
-          <Route path="sales" element={<div className="p-8 text-center">Sales module coming soon...</div>} />
-          <Route path="payments" element={<div className="p-8 text-center">Payments module coming soon...</div>} />
-          <Route path="expenses" element={<div className="p-8 text-center">Expenses module coming soon...</div>} />
-          <Route path="patients" element={<div className="p-8 text-center">Patients module coming soon...</div>} />
+          <Route path="purchases" element={<PurchaseList />} />
+          <Route path="purchases/reorder" element={<ReorderSuggestions />} />
+          <Route path="purchase-orders" element={<PurchaseOrderList />} />
+          <Route path="transfers" element={<StockTransferList />} />
+          <Route path="stock-take" element={<StockTakeList />} />
+          <Route path="stock-take/:stockTakeId" element={<StockTakeSession />} />
+          <Route path="controlled-register" element={<ControlledRegister />} />
+          <Route path="recalls" element={
+            <AdminRouteWrapper>
+              <RecallList />
+            </AdminRouteWrapper>
+          } />
+          <Route path="interactions" element={
+            <AdminRouteWrapper>
+              <InteractionLibrary />
+            </AdminRouteWrapper>
+          } />
+          <Route path="vendors" element={<VendorList />} />
+          <Route path="vendors/:vendorId" element={<VendorProfile />} />
+          <Route path="sales" element={<PointOfSale />} />
+          <Route path="receivables" element={<Receivables />} />
+          <Route path="payments" element={<PaymentLedger />} />
+          <Route path="expenses" element={<PaymentLedger defaultType="expense" />} />
+          <Route path="patients" element={<PatientList />} />
+          <Route path="patients/:patientId" element={<PatientProfile />} />
           <Route path="reports" element={<ReportsAnalytics />} />
           <Route path="reports/builder" element={<CustomReportBuilder />} />
           <Route path="reports/email" element={<EmailReports />} />
+          <Route path="organization" element={
+            <AdminRouteWrapper>
+              <OrganizationSettings />
+            </AdminRouteWrapper>
+          } />
+          <Route path="stores" element={
+            <AdminRouteWrapper>
+              <StoreList />
+            </AdminRouteWrapper>
+          } />
           <Route path="team" element={<TeamManagement />} />
           <Route path="security" element={<SecurityCenter />} />
           <Route path="subscriptions" element={
@@ -160,7 +209,9 @@ const AppRoutes: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <AppRoutes />
+      <StoreProvider>
+        <AppRoutes />
+      </StoreProvider>
     </AuthProvider>
   );
 }
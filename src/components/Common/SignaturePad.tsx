@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (signature: string) => void;
+  className?: string;
+}
+
+// Captures a finger or mouse signature and reports it as a PNG data URL
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [signed, setSigned] = useState(false);
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointFor(e);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = pointFor(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current || !canvasRef.current) return;
+    drawingRef.current = false;
+    setSigned(true);
+    onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setSigned(false);
+    onChange('');
+  };
+
+  return (
+    <div className={className}>
+      <div className="relative border border-gray-300 rounded-lg bg-white">
+        <canvas
+          ref={canvasRef}
+          width={480}
+          height={140}
+          className="w-full h-32 touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {!signed && (
+          <span className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+            Sign here
+          </span>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={handleClear}
+        className="mt-2 flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <Eraser className="w-4 h-4" />
+        <span>Clear</span>
+      </button>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,421 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ShieldAlert, Download, Printer, Calendar } from 'lucide-react';
+import { addDays, format, parseISO, startOfMonth } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { ControlledRegisterEntry, Medicine } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { fetchRegister, registerEntryLabels } from '../../utils/controlledRegister';
+import { escapeHtml } from '../../utils/html';
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+interface RegisterDrug {
+  productId: string;
+  name: string;
+  schedule?: string | null;
+}
+
+const partyFor = (entry: ControlledRegisterEntry) =>
+  entry.patient_name
+    ? [entry.patient_name, entry.patient_address].filter(Boolean).join(', ')
+    : entry.supplier_name || '';
+
+const prescriberFor = (entry: ControlledRegisterEntry) =>
+  [entry.prescriber_name, entry.prescriber_registration && `Reg. ${entry.prescriber_registration}`]
+    .filter(Boolean)
+    .join(', ');
+
+const referenceFor = (entry: ControlledRegisterEntry) =>
+  [entry.prescription_ref && `Rx ${entry.prescription_ref}`, entry.invoice_no && `Inv ${entry.invoice_no}`, entry.notes]
+    .filter(Boolean)
+    .join(' • ');
+
+const ControlledRegister: React.FC = () => {
+  const [drugs, setDrugs] = useState<RegisterDrug[]>([]);
+  const [productId, setProductId] = useState('');
+  const [fromDate, setFromDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [entries, setEntries] = useState<ControlledRegisterEntry[]>([]);
+  const [openingBalance, setOpeningBalance] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const { currentStore } = useStoreContext();
+
+  const fetchDrugs = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('medicines')
+        .select('product_id, name, schedule')
+        .eq('store_id', currentStore.id)
+        .eq('controlled', true)
+        .not('product_id', 'is', null)
+        .order('name');
+
+      if (error) throw error;
+
+      // One entry per drug; the register runs across all of its batches
+      const byProduct = new Map<string, RegisterDrug>();
+      (data as Pick<Medicine, 'product_id' | 'name' | 'schedule'>[] || []).forEach(batch => {
+        if (batch.product_id && !byProduct.has(batch.product_id)) {
+          byProduct.set(batch.product_id, { productId: batch.product_id, name: batch.name, schedule: batch.schedule });
+        }
+      });
+
+      const drugList = Array.from(byProduct.values());
+      setDrugs(drugList);
+      setProductId(prev => prev && byProduct.has(prev) ? prev : drugList[0]?.productId || '');
+    } catch (error) {
+      console.error('Error fetching controlled drugs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  const fetchEntries = useCallback(async () => {
+    if (!currentStore || !productId || !fromDate || !toDate) {
+      setEntries([]);
+      setOpeningBalance(0);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const register = await fetchRegister(
+        currentStore.id,
+        productId,
+        parseISO(fromDate).toISOString(),
+        addDays(parseISO(toDate), 1).toISOString()
+      );
+      setEntries(register.entries);
+      setOpeningBalance(register.openingBalance);
+    } catch (error) {
+      console.error('Error fetching controlled register:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore, productId, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchDrugs();
+  }, [fetchDrugs]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const drug = drugs.find(item => item.productId === productId);
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : openingBalance;
+  const totals = useMemo(() => entries.reduce(
+    (sum, entry) => ({ in: sum.in + entry.quantity_in, out: sum.out + entry.quantity_out }),
+    { in: 0, out: 0 }
+  ), [entries]);
+
+  const periodText = `${format(parseISO(fromDate), 'MMM dd, yyyy')} – ${format(parseISO(toDate), 'MMM dd, yyyy')}`;
+
+  const exportCSV = () => {
+    if (!drug) return;
+
+    const csvData = [
+      ['Date', 'Entry', 'Batch', 'In', 'Out', 'Balance', 'Patient / Supplier', 'Prescriber', 'Reference', 'Witness', 'Entered By'],
+      [fromDate, 'Balance brought forward', '', '', '', openingBalance, '', '', '', '', ''],
+      ...entries.map(entry => [
+        format(new Date(entry.created_at), 'yyyy-MM-dd HH:mm'),
+        registerEntryLabels[entry.entry_type],
+        entry.batch_no,
+        entry.quantity_in || '',
+        entry.quantity_out || '',
+        entry.balance,
+        partyFor(entry),
+        prescriberFor(entry),
+        referenceFor(entry),
+        entry.witness_name || '',
+        entry.user?.full_name || '',
+      ]),
+    ];
+
+    const csvString = csvData.map(row => row.map(csvCell).join(',')).join('\n');
+    const blob = new Blob([csvString], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `controlled-register-${drug.name.replace(/\s+/g, '-').toLowerCase()}-${fromDate}-to-${toDate}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const printRegister = () => {
+    if (!drug) return;
+
+    const rows = entries.map(entry => `
+      <tr>
+        <td>${format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm')}</td>
+        <td>${escapeHtml(registerEntryLabels[entry.entry_type])}</td>
+        <td>${escapeHtml(entry.batch_no)}</td>
+        <td class="num">${entry.quantity_in || ''}</td>
+        <td class="num">${entry.quantity_out || ''}</td>
+        <td class="num"><strong>${entry.balance}</strong></td>
+        <td>${escapeHtml(partyFor(entry))}</td>
+        <td>${escapeHtml(prescriberFor(entry))}</td>
+        <td>${escapeHtml(referenceFor(entry))}</td>
+        <td>
+          ${escapeHtml(entry.witness_name)}
+          ${entry.witness_signature?.startsWith('data:image/png') ? `<br /><img src="${escapeHtml(entry.witness_signature)}" />` : ''}
+        </td>
+        <td>${escapeHtml(entry.user?.full_name)}</td>
+      </tr>
+    `).join('');
+
+    const registerHTML = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Controlled Drug Register - ${escapeHtml(drug.name)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 20px; font-size: 11px; }
+          .header { margin-bottom: 20px; }
+          .header h1 { margin: 0 0 4px; font-size: 18px; }
+          .header p { margin: 2px 0; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+          th { background-color: #f5f5f5; }
+          .num { text-align: right; }
+          img { height: 32px; }
+          @page { size: landscape; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Controlled Drug Register</h1>
+          <p><strong>${escapeHtml(drug.name)}</strong>${drug.schedule ? ` (${escapeHtml(drug.schedule)})` : ''}</p>
+          <p>${escapeHtml(currentStore?.name)}${currentStore?.license_number ? ` • Licence ${escapeHtml(currentStore.license_number)}` : ''}</p>
+          <p>Period: ${periodText}</p>
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Entry</th>
+              <th>Batch</th>
+              <th>In</th>
+              <th>Out</th>
+              <th>Balance</th>
+              <th>Patient / Supplier</th>
+              <th>Prescriber</th>
+              <th>Reference</th>
+              <th>Witness</th>
+              <th>Entered By</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td colspan="5"><em>Balance brought forward</em></td>
+              <td class="num"><strong>${openingBalance}</strong></td>
+              <td colspan="5"></td>
+            </tr>
+            ${rows}
+            <tr>
+              <td colspan="3"><strong>Totals / closing balance</strong></td>
+              <td class="num">${totals.in}</td>
+              <td class="num">${totals.out}</td>
+              <td class="num"><strong>${closingBalance}</strong></td>
+              <td colspan="5"></td>
+            </tr>
+          </tbody>
+        </table>
+        <p>Printed ${format(new Date(), 'dd/MM/yyyy HH:mm')}</p>
+      </body>
+      </html>
+    `;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(registerHTML);
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  if (loading && drugs.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Controlled Register</h1>
+          <p className="text-gray-600 mt-1">Receipts, dispenses and destructions of scheduled drugs at {currentStore?.name}</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={exportCSV}
+            disabled={!drug}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-5 h-5" />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={printRegister}
+            disabled={!drug}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Printer className="w-5 h-5" />
+            <span>Print</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="register_drug" className="block text-sm font-medium text-gray-700 mb-2">
+              Drug
+            </label>
+            <select
+              id="register_drug"
+              value={productId}
+              onChange={(e) => setProductId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {drugs.length === 0 && <option value="">No controlled drugs</option>}
+              {drugs.map((item) => (
+                <option key={item.productId} value={item.productId}>
+                  {item.name}{item.schedule ? ` (${item.schedule})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="register_from" className="block text-sm font-medium text-gray-700 mb-2">
+              From
+            </label>
+            <input
+              type="date"
+              id="register_from"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="register_to" className="block text-sm font-medium text-gray-700 mb-2">
+              To
+            </label>
+            <input
+              type="date"
+              id="register_to"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+      </div>
+
+      {drug ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-sm text-gray-600">Brought forward</p>
+              <p className="text-2xl font-bold text-gray-900">{openingBalance}</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-sm text-gray-600">Received</p>
+              <p className="text-2xl font-bold text-green-600">{totals.in}</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-sm text-gray-600">Issued</p>
+              <p className="text-2xl font-bold text-red-600">{totals.out}</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-sm text-gray-600">Closing balance</p>
+              <p className="text-2xl font-bold text-gray-900">{closingBalance}</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Date</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Entry</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Batch</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">In</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Out</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Balance</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Patient / Supplier</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Prescriber</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Reference</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Witness</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Entered By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                <tr className="bg-gray-50">
+                  <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                    <Calendar className="w-4 h-4 inline mr-1" />
+                    {format(parseISO(fromDate), 'MMM dd, yyyy')}
+                  </td>
+                  <td className="px-4 py-3 italic text-gray-600" colSpan={4}>Balance brought forward</td>
+                  <td className="px-4 py-3 text-right font-semibold text-gray-900">{openingBalance}</td>
+                  <td colSpan={5}></td>
+                </tr>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-900 whitespace-nowrap">
+                      {format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm')}
+                    </td>
+                    <td className="px-4 py-3 text-gray-900">{registerEntryLabels[entry.entry_type]}</td>
+                    <td className="px-4 py-3 text-gray-600">{entry.batch_no}</td>
+                    <td className="px-4 py-3 text-right text-green-600">{entry.quantity_in || ''}</td>
+                    <td className="px-4 py-3 text-right text-red-600">{entry.quantity_out || ''}</td>
+                    <td className="px-4 py-3 text-right font-semibold text-gray-900">{entry.balance}</td>
+                    <td className="px-4 py-3 text-gray-600">{partyFor(entry)}</td>
+                    <td className="px-4 py-3 text-gray-600">{prescriberFor(entry)}</td>
+                    <td className="px-4 py-3 text-gray-600">{referenceFor(entry)}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {entry.witness_name}
+                      {entry.witness_signature && (
+                        <img src={entry.witness_signature} alt={`Signature of ${entry.witness_name}`} className="h-8 mt-1" />
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{entry.user?.full_name}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {entries.length === 0 && !loading && (
+              <p className="text-center text-gray-600 py-8">No register entries in this period.</p>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 text-center py-12">
+          <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No controlled drugs</h3>
+          <p className="text-gray-600">Mark a medicine as a controlled substance to start its register.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ControlledRegister;
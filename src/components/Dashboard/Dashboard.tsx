@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -334,6 +335,12 @@ const Dashboard: React.FC = () => {
                   </div>
                 ))}
               </div>
+              <Link
+                to="/purchases/reorder"
+                className="inline-block mt-3 text-sm font-medium text-amber-800 hover:text-amber-900 transition-colors"
+              >
+                View reorder suggestions →
+              </Link>
             </div>
           )}
         </div>
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Search, Upload, Trash2, FlaskConical } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { DrugInteraction, InteractionSeverity } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import {
+  importInteractions,
+  interactionSeverityLabels,
+  interactionSeverityStyles,
+  normalizeIngredient,
+  parseInteractionDataset,
+} from '../../utils/interactions';
+
+const PAGE_SIZE = 200;
+
+const InteractionLibrary: React.FC = () => {
+  const [interactions, setInteractions] = useState<DrugInteraction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [severity, setSeverity] = useState<InteractionSeverity | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { appUser } = useAuthContext();
+
+  const fetchInteractions = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('drug_interactions')
+        .select('*', { count: 'exact' })
+        .order('ingredient_a')
+        .order('ingredient_b')
+        .limit(PAGE_SIZE);
+
+      const term = normalizeIngredient(searchTerm).replace(/[,()]/g, '');
+      if (term) {
+        query = query.or(`ingredient_a.ilike.%${term}%,ingredient_b.ilike.%${term}%`);
+      }
+      if (severity) {
+        query = query.eq('severity', severity);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+
+      setInteractions(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching interactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [searchTerm, severity]);
+
+  useEffect(() => {
+    fetchInteractions();
+  }, [fetchInteractions]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !appUser?.organization_id) return;
+
+    setImporting(true);
+    try {
+      const { records, errors } = parseInteractionDataset(await file.text(), file.name);
+
+      if (records.length === 0) {
+        alert(`No interactions found in ${file.name}.${errors.length ? `\n\n${errors.slice(0, 10).join('\n')}` : ''}`);
+        return;
+      }
+
+      if (!confirm(
+        `Import ${records.length} interaction pairs from ${file.name}?` +
+        (errors.length ? `\n\n${errors.length} rows will be skipped:\n${errors.slice(0, 10).join('\n')}` : '') +
+        '\n\nPairs already in the library are updated.'
+      )) return;
+
+      await importInteractions(appUser.organization_id, records, file.name);
+      fetchInteractions();
+    } catch (error) {
+      console.error('Error importing interactions:', error);
+      alert('Error importing the dataset. Check that it is a CSV or JSON file of ingredient pairs.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (interaction: DrugInteraction) => {
+    if (!confirm(`Remove the ${interaction.ingredient_a} + ${interaction.ingredient_b} interaction?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('drug_interactions')
+        .delete()
+        .eq('id', interaction.id);
+
+      if (error) throw error;
+      fetchInteractions();
+    } catch (error) {
+      console.error('Error deleting interaction:', error);
+      alert('Error deleting interaction. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Interaction Library</h1>
+          <p className="text-gray-600 mt-1">Ingredient pairs checked at the till, with {total} pairs on file</p>
+        </div>
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Upload className="w-5 h-5" />
+            <span>{importing ? 'Importing...' : 'Import CSV / JSON'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by ingredient..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={severity}
+            onChange={(e) => setSeverity(e.target.value as InteractionSeverity | '')}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All severities</option>
+            {(Object.keys(interactionSeverityLabels) as InteractionSeverity[]).map((item) => (
+              <option key={item} value={item}>{interactionSeverityLabels[item]}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-sm text-gray-500 mt-3">
+          Datasets need a header row with ingredient_a, ingredient_b, severity (minor, moderate, major or
+          contraindicated) and description columns. JSON files are an array of objects with the same keys.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {interactions.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-700">Ingredients</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-700">Severity</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-700">Description</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-700">Source</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {interactions.map((interaction) => (
+                <tr key={interaction.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 font-medium text-gray-900 whitespace-nowrap">
+                    {interaction.ingredient_a} + {interaction.ingredient_b}
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${interactionSeverityStyles[interaction.severity]}`}>
+                      {interactionSeverityLabels[interaction.severity]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-gray-700">{interaction.description}</td>
+                  <td className="px-6 py-3 text-gray-500">{interaction.source}</td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => handleDelete(interaction)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <FlaskConical className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {loading ? 'Loading...' : searchTerm || severity ? 'No matching interactions' : 'No interactions yet'}
+            </h3>
+            <p className="text-gray-600">Import an interaction dataset to start checking sales.</p>
+          </div>
+        )}
+        {total > interactions.length && (
+          <p className="px-6 py-3 text-sm text-gray-500 border-t border-gray-100">
+            Showing {interactions.length} of {total}. Search to narrow the list.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InteractionLibrary;
@@ -1,9 +1,59 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Bell, Search, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Notification } from '../../types';
 import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
 
 const Header: React.FC = () => {
   const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [showNotifications, setShowNotifications] = useState(false);
+
+  // Notifications for this store, plus organization-wide ones, that this user has not read
+  const fetchNotifications = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      // Reads are only visible to their own user, so any read listed here is ours
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*, reads:notification_reads (user_id)')
+        .eq('organization_id', currentStore.organization_id)
+        .or(`store_id.eq.${currentStore.id},store_id.is.null`)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setNotifications(((data || []) as Array<Notification & { reads: { user_id: string }[] }>)
+        .filter(notification => notification.reads.length === 0)
+        .slice(0, 20));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAllRead = async () => {
+    if (!appUser) return;
+
+    try {
+      const { error } = await supabase
+        .from('notification_reads')
+        .upsert(notifications.map(notification => ({ notification_id: notification.id, user_id: appUser.id })));
+
+      if (error) throw error;
+      setNotifications([]);
+      setShowNotifications(false);
+    } catch (error) {
+      console.error('Error updating notifications:', error);
+    }
+  };
 
   return (
     <header className="bg-white shadow-sm border-b">
@@ -20,10 +70,49 @@ const Header: React.FC = () => {
         </div>
 
         <div className="flex items-center space-x-4">
-          <button className="relative p-2 text-gray-400 hover:text-gray-600 transition-colors">
-            <Bell className="w-5 h-5" />
-            <span className="absolute top-0 right-0 w-2 h-2 bg-red-500 rounded-full"></span>
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowNotifications(!showNotifications)}
+              className="relative p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <Bell className="w-5 h-5" />
+              {notifications.length > 0 && (
+                <span className="absolute top-0 right-0 w-2 h-2 bg-red-500 rounded-full"></span>
+              )}
+            </button>
+
+            {showNotifications && (
+              <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg border border-gray-200 z-40">
+                <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900">Notifications</h3>
+                  {notifications.length > 0 && (
+                    <button onClick={markAllRead} className="text-sm text-blue-600 hover:text-blue-700">
+                      Mark all read
+                    </button>
+                  )}
+                </div>
+                <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+                  {notifications.map((notification) => (
+                    <div
+                      key={notification.id}
+                      className={`px-4 py-3 ${notification.priority === 'urgent' ? 'bg-red-50' : ''}`}
+                    >
+                      <p className={`text-sm font-medium ${notification.priority === 'urgent' ? 'text-red-800' : 'text-gray-900'}`}>
+                        {notification.title}
+                      </p>
+                      <p className="text-sm text-gray-600">{notification.message}</p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {format(new Date(notification.created_at), 'MMM dd, HH:mm')}
+                      </p>
+                    </div>
+                  ))}
+                  {notifications.length === 0 && (
+                    <p className="px-4 py-6 text-sm text-gray-600 text-center">You're all caught up.</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
 
           <div className="flex items-center space-x-2">
             <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
@@ -40,4 +129,4 @@ const Header: React.FC = () => {
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
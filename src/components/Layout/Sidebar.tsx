@@ -29,14 +29,24 @@ import {
   UserPlus,
   Database,
   Store,
+  HandCoins,
+  Truck,
+  ClipboardList,
+  ArrowLeftRight,
+  ShieldAlert,
+  ClipboardCheck,
+  BookOpenCheck,
+  FlaskConical,
 } from 'lucide-react';
 import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
 
 const Sidebar: React.FC = () => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [expandedSections, setExpandedSections] = useState<string[]>(['reports', 'settings']);
   const { signOut, appUser } = useAuthContext();
+  const { stores, currentStore, selectStore } = useStoreContext();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -56,7 +66,13 @@ const Sidebar: React.FC = () => {
     { icon: Home, label: 'Dashboard', path: '/' },
     { icon: Pill, label: 'Medicines', path: '/medicines' },
     { icon: ShoppingCart, label: 'Purchases', path: '/purchases' },
+    { icon: ClipboardList, label: 'Purchase Orders', path: '/purchase-orders' },
+    { icon: Truck, label: 'Vendors', path: '/vendors' },
+    { icon: ArrowLeftRight, label: 'Transfers', path: '/transfers' },
+    { icon: ClipboardCheck, label: 'Stock-take', path: '/stock-take' },
+    { icon: BookOpenCheck, label: 'Controlled Register', path: '/controlled-register' },
     { icon: Receipt, label: 'Sales', path: '/sales' },
+    { icon: HandCoins, label: 'Receivables', path: '/receivables' },
     { icon: CreditCard, label: 'Payments', path: '/payments' },
     { icon: TrendingUp, label: 'Expenses', path: '/expenses' },
     { icon: Users, label: 'Patients', path: '/patients' },
@@ -65,6 +81,8 @@ const Sidebar: React.FC = () => {
   const adminNavItems = [
     { icon: Building2, label: 'Organization', path: '/organization' },
     { icon: Store, label: 'Stores', path: '/stores' },
+    { icon: ShieldAlert, label: 'Recalls', path: '/recalls' },
+    { icon: FlaskConical, label: 'Interactions', path: '/interactions' },
     { icon: UserPlus, label: 'Team', path: '/team' },
     { icon: Crown, label: 'Subscriptions', path: '/subscriptions' },
     { icon: Shield, label: 'Security', path: '/security' },
@@ -123,7 +141,20 @@ const Sidebar: React.FC = () => {
                   <p className="text-sm font-medium text-gray-900 truncate">
                     ABC Pharmacy Chain
                   </p>
-                  <p className="text-xs text-gray-600">Main Branch</p>
+                  {stores.length > 1 ? (
+                    <select
+                      value={currentStore?.id || ''}
+                      onChange={(e) => selectStore(e.target.value)}
+                      className="w-full text-xs text-gray-600 bg-transparent border-none p-0 focus:ring-0 cursor-pointer"
+                      title="Switch store"
+                    >
+                      {stores.map((store) => (
+                        <option key={store.id} value={store.id}>{store.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-xs text-gray-600">{currentStore?.name}</p>
+                  )}
                 </div>
               </div>
             </div>
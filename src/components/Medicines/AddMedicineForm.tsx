@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { X, Plus, Save, Scan, Calendar, AlertTriangle } from 'lucide-react';
+import { X, Plus, Save, Scan, Calendar, AlertTriangle, ShieldAlert, FileText } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { Medicine } from '../../types';
 import { useAutoSave } from '../../hooks/useAutoSave';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { useAuthContext } from '../../contexts/AuthContext';
 import AutoSaveIndicator from '../Common/AutoSaveIndicator';
 import RestoreDataBanner from '../Common/RestoreDataBanner';
 import BarcodeScanner from './BarcodeScanner';
+import { GS1Data, gtinCandidates, gtinToBarcode, parseGS1 } from '../../utils/gs1';
+import { findOrCreateProduct } from '../../utils/productCatalogue';
+import { adjustBatchQuantity, recordMovement } from '../../utils/stockLedger';
+import { openRegister } from '../../utils/controlledRegister';
+import { parseIngredientList } from '../../utils/interactions';
 import { differenceInDays, format } from 'date-fns';
 
 interface AddMedicineFormProps {
@@ -25,7 +32,13 @@ interface MedicineFormData {
   category: string;
   description: string;
   manufacturer: string;
+  strength: string;
   min_stock_level: number;
+  location: string;
+  controlled: boolean;
+  schedule: string;
+  prescription_only: boolean;
+  active_ingredients: string;
   barcode?: string;
 }
 
@@ -45,7 +58,13 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
     category: '',
     description: '',
     manufacturer: '',
+    strength: '',
     min_stock_level: 10,
+    location: '',
+    controlled: false,
+    schedule: '',
+    prescription_only: false,
+    active_ingredients: '',
     barcode: '',
   });
 
@@ -55,6 +74,9 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
   const [expiryWarning, setExpiryWarning] = useState<string | null>(null);
+  const [adjustmentReason, setAdjustmentReason] = useState('');
+  const { currentStore } = useStoreContext();
+  const { appUser } = useAuthContext();
 
   // Auto-save functionality
   const {
@@ -85,7 +107,13 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
         category: editingMedicine.category,
         description: editingMedicine.description || '',
         manufacturer: editingMedicine.manufacturer || '',
+        strength: editingMedicine.strength || '',
         min_stock_level: editingMedicine.min_stock_level,
+        location: editingMedicine.location || '',
+        controlled: !!editingMedicine.controlled,
+        schedule: editingMedicine.schedule || '',
+        prescription_only: !!editingMedicine.prescription_only,
+        active_ingredients: (editingMedicine.active_ingredients || []).join(', '),
         barcode: (editingMedicine as any).barcode || '',
       });
     } else {
@@ -100,10 +128,17 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
         category: '',
         description: '',
         manufacturer: '',
+        strength: '',
         min_stock_level: 10,
+        location: '',
+        controlled: false,
+        schedule: '',
+        prescription_only: false,
+        active_ingredients: '',
         barcode: '',
       });
     }
+    setAdjustmentReason('');
   }, [editingMedicine, isOpen]);
 
   // Check expiry date for warnings
@@ -135,11 +170,14 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
       ...prev,
       [name]: name === 'quantity' || name === 'price' || name === 'cost_price' || name === 'min_stock_level'
         ? parseFloat(value) || 0
-        : value,
+        : e.target.type === 'checkbox'
+          ? (e.target as HTMLInputElement).checked
+          : value,
     }));
   };
 
-  const handleBarcodeScanned = (barcode: string, medicineData?: any) => {
+  // Product details come from the matched medicine; batch and expiry from the pack itself when it carries GS1 data
+  const handleBarcodeScanned = (barcode: string, medicineData?: Medicine, gs1?: GS1Data) => {
     setFormData(prev => ({
       ...prev,
       barcode,
@@ -148,34 +186,143 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
         batch_no: medicineData.batch_no,
         expiry_date: medicineData.expiry_date,
         manufacturer: medicineData.manufacturer || prev.manufacturer,
+        strength: medicineData.strength || prev.strength,
         category: medicineData.category || prev.category,
+        active_ingredients: (medicineData.active_ingredients || []).join(', ') || prev.active_ingredients,
       }),
+      ...(medicineData && gs1 && {
+        price: prev.price || medicineData.price,
+        cost_price: prev.cost_price || medicineData.cost_price,
+        min_stock_level: medicineData.min_stock_level,
+        batch_no: '',
+        expiry_date: '',
+      }),
+      ...(gs1?.batch && { batch_no: gs1.batch }),
+      ...(gs1?.expiry && { expiry_date: gs1.expiry }),
     }));
     
     setSaveStatus('pending');
     setShowBarcodeScanner(false);
   };
 
+  // Handheld scanners type into the barcode field, so a GS1 string there is unpacked too
+  const handleBarcodeBlur = async () => {
+    const gs1 = formData.barcode ? parseGS1(formData.barcode) : null;
+    if (!gs1) return;
+
+    let product: Medicine | undefined;
+    if (gs1.gtin && currentStore) {
+      const { data } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .in('barcode', gtinCandidates(gs1.gtin))
+        .order('created_at', { ascending: false })
+        .limit(1);
+      product = data?.[0];
+    }
+
+    handleBarcodeScanned(product?.barcode || (gs1.gtin ? gtinToBarcode(gs1.gtin) : ''), product, gs1);
+  };
+
+  const quantityChanged = !!editingMedicine && formData.quantity !== editingMedicine.quantity;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!appUser) return;
+
     setLoading(true);
     setError('');
     setSaveStatus('saving');
 
     try {
+      // Every batch points at its catalogue product; renaming a batch moves it
+      const organizationId = editingMedicine?.organization_id || currentStore?.organization_id;
+      const keepProduct =
+        editingMedicine?.product_id &&
+        editingMedicine.name.trim().toLowerCase() === formData.name.trim().toLowerCase();
+      const productId = keepProduct
+        ? editingMedicine.product_id
+        : organizationId
+          ? await findOrCreateProduct(formData, organizationId)
+          : undefined;
+
+      const schedule = formData.controlled ? formData.schedule.trim() || null : null;
+      const activeIngredients = parseIngredientList(formData.active_ingredients);
+
       if (editingMedicine) {
+        // Stock only moves by the typed difference, so sales since the form opened still stand
+        const { quantity, ...fields } = formData;
         const { error } = await supabase
           .from('medicines')
-          .update(formData)
+          .update({ ...fields, schedule, active_ingredients: activeIngredients, product_id: productId })
           .eq('id', editingMedicine.id);
 
         if (error) throw error;
+
+        // Dispensing rules apply to the drug, so every batch in the store follows
+        if (productId && currentStore && (
+          formData.controlled !== !!editingMedicine.controlled ||
+          schedule !== (editingMedicine.schedule || null) ||
+          formData.prescription_only !== !!editingMedicine.prescription_only ||
+          activeIngredients.join() !== (editingMedicine.active_ingredients || []).join()
+        )) {
+          const { data: batches, error: batchError } = await supabase
+            .from('medicines')
+            .update({
+              controlled: formData.controlled,
+              schedule,
+              prescription_only: formData.prescription_only,
+              active_ingredients: activeIngredients,
+            })
+            .eq('product_id', productId)
+            .eq('store_id', currentStore.id)
+            .select();
+
+          if (batchError) throw batchError;
+
+          if (formData.controlled && !editingMedicine.controlled) {
+            await openRegister(batches || [], appUser.id);
+          }
+        }
+
+        // Manual edits to quantity go on the ledger as adjustments
+        if (quantityChanged) {
+          const quantityChange = quantity - editingMedicine.quantity;
+          const { medicine, balanceAfter } = await adjustBatchQuantity(editingMedicine.id, quantityChange);
+          await recordMovement({
+            type: 'adjustment',
+            userId: appUser.id,
+            reason: adjustmentReason,
+            medicine,
+            quantityChange,
+            balanceAfter,
+          });
+        }
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('medicines')
-          .insert([formData]);
+          .insert([{
+            ...formData,
+            schedule,
+            active_ingredients: activeIngredients,
+            product_id: productId,
+            store_id: currentStore?.id,
+            organization_id: currentStore?.organization_id,
+          }])
+          .select()
+          .single();
 
         if (error) throw error;
+
+        await recordMovement({
+          type: 'receipt',
+          userId: appUser.id,
+          reason: 'Added manually',
+          medicine: data,
+          quantityChange: data.quantity,
+          balanceAfter: data.quantity,
+        });
       }
 
       setSaveStatus('saved');
@@ -283,8 +430,9 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
                     name="barcode"
                     value={formData.barcode}
                     onChange={handleInputChange}
+                    onBlur={handleBarcodeBlur}
                     className="w-full px-4 py-3 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
-                    placeholder="Enter barcode manually or use scanner"
+                    placeholder="Enter barcode or GS1 code, e.g. (01)…(17)…(10)…"
                   />
                 </div>
               </div>
@@ -385,6 +533,23 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
                     min="0"
                     required
                   />
+                  {quantityChanged && editingMedicine && (
+                    <div className="mt-2">
+                      <label htmlFor="adjustment_reason" className="block text-sm font-medium text-gray-700 mb-1">
+                        Reason for {formData.quantity > editingMedicine.quantity ? '+' : ''}
+                        {formData.quantity - editingMedicine.quantity} adjustment *
+                      </label>
+                      <input
+                        type="text"
+                        id="adjustment_reason"
+                        value={adjustmentReason}
+                        onChange={(e) => setAdjustmentReason(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="e.g. Count correction, damaged in store"
+                        required
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -440,19 +605,121 @@ const AddMedicineForm: React.FC<AddMedicineFormProps> = ({
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="strength" className="block text-sm font-medium text-gray-700 mb-2">
+                    Strength
+                  </label>
+                  <input
+                    type="text"
+                    id="strength"
+                    name="strength"
+                    value={formData.strength}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g. 500 mg"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="manufacturer" className="block text-sm font-medium text-gray-700 mb-2">
+                    Manufacturer
+                  </label>
+                  <input
+                    type="text"
+                    id="manufacturer"
+                    name="manufacturer"
+                    value={formData.manufacturer}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Enter manufacturer name"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
+                    Shelf / Bin Location
+                  </label>
+                  <input
+                    type="text"
+                    id="location"
+                    name="location"
+                    value={formData.location}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g. A3-02"
+                  />
+                </div>
+              </div>
+
               <div>
-                <label htmlFor="manufacturer" className="block text-sm font-medium text-gray-700 mb-2">
-                  Manufacturer
+                <label htmlFor="active_ingredients" className="block text-sm font-medium text-gray-700 mb-2">
+                  Active Ingredients
                 </label>
                 <input
                   type="text"
-                  id="manufacturer"
-                  name="manufacturer"
-                  value={formData.manufacturer}
+                  id="active_ingredients"
+                  name="active_ingredients"
+                  value={formData.active_ingredients}
                   onChange={handleInputChange}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Enter manufacturer name"
+                  placeholder="Comma-separated, e.g. paracetamol, codeine"
                 />
+                <p className="mt-1 text-sm text-gray-500">Used for interaction and allergy checks at the till</p>
+              </div>
+
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
+                <label className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    name="prescription_only"
+                    checked={formData.prescription_only}
+                    onChange={handleInputChange}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="flex items-center space-x-2 text-sm font-medium text-blue-900">
+                    <FileText className="w-4 h-4" />
+                    <span>Prescription only</span>
+                  </span>
+                </label>
+                <p className="mt-1 ml-7 text-sm text-blue-700">
+                  Can only be sold against a valid prescription for the patient.
+                </p>
+              </div>
+
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
+                <label className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    name="controlled"
+                    checked={formData.controlled}
+                    onChange={handleInputChange}
+                    className="w-4 h-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                  />
+                  <span className="flex items-center space-x-2 text-sm font-medium text-amber-900">
+                    <ShieldAlert className="w-4 h-4" />
+                    <span>Controlled substance</span>
+                  </span>
+                </label>
+                <p className="mt-1 ml-7 text-sm text-amber-700">
+                  Every receipt and dispense is kept in the controlled register. Applies to all batches of this medicine in the store.
+                </p>
+                {formData.controlled && (
+                  <div className="mt-4 ml-7">
+                    <label htmlFor="schedule" className="block text-sm font-medium text-amber-800 mb-2">
+                      Schedule
+                    </label>
+                    <input
+                      type="text"
+                      id="schedule"
+                      name="schedule"
+                      value={formData.schedule}
+                      onChange={handleInputChange}
+                      className="w-full px-4 py-3 border border-amber-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white"
+                      placeholder="e.g. Schedule II, Narcotic"
+                    />
+                  </div>
+                )}
               </div>
 
               <div>
@@ -1,18 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, X, Scan, Flashlight, FlashlightOff, RotateCcw, CheckCircle } from 'lucide-react';
+import { Camera, X, Scan, Flashlight, FlashlightOff, RotateCcw, CheckCircle, ImageUp } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { barcodeCandidates, decodeCanvas, decodeImageFile } from '../../utils/barcodeDecoder';
+import { GS1Data, gtinCandidates, gtinToBarcode, parseGS1 } from '../../utils/gs1';
 
 interface BarcodeScannerProps {
   isOpen: boolean;
   onClose: () => void;
-  onScanResult: (barcode: string, medicineData?: any) => void;
-}
-
-interface MedicineData {
-  name: string;
-  batch_no: string;
-  expiry_date: string;
-  manufacturer?: string;
-  category?: string;
+  onScanResult: (barcode: string, medicineData?: Medicine, gs1?: GS1Data) => void;
 }
 
 const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
@@ -25,38 +23,21 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
   const [flashlightOn, setFlashlightOn] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const [scanResult, setScanResult] = useState<string | null>(null);
-  const [medicineData, setMedicineData] = useState<MedicineData | null>(null);
+  const [scanFormat, setScanFormat] = useState<string | null>(null);
+  const [medicineData, setMedicineData] = useState<Medicine | null>(null);
+  const [gs1Data, setGs1Data] = useState<GS1Data | null>(null);
   const [loading, setLoading] = useState(false);
-  
+  const [imageError, setImageError] = useState('');
+
+  const { currentStore } = useStoreContext();
+
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const scanIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Mock medicine database for demo
-  const medicineDatabase: Record<string, MedicineData> = {
-    '1234567890123': {
-      name: 'Paracetamol 500mg',
-      batch_no: 'PCM2024001',
-      expiry_date: '2025-12-31',
-      manufacturer: 'PharmaCorp',
-      category: 'Pain Relief',
-    },
-    '9876543210987': {
-      name: 'Amoxicillin 250mg',
-      batch_no: 'AMX2024002',
-      expiry_date: '2025-06-30',
-      manufacturer: 'MediLab',
-      category: 'Antibiotics',
-    },
-    '5555666677778': {
-      name: 'Ibuprofen 400mg',
-      batch_no: 'IBU2024003',
-      expiry_date: '2024-03-15',
-      manufacturer: 'HealthCare Inc',
-      category: 'Pain Relief',
-    },
-  };
+  const scanIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // The interval callback outlives renders, so it reads scanning state from a ref
+  const scanningRef = useRef(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -84,7 +65,6 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         streamRef.current = stream;
-        setIsScanning(true);
         startBarcodeDetection();
       }
     } catch (error) {
@@ -98,63 +78,78 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
       clearInterval(scanIntervalRef.current);
     }
 
+    scanningRef.current = true;
+    setIsScanning(true);
+
     scanIntervalRef.current = setInterval(() => {
-      if (videoRef.current && canvasRef.current && isScanning) {
+      if (videoRef.current && canvasRef.current && scanningRef.current) {
         const video = videoRef.current;
         const canvas = canvasRef.current;
-        const context = canvas.getContext('2d');
+        const context = canvas.getContext('2d', { willReadFrequently: true });
 
         if (context && video.readyState === video.HAVE_ENOUGH_DATA) {
           canvas.width = video.videoWidth;
           canvas.height = video.videoHeight;
           context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-          // Simulate barcode detection (in real app, use a library like ZXing or QuaggaJS)
-          const mockBarcode = simulateBarcodeDetection();
-          if (mockBarcode) {
-            handleBarcodeDetected(mockBarcode);
+          const decoded = decodeCanvas(canvas);
+          if (decoded) {
+            handleBarcodeDetected(decoded.text, decoded.format);
           }
         }
       }
-    }, 500);
+    }, 300);
   };
 
-  const simulateBarcodeDetection = (): string | null => {
-    // Simulate random barcode detection for demo
-    const barcodes = Object.keys(medicineDatabase);
-    if (Math.random() > 0.95) { // 5% chance of detection per scan
-      return barcodes[Math.floor(Math.random() * barcodes.length)];
-    }
-    return null;
+  // The scanned batch if we stock it, otherwise the most recently received batch of the product
+  const lookupMedicine = async (candidates: string[], batch?: string): Promise<Medicine | null> => {
+    if (!currentStore) return null;
+
+    const { data, error } = await supabase
+      .from('medicines')
+      .select('*')
+      .eq('store_id', currentStore.id)
+      .in('barcode', candidates)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data?.find(medicine => batch && medicine.batch_no === batch) || data?.[0] || null;
   };
 
-  const handleBarcodeDetected = async (barcode: string) => {
-    if (scanResult === barcode) return; // Avoid duplicate scans
-    
-    setScanResult(barcode);
-    setLoading(true);
-    
-    // Stop scanning temporarily
+  const handleBarcodeDetected = async (barcode: string, detectedFormat?: string) => {
+    // Stop scanning while the result is shown
+    scanningRef.current = false;
     setIsScanning(false);
     if (scanIntervalRef.current) {
       clearInterval(scanIntervalRef.current);
+      scanIntervalRef.current = null;
     }
 
+    const gs1 = parseGS1(barcode);
+    // A GS1 code identifies the product by its GTIN, not by the whole payload
+    const productCode = gs1?.gtin ? gtinToBarcode(gs1.gtin) : barcode;
+    const candidates = gs1?.gtin ? gtinCandidates(gs1.gtin) : barcodeCandidates(barcode);
+
+    setScanResult(productCode);
+    setScanFormat(detectedFormat || null);
+    setGs1Data(gs1);
+    setImageError('');
+    setLoading(true);
+
     try {
-      // Look up medicine data
-      const data = medicineDatabase[barcode];
+      const data = await lookupMedicine(candidates, gs1?.batch);
       if (data) {
         setMedicineData(data);
-        
-        // Auto-close after 2 seconds and return data
+
+        // Hand back the stored spelling so callers can match on medicines.barcode
         setTimeout(() => {
-          onScanResult(barcode, data);
+          onScanResult(data.barcode || productCode, data, gs1 || undefined);
           onClose();
-        }, 2000);
+        }, 1500);
       } else {
         // Unknown barcode - still return it
         setTimeout(() => {
-          onScanResult(barcode);
+          onScanResult(productCode, undefined, gs1 || undefined);
           onClose();
         }, 1500);
       }
@@ -165,7 +160,26 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
     }
   };
 
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const decoded = await decodeImageFile(file);
+      if (decoded) {
+        handleBarcodeDetected(decoded.text, decoded.format);
+      } else {
+        setImageError('No barcode found in that image. Try a sharper, closer photo.');
+      }
+    } catch (error) {
+      console.error('Error decoding image:', error);
+      setImageError('Could not read that image.');
+    }
+  };
+
   const stopScanning = () => {
+    scanningRef.current = false;
     setIsScanning(false);
     
     if (scanIntervalRef.current) {
@@ -183,7 +197,10 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
     }
 
     setScanResult(null);
+    setScanFormat(null);
     setMedicineData(null);
+    setGs1Data(null);
+    setImageError('');
     setFlashlightOn(false);
   };
 
@@ -221,7 +238,6 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         streamRef.current = stream;
-        setIsScanning(true);
         startBarcodeDetection();
       }
     } catch (error) {
@@ -275,12 +291,20 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
               <p className="text-gray-600 mb-4">
                 Please allow camera access to scan barcodes. You can also enter the barcode manually.
               </p>
-              <button
-                onClick={handleManualInput}
-                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Enter Manually
-              </button>
+              <div className="flex justify-center space-x-3">
+                <button
+                  onClick={handleManualInput}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Enter Manually
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Upload Image
+                </button>
+              </div>
             </div>
           )}
 
@@ -332,14 +356,42 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
                     </div>
                     
                     <h3 className="text-lg font-bold text-gray-900 mb-2">Barcode Detected!</h3>
-                    <p className="text-gray-600 mb-4 font-mono text-sm">{scanResult}</p>
+                    <p className="text-gray-600 font-mono text-sm break-all">{scanResult}</p>
+                    {scanFormat && <p className="text-xs text-gray-400 mb-4">{scanFormat.replace('_', '-')}</p>}
+
+                    {gs1Data && (
+                      <div className="grid grid-cols-3 gap-2 mb-3 text-left text-xs">
+                        <div className="bg-gray-50 p-2 rounded">
+                          <p className="text-gray-500">Batch</p>
+                          <p className="font-mono font-medium text-gray-900">{gs1Data.batch || '—'}</p>
+                        </div>
+                        <div className="bg-gray-50 p-2 rounded">
+                          <p className="text-gray-500">Expiry</p>
+                          <p className="font-medium text-gray-900">
+                            {gs1Data.expiry ? format(new Date(gs1Data.expiry), 'MMM dd, yyyy') : '—'}
+                          </p>
+                        </div>
+                        <div className="bg-gray-50 p-2 rounded">
+                          <p className="text-gray-500">Serial</p>
+                          <p className="font-mono font-medium text-gray-900 truncate">{gs1Data.serial || '—'}</p>
+                        </div>
+                      </div>
+                    )}
                     
-                    {medicineData ? (
+                    {loading ? (
+                      <p className="text-gray-500 text-sm">Looking up {currentStore?.name}...</p>
+                    ) : medicineData ? (
                       <div className="space-y-2 text-left">
                         <div className="bg-blue-50 p-3 rounded-lg">
                           <p className="font-semibold text-blue-900">{medicineData.name}</p>
-                          <p className="text-sm text-blue-700">Batch: {medicineData.batch_no}</p>
-                          <p className="text-sm text-blue-700">Expires: {medicineData.expiry_date}</p>
+                          {!gs1Data && (
+                            <>
+                              <p className="text-sm text-blue-700">Batch: {medicineData.batch_no}</p>
+                              <p className="text-sm text-blue-700">
+                                Expires: {format(new Date(medicineData.expiry_date), 'MMM dd, yyyy')}
+                              </p>
+                            </>
+                          )}
                           {medicineData.manufacturer && (
                             <p className="text-sm text-blue-700">Mfg: {medicineData.manufacturer}</p>
                           )}
@@ -349,7 +401,7 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
                     ) : (
                       <div className="bg-yellow-50 p-3 rounded-lg">
                         <p className="text-yellow-800 text-sm">
-                          Medicine not found in database. You can add details manually.
+                          No medicine with this barcode in {currentStore?.name || 'this store'}. You can add details manually.
                         </p>
                       </div>
                     )}
@@ -381,14 +433,31 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
         <div className="p-4 bg-gray-50 border-t border-gray-200">
           <div className="text-center">
             <p className="text-sm text-gray-600 mb-2">
-              Point your camera at a medicine barcode to scan
+              Point your camera at an EAN-13, UPC-A, Code 128, DataMatrix or QR code
             </p>
-            <button
-              onClick={handleManualInput}
-              className="text-blue-600 text-sm font-medium hover:text-blue-700 transition-colors"
-            >
-              Or enter barcode manually
-            </button>
+            {imageError && <p className="text-sm text-red-600 mb-2">{imageError}</p>}
+            <div className="flex items-center justify-center space-x-4">
+              <button
+                onClick={handleManualInput}
+                className="text-blue-600 text-sm font-medium hover:text-blue-700 transition-colors"
+              >
+                Enter barcode manually
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center space-x-1 text-blue-600 text-sm font-medium hover:text-blue-700 transition-colors"
+              >
+                <ImageUp className="w-4 h-4" />
+                <span>Scan from image</span>
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleImageUpload}
+              className="hidden"
+            />
           </div>
         </div>
       </div>
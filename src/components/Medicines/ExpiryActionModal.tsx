@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trash2, Undo2, Tag } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, Vendor } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import SignaturePad from '../Common/SignaturePad';
+import {
+  BatchSource,
+  createVendorReturn,
+  findBatchSource,
+  setClearancePrice,
+  writeOffBatch,
+} from '../../utils/expiryActions';
+
+export type ExpiryAction = 'write_off' | 'return' | 'clearance';
+
+interface ExpiryActionModalProps {
+  medicine: Medicine | null;
+  action: ExpiryAction;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const actionTitles: Record<ExpiryAction, string> = {
+  write_off: 'Write Off Batch',
+  return: 'Return to Vendor',
+  clearance: 'Clearance Pricing',
+};
+
+const ExpiryActionModal: React.FC<ExpiryActionModalProps> = ({
+  medicine,
+  action,
+  onClose,
+  onSuccess,
+}) => {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [source, setSource] = useState<BatchSource | null>(null);
+  const [vendorId, setVendorId] = useState('');
+  const [quantity, setQuantity] = useState(0);
+  const [unitCost, setUnitCost] = useState(0);
+  const [reason, setReason] = useState('Expired');
+  const [notes, setNotes] = useState('');
+  const [discount, setDiscount] = useState(30);
+  const [witnessName, setWitnessName] = useState('');
+  const [witnessSignature, setWitnessSignature] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { stores } = useStoreContext();
+
+  useEffect(() => {
+    if (!medicine) return;
+
+    setQuantity(medicine.quantity);
+    setUnitCost(medicine.cost_price || 0);
+    setReason(new Date(medicine.expiry_date) < new Date() ? 'Expired' : 'Near expiry');
+    setNotes('');
+    setDiscount(
+      medicine.clearance_price != null && medicine.price > 0
+        ? Math.round((1 - medicine.clearance_price / medicine.price) * 100)
+        : 30
+    );
+    setWitnessName('');
+    setWitnessSignature('');
+    setError('');
+    setSource(null);
+    setVendorId('');
+
+    if (action !== 'return') return;
+
+    const loadVendor = async () => {
+      try {
+        const { data: vendorsData } = await supabase
+          .from('vendors')
+          .select('*')
+          .eq('organization_id', medicine.organization_id)
+          .eq('is_active', true)
+          .order('name');
+
+        const batchSource = await findBatchSource(medicine);
+        setVendors(vendorsData || []);
+        setSource(batchSource);
+        setVendorId(batchSource.vendorId || '');
+        setUnitCost(batchSource.unitCost);
+      } catch (err) {
+        console.error('Error loading batch vendor:', err);
+        setError('Could not find where this batch was bought from.');
+      }
+    };
+
+    loadVendor();
+  }, [medicine, action]);
+
+  if (!medicine) return null;
+
+  const clearancePrice = Math.round(medicine.price * (100 - discount)) / 100;
+  const storeCode = stores.find(store => store.id === medicine.store_id)?.code || 'RT';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!appUser) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      if (action === 'write_off') {
+        await writeOffBatch(medicine, reason, appUser.id, { witnessName, witnessSignature });
+      } else if (action === 'return') {
+        if (!vendorId) throw new Error('Select the vendor to return this batch to.');
+        await createVendorReturn({
+          medicine,
+          storeCode,
+          quantity,
+          source: { ...source, vendorId, unitCost },
+          reason,
+          notes,
+          userId: appUser.id,
+        });
+      } else {
+        await setClearancePrice(medicine, discount > 0 ? clearancePrice : null, appUser.id);
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error processing expiry action:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const ActionIcon = action === 'write_off' ? Trash2 : action === 'return' ? Undo2 : Tag;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">{actionTitles[action]}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="bg-gray-50 rounded-lg p-4 text-sm">
+            <p className="font-medium text-gray-900">{medicine.name}</p>
+            <p className="text-gray-600">
+              Batch <span className="font-mono">{medicine.batch_no}</span> • Exp {format(new Date(medicine.expiry_date), 'MMM dd, yyyy')}
+            </p>
+            <p className="text-gray-600">
+              {medicine.quantity} units • ${medicine.price.toFixed(2)} each • ${(medicine.cost_price || 0).toFixed(2)} at cost
+            </p>
+          </div>
+
+          {action === 'write_off' && (
+            <>
+              <div>
+                <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <select id="reason" value={reason} onChange={(e) => setReason(e.target.value)} className={inputClassName}>
+                  <option value="Expired">Expired</option>
+                  <option value="Near expiry">Near expiry</option>
+                  <option value="Damaged">Damaged</option>
+                  <option value="Recalled">Recalled</option>
+                </select>
+              </div>
+              <p className="text-sm text-gray-700">
+                All {medicine.quantity} units will be removed from stock and{' '}
+                <strong>${(medicine.quantity * (medicine.cost_price || 0)).toFixed(2)}</strong> recorded as an expiry loss.
+              </p>
+
+              {medicine.controlled && (
+                <div className="space-y-4 bg-amber-50 border border-amber-200 rounded-lg p-4">
+                  <p className="text-sm text-amber-800">
+                    {medicine.schedule || 'Controlled'} drug: destruction is entered in the controlled register and must be witnessed.
+                  </p>
+                  <div>
+                    <label htmlFor="witness_name" className="block text-sm font-medium text-gray-700 mb-2">Witness Name *</label>
+                    <input
+                      type="text"
+                      id="witness_name"
+                      value={witnessName}
+                      onChange={(e) => setWitnessName(e.target.value)}
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <p className="block text-sm font-medium text-gray-700 mb-2">Witness Signature *</p>
+                    <SignaturePad onChange={setWitnessSignature} />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {action === 'return' && (
+            <>
+              <div>
+                <label htmlFor="vendor_id" className="block text-sm font-medium text-gray-700 mb-2">Vendor *</label>
+                <select
+                  id="vendor_id"
+                  value={vendorId}
+                  onChange={(e) => setVendorId(e.target.value)}
+                  className={inputClassName}
+                  required
+                >
+                  <option value="">Select vendor</option>
+                  {vendors.map((vendor) => (
+                    <option key={vendor.id} value={vendor.id}>
+                      {vendor.name}{vendor.id === source?.vendorId ? ' (supplied this batch)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                  <input
+                    type="number"
+                    id="quantity"
+                    min="1"
+                    max={medicine.quantity}
+                    value={quantity}
+                    onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="unit_cost" className="block text-sm font-medium text-gray-700 mb-2">Credit per Unit ($)</label>
+                  <input
+                    type="number"
+                    id="unit_cost"
+                    min="0"
+                    step="0.01"
+                    value={unitCost}
+                    onChange={(e) => setUnitCost(parseFloat(e.target.value) || 0)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="return_reason" className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <select id="return_reason" value={reason} onChange={(e) => setReason(e.target.value)} className={inputClassName}>
+                  <option value="Expired">Expired</option>
+                  <option value="Near expiry">Near expiry</option>
+                  <option value="Damaged">Damaged</option>
+                  <option value="Recalled">Recalled</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className={inputClassName}
+                  placeholder="RMA number, courier, contact..."
+                />
+              </div>
+
+              <p className="text-sm text-gray-700">
+                Credit expected: <strong>${(quantity * unitCost).toFixed(2)}</strong>
+              </p>
+            </>
+          )}
+
+          {action === 'clearance' && (
+            <>
+              <div>
+                <label htmlFor="discount" className="block text-sm font-medium text-gray-700 mb-2">Discount (%)</label>
+                <input
+                  type="number"
+                  id="discount"
+                  min="0"
+                  max="100"
+                  value={discount}
+                  onChange={(e) => setDiscount(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                  className={inputClassName}
+                />
+              </div>
+              <p className="text-sm text-gray-700">
+                {discount > 0 ? (
+                  <>
+                    Sells at <strong>${clearancePrice.toFixed(2)}</strong> instead of ${medicine.price.toFixed(2)}
+                    {clearancePrice < (medicine.cost_price || 0) && (
+                      <span className="block text-amber-700">Below cost price of ${(medicine.cost_price || 0).toFixed(2)}</span>
+                    )}
+                  </>
+                ) : (
+                  'Set the discount to 0 to return this batch to its regular price.'
+                )}
+              </p>
+            </>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className={`px-6 py-3 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 ${
+                action === 'write_off' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              <ActionIcon className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : actionTitles[action]}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExpiryActionModal;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Calendar,
   AlertTriangle,
@@ -10,10 +10,21 @@ import {
   X,
   CheckCircle,
   XCircle,
+  Trash2,
+  Undo2,
+  Tag,
+  FileText,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { format, differenceInDays, isAfter, isBefore, addDays } from 'date-fns';
-import { Medicine } from '../../types';
+import { Medicine, Product } from '../../types';
+import { groupBatchesByProduct, isProductLowStock, productKey, ProductStock } from '../../utils/productCatalogue';
+import ExpiryActionModal, { ExpiryAction } from './ExpiryActionModal';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { addSummary, addTable, createPdf, fetchBranding, pdfFile } from '../../utils/pdf';
+import { downloadFile } from '../../utils/download';
+import { xlsxCellRef, xlsxFile } from '../../utils/xlsx';
 
 interface ExpiryAlert {
   id: string;
@@ -25,14 +36,20 @@ interface ExpiryAlert {
 
 interface ExpiryTrackerProps {
   medicines: Medicine[];
+  products: Product[];
   onRefresh: () => void;
 }
 
-const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) => {
+const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, products, onRefresh }) => {
   const [alerts, setAlerts] = useState<ExpiryAlert[]>([]);
   const [filter, setFilter] = useState<'all' | 'expired' | 'critical' | 'warning'>('all');
   const [showNotifications, setShowNotifications] = useState(false);
   const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(new Set());
+  const [actionTarget, setActionTarget] = useState<{ medicine: Medicine; action: ExpiryAction } | null>(null);
+  const [exportingPDF, setExportingPDF] = useState(false);
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
 
   useEffect(() => {
     generateExpiryAlerts();
@@ -42,7 +59,8 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
     const today = new Date();
     const alertsData: ExpiryAlert[] = [];
 
-    medicines.forEach(medicine => {
+    // Written-off and fully returned batches need no further action
+    medicines.filter(medicine => medicine.quantity > 0).forEach(medicine => {
       const expiryDate = new Date(medicine.expiry_date);
       const daysUntilExpiry = differenceInDays(expiryDate, today);
       
@@ -124,32 +142,105 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
     return alert.status === filter;
   });
 
+  const productStock = useMemo(() => groupBatchesByProduct(medicines, products), [medicines, products]);
+  const stockByKey = new Map(productStock.map(stock => [stock.key, stock]));
+
+  // Alerts grouped under their product, most urgent product first
+  const alertGroups = filteredAlerts.reduce((groups, alert) => {
+    const stock = stockByKey.get(productKey(alert.medicine));
+    if (!stock) return groups;
+    const group = groups.find(entry => entry.stock.key === stock.key);
+    if (group) {
+      group.alerts.push(alert);
+    } else {
+      groups.push({ stock, alerts: [alert] });
+    }
+    return groups;
+  }, [] as Array<{ stock: ProductStock; alerts: ExpiryAlert[] }>);
+
   const dismissAlert = (alertId: string) => {
     setDismissedAlerts(prev => new Set([...prev, alertId]));
   };
 
-  const exportExpiryReport = () => {
-    const csvData = [
-      ['Medicine Name', 'Batch Number', 'Expiry Date', 'Days Until Expiry', 'Status', 'Quantity', 'Category'],
-      ...alerts.map(alert => [
-        alert.medicine.name,
-        alert.medicine.batch_no,
-        alert.medicine.expiry_date,
-        alert.daysUntilExpiry.toString(),
-        alert.status,
-        alert.medicine.quantity.toString(),
-        alert.medicine.category,
-      ])
-    ];
-
-    const csvString = csvData.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csvString], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `expiry-report-${format(new Date(), 'yyyy-MM-dd')}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportExpiryReport = async () => {
+    try {
+      const file = await xlsxFile([{
+        name: 'Expiry Report',
+        title: 'Expiry Report',
+        subtitle: `As of ${format(new Date(), 'MMMM dd, yyyy')}`,
+        columns: [
+          { header: 'Medicine Name' },
+          { header: 'Batch Number' },
+          { header: 'Expiry Date', type: 'date' },
+          { header: 'Days Until Expiry', type: 'integer' },
+          { header: 'Status' },
+          { header: 'Quantity', type: 'integer', total: 'SUM' },
+          { header: 'Unit Cost', type: 'currency' },
+          { header: 'Value at Cost', type: 'currency', total: 'SUM' },
+          { header: 'Product On Hand', type: 'integer' },
+          { header: 'Category' },
+        ],
+        rows: alerts.map((alert, index) => [
+          alert.medicine.name,
+          alert.medicine.batch_no,
+          alert.medicine.expiry_date,
+          alert.daysUntilExpiry,
+          alert.status,
+          alert.medicine.quantity,
+          alert.medicine.cost_price,
+          { formula: `${xlsxCellRef({ title: 'Expiry Report' }, index, 5)}*${xlsxCellRef({ title: 'Expiry Report' }, index, 6)}` },
+          stockByKey.get(productKey(alert.medicine))?.onHand ?? 0,
+          alert.medicine.category,
+        ]),
+      }], `expiry-report-${format(new Date(), 'yyyy-MM-dd')}.xlsx`);
+
+      downloadFile(file);
+    } catch (error) {
+      console.error('Error exporting expiry report:', error);
+      alert('Error generating the expiry report. Please try again.');
+    }
+  };
+
+  const exportExpiryPDF = async () => {
+    setExportingPDF(true);
+    try {
+      const branding = await fetchBranding(appUser?.organization_id, currentStore);
+      const { doc, y } = createPdf(branding, {
+        title: 'Expiry Report',
+        subtitle: [`As of ${format(new Date(), 'MMMM dd, yyyy')}`],
+        orientation: 'landscape',
+      });
+
+      const cursor = addSummary(doc, y, [
+        ['Expired', String(alerts.filter(alert => alert.status === 'expired').length)],
+        ['Critical (7 days)', String(alerts.filter(alert => alert.status === 'critical').length)],
+        ['Warning (30 days)', String(alerts.filter(alert => alert.status === 'warning').length)],
+      ], 3);
+
+      addTable(doc, cursor, {
+        head: ['Medicine', 'Batch', 'Expiry Date', 'Days Left', 'Status', 'Quantity', 'Product On Hand', 'Category'],
+        body: [...alerts]
+          .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry)
+          .map(alert => [
+            alert.medicine.name,
+            alert.medicine.batch_no,
+            format(new Date(alert.medicine.expiry_date), 'MMM dd, yyyy'),
+            alert.daysUntilExpiry,
+            alert.status,
+            alert.medicine.quantity,
+            stockByKey.get(productKey(alert.medicine))?.onHand ?? 0,
+            alert.medicine.category,
+          ]),
+        columnStyles: { 3: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } },
+      });
+
+      downloadFile(pdfFile(doc, branding, `expiry-report-${format(new Date(), 'yyyy-MM-dd')}.pdf`));
+    } catch (error) {
+      console.error('Error exporting expiry report:', error);
+      alert('Error generating the expiry report PDF. Please try again.');
+    } finally {
+      setExportingPDF(false);
+    }
   };
 
   const criticalAlerts = alerts.filter(alert => 
@@ -230,8 +321,8 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
         <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Total Medicines</p>
-              <p className="text-3xl font-bold text-blue-600 mt-1">{medicines.length}</p>
+              <p className="text-sm font-medium text-gray-600">Products</p>
+              <p className="text-3xl font-bold text-blue-600 mt-1">{productStock.length}</p>
             </div>
             <div className="p-3 rounded-xl bg-gradient-to-r from-blue-100 to-indigo-100">
               <Package className="w-8 h-8 text-blue-600" />
@@ -273,7 +364,15 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
               className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
             >
               <Download className="w-4 h-4" />
-              <span>Export Report</span>
+              <span>Export Excel</span>
+            </button>
+            <button
+              onClick={exportExpiryPDF}
+              disabled={exportingPDF}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              <span>{exportingPDF ? 'Generating...' : 'Export PDF'}</span>
             </button>
           </div>
         </div>
@@ -290,7 +389,6 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
             <table className="w-full">
               <thead className="bg-gray-50 border-b border-gray-200">
                 <tr>
-                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Medicine</th>
                   <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Batch</th>
                   <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Expiry Date</th>
                   <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Status</th>
@@ -299,57 +397,93 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {filteredAlerts.map((alert) => (
-                  <tr key={alert.id} className="hover:bg-gray-50 transition-colors">
-                    <td className="px-6 py-4">
-                      <div>
-                        <p className="font-medium text-gray-900">{alert.medicine.name}</p>
-                        <p className="text-sm text-gray-600">{alert.medicine.category}</p>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 font-mono text-sm text-gray-900">
-                      {alert.medicine.batch_no}
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="flex items-center space-x-2">
-                        <Calendar className="w-4 h-4 text-gray-400" />
-                        <span className="text-gray-900">
-                          {format(new Date(alert.medicine.expiry_date), 'MMM dd, yyyy')}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="flex items-center space-x-2">
-                        {getStatusIcon(alert.status)}
-                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getStatusColor(alert.status)}`}>
-                          {getStatusText(alert)}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`font-semibold ${
-                        alert.medicine.quantity <= alert.medicine.min_stock_level
-                          ? 'text-red-600'
-                          : 'text-gray-900'
-                      }`}>
-                        {alert.medicine.quantity}
-                      </span>
-                      {alert.medicine.quantity <= alert.medicine.min_stock_level && (
-                        <span className="ml-2 text-xs text-red-600">(Low Stock)</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => dismissAlert(alert.id)}
-                          className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-                          title="Dismiss Alert"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
+                {alertGroups.map(({ stock, alerts: productAlerts }) => (
+                  <React.Fragment key={stock.key}>
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium text-gray-900">{stock.name}</p>
+                            <p className="text-sm text-gray-600">{stock.category}</p>
+                          </div>
+                          <div className="text-right text-sm">
+                            <p className={`font-semibold ${isProductLowStock(stock) ? 'text-red-600' : 'text-gray-900'}`}>
+                              {stock.onHand} on hand
+                              {isProductLowStock(stock) && <span className="ml-2 text-xs">(Low Stock)</span>}
+                            </p>
+                            <p className="text-gray-600">
+                              {productAlerts.length} of {stock.batches.length} batches flagged
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                    {productAlerts.map((alert) => (
+                      <tr key={alert.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4 pl-10 font-mono text-sm text-gray-900">
+                          {alert.medicine.batch_no}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-2">
+                            <Calendar className="w-4 h-4 text-gray-400" />
+                            <span className="text-gray-900">
+                              {format(new Date(alert.medicine.expiry_date), 'MMM dd, yyyy')}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-2">
+                            {getStatusIcon(alert.status)}
+                            <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getStatusColor(alert.status)}`}>
+                              {getStatusText(alert)}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 font-semibold text-gray-900">
+                          {alert.medicine.quantity}
+                          {alert.medicine.clearance_price != null && (
+                            <span className="block text-xs font-medium text-blue-600">
+                              Clearance ${alert.medicine.clearance_price.toFixed(2)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() => setActionTarget({ medicine: alert.medicine, action: 'write_off' })}
+                              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                              title="Write Off"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setActionTarget({ medicine: alert.medicine, action: 'return' })}
+                              className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                              title="Return to Vendor"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                            {alert.status !== 'expired' && (
+                              <button
+                                onClick={() => setActionTarget({ medicine: alert.medicine, action: 'clearance' })}
+                                className="p-2 text-gray-400 hover:text-green-600 transition-colors"
+                                title="Clearance Pricing"
+                              >
+                                <Tag className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => dismissAlert(alert.id)}
+                              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                              title="Dismiss Alert"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -368,6 +502,13 @@ const ExpiryTracker: React.FC<ExpiryTrackerProps> = ({ medicines, onRefresh }) =
         )}
       </div>
 
+      <ExpiryActionModal
+        medicine={actionTarget?.medicine || null}
+        action={actionTarget?.action || 'write_off'}
+        onClose={() => setActionTarget(null)}
+        onSuccess={onRefresh}
+      />
+
       {/* Notifications Modal */}
       {showNotifications && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
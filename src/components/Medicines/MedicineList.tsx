@@ -1,11 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, AlertTriangle, Calendar, Package, Edit, Trash2, Wifi, WifiOff, Scan, Clock } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Plus,
+  Search,
+  AlertTriangle,
+  Calendar,
+  Package,
+  Edit,
+  Trash2,
+  Wifi,
+  WifiOff,
+  Scan,
+  Clock,
+  ChevronDown,
+  ChevronRight,
+  ShieldAlert,
+  History,
+} from 'lucide-react';
 import { supabase } from '../../lib/supabase';
-import { Medicine } from '../../types';
+import { Medicine, Product } from '../../types';
 import { format, isAfter, addDays, differenceInDays } from 'date-fns';
 import { useRealtimeData } from '../../hooks/useRealtimeData';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { groupBatchesByProduct, isProductLowStock, ProductStock } from '../../utils/productCatalogue';
+import { recordMovement } from '../../utils/stockLedger';
 import AddMedicineForm from './AddMedicineForm';
 import ExpiryTracker from './ExpiryTracker';
+import StockHistoryModal from './StockHistoryModal';
 
 const MedicineList: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -13,6 +33,9 @@ const MedicineList: React.FC = () => {
   const [editingMedicine, setEditingMedicine] = useState<Medicine | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [activeTab, setActiveTab] = useState<'medicines' | 'expiry'>('medicines');
+  const [expandedProduct, setExpandedProduct] = useState<string | null>(null);
+  const [historyMedicine, setHistoryMedicine] = useState<Medicine | null>(null);
+  const { appUser } = useAuthContext();
 
   // Use real-time data hook
   const {
@@ -26,6 +49,12 @@ const MedicineList: React.FC = () => {
     cacheKey: 'medicines_list',
   });
 
+  const { data: products } = useRealtimeData<Product>({
+    table: 'products',
+    orderBy: { column: 'name', ascending: true },
+    cacheKey: 'products_list',
+  });
+
   // Monitor online status
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -40,14 +69,17 @@ const MedicineList: React.FC = () => {
     };
   }, []);
 
-  const filteredMedicines = medicines.filter(medicine =>
-    medicine.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    medicine.batch_no.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    medicine.category.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const productStock = useMemo(() => groupBatchesByProduct(medicines, products), [medicines, products]);
+
+  const filteredProducts = productStock.filter(stock => {
+    const term = searchTerm.toLowerCase();
+    return (
+      stock.name.toLowerCase().includes(term) ||
+      stock.category.toLowerCase().includes(term) ||
+      stock.batches.some(medicine => medicine.batch_no.toLowerCase().includes(term))
+    );
+  });
 
-  const isLowStock = (medicine: Medicine) => medicine.quantity <= medicine.min_stock_level;
-  
   const getExpiryStatus = (medicine: Medicine) => {
     const expiryDate = new Date(medicine.expiry_date);
     const today = new Date();
@@ -64,13 +96,31 @@ const MedicineList: React.FC = () => {
     }
   };
 
-  const handleDeleteMedicine = async (id: string) => {
-    if (confirm('Are you sure you want to delete this medicine?')) {
+  // A product is as urgent as its soonest-expiring batch that still has stock
+  const getProductExpiryStatus = (stock: ProductStock) => {
+    const nextBatch = stock.batches.find(medicine => medicine.quantity > 0 && medicine.expiry_date === stock.nextExpiry);
+    return nextBatch ? getExpiryStatus(nextBatch) : { status: 'good', color: '', days: 0 };
+  };
+
+  const handleDeleteMedicine = async (medicine: Medicine) => {
+    if (!appUser) return;
+
+    if (confirm('Are you sure you want to delete this batch?')) {
       try {
+        // Remaining units leave the ledger before the batch does
+        await recordMovement({
+          type: 'adjustment',
+          userId: appUser.id,
+          reason: 'Batch deleted',
+          medicine,
+          quantityChange: -medicine.quantity,
+          balanceAfter: 0,
+        });
+
         const { error } = await supabase
           .from('medicines')
           .delete()
-          .eq('id', id);
+          .eq('id', medicine.id);
 
         if (error) throw error;
       } catch (error) {
@@ -217,7 +267,7 @@ const MedicineList: React.FC = () => {
               <Package className="w-5 h-5" />
               <span>Medicine Inventory</span>
               <span className="bg-gray-200 text-gray-700 px-2 py-1 rounded-full text-xs">
-                {medicines.length}
+                {productStock.length}
               </span>
             </button>
             
@@ -248,72 +298,61 @@ const MedicineList: React.FC = () => {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                 <input
                   type="text"
-                  placeholder="Search medicines by name, batch number, or category..."
+                  placeholder="Search products by name, category, or batch number..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
 
-              {/* Medicine Grid */}
+              {/* Product Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredMedicines.map((medicine) => {
-                  const expiryStatus = getExpiryStatus(medicine);
-                  
+                {filteredProducts.map((stock) => {
+                  const expiryStatus = getProductExpiryStatus(stock);
+                  const lowStock = isProductLowStock(stock);
+                  const expanded = expandedProduct === stock.key;
+
                   return (
-                    <div key={medicine.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow">
+                    <div key={stock.key} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow">
                       <div className="p-6">
                         <div className="flex items-start justify-between mb-4">
                           <div className="flex-1">
-                            <h3 className="text-lg font-semibold text-gray-900 mb-1">{medicine.name}</h3>
-                            <p className="text-sm text-gray-600">{medicine.category}</p>
-                          </div>
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={() => handleEditMedicine(medicine)}
-                              className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
-                            >
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDeleteMedicine(medicine.id)}
-                              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
+                            <h3 className="text-lg font-semibold text-gray-900 mb-1">{stock.name}</h3>
+                            <p className="text-sm text-gray-600">
+                              {stock.category}
+                              {stock.manufacturer && ` • ${stock.manufacturer}`}
+                            </p>
                           </div>
+                          <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs">
+                            {stock.batches.length} {stock.batches.length === 1 ? 'batch' : 'batches'}
+                          </span>
                         </div>
 
                         <div className="space-y-3">
                           <div className="flex items-center justify-between">
-                            <span className="text-sm text-gray-600">Batch No:</span>
-                            <span className="text-sm font-medium font-mono">{medicine.batch_no}</span>
-                          </div>
-                          
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm text-gray-600">Quantity:</span>
-                            <span className={`text-sm font-medium ${
-                              isLowStock(medicine) ? 'text-red-600' : 'text-gray-900'
-                            }`}>
-                              {medicine.quantity}
-                              {isLowStock(medicine) && <AlertTriangle className="w-4 h-4 inline ml-1" />}
+                            <span className="text-sm text-gray-600">On Hand:</span>
+                            <span className={`text-sm font-medium ${lowStock ? 'text-red-600' : 'text-gray-900'}`}>
+                              {stock.onHand}
+                              {lowStock && <AlertTriangle className="w-4 h-4 inline ml-1" />}
                             </span>
                           </div>
-                          
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm text-gray-600">Price:</span>
-                            <span className="text-sm font-medium">${medicine.price.toFixed(2)}</span>
-                          </div>
-                          
+
+                          {stock.storeCount > 1 && (
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-gray-600">Stores:</span>
+                              <span className="text-sm font-medium text-gray-900">{stock.storeCount}</span>
+                            </div>
+                          )}
+
                           <div className="flex items-center justify-between">
-                            <span className="text-sm text-gray-600">Expiry:</span>
+                            <span className="text-sm text-gray-600">Next Expiry:</span>
                             <div className="flex items-center space-x-2">
                               <span className={`text-sm font-medium ${
                                 expiryStatus.status === 'expired' ? 'text-red-600' :
                                 expiryStatus.status === 'critical' ? 'text-orange-600' :
                                 expiryStatus.status === 'warning' ? 'text-yellow-600' : 'text-gray-900'
                               }`}>
-                                {format(new Date(medicine.expiry_date), 'MMM dd, yyyy')}
+                                {stock.nextExpiry ? format(new Date(stock.nextExpiry), 'MMM dd, yyyy') : '—'}
                               </span>
                               {expiryStatus.status !== 'good' && (
                                 <Calendar className="w-4 h-4 text-current" />
@@ -324,27 +363,41 @@ const MedicineList: React.FC = () => {
 
                         {/* Status Indicators */}
                         <div className="mt-4 flex flex-wrap gap-2">
-                          {isLowStock(medicine) && (
+                          {lowStock && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
                               <Package className="w-3 h-3 mr-1" />
                               Low Stock
                             </span>
                           )}
-                          
-                          {expiryStatus.status === 'expired' && (
+
+                          {stock.batches.some(medicine => medicine.controlled) && (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                              <ShieldAlert className="w-3 h-3 mr-1" />
+                              {stock.batches.find(medicine => medicine.schedule)?.schedule || 'Controlled'}
+                            </span>
+                          )}
+
+                          {stock.quarantinedUnits > 0 && (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              <ShieldAlert className="w-3 h-3 mr-1" />
+                              {stock.quarantinedUnits} quarantined
+                            </span>
+                          )}
+
+                          {stock.expiredUnits > 0 && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
                               <Calendar className="w-3 h-3 mr-1" />
-                              Expired
+                              {stock.expiredUnits} expired
                             </span>
                           )}
-                          
+
                           {expiryStatus.status === 'critical' && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
                               <Clock className="w-3 h-3 mr-1" />
                               Expires in {expiryStatus.days} days
                             </span>
                           )}
-                          
+
                           {expiryStatus.status === 'warning' && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
                               <Clock className="w-3 h-3 mr-1" />
@@ -352,13 +405,76 @@ const MedicineList: React.FC = () => {
                             </span>
                           )}
                         </div>
+
+                        {/* Batches */}
+                        <button
+                          onClick={() => setExpandedProduct(expanded ? null : stock.key)}
+                          className="mt-4 flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+                        >
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          <span>{expanded ? 'Hide batches' : 'Show batches'}</span>
+                        </button>
+
+                        {expanded && (
+                          <div className="mt-3 divide-y divide-gray-100 border-t border-gray-100">
+                            {stock.batches.map((medicine) => {
+                              const batchStatus = getExpiryStatus(medicine);
+                              return (
+                                <div key={medicine.id} className="flex items-center justify-between py-2">
+                                  <div>
+                                    <p className="text-sm font-medium font-mono text-gray-900">
+                                      {medicine.batch_no}
+                                      {medicine.quarantined && (
+                                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-sans font-medium bg-red-100 text-red-800">
+                                          Quarantined
+                                        </span>
+                                      )}
+                                    </p>
+                                    <p className={`text-xs ${
+                                      batchStatus.status === 'expired' ? 'text-red-600' :
+                                      batchStatus.status === 'critical' ? 'text-orange-600' :
+                                      batchStatus.status === 'warning' ? 'text-yellow-600' : 'text-gray-600'
+                                    }`}>
+                                      {format(new Date(medicine.expiry_date), 'MMM dd, yyyy')} • ${medicine.price.toFixed(2)}
+                                      {medicine.location && ` • ${medicine.location}`}
+                                    </p>
+                                  </div>
+                                  <div className="flex items-center space-x-1">
+                                    <span className="text-sm font-medium text-gray-900 mr-2">{medicine.quantity}</span>
+                                    <button
+                                      onClick={() => setHistoryMedicine(medicine)}
+                                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                                      title="Stock history"
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                      onClick={() => handleEditMedicine(medicine)}
+                                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                                      title="Edit batch"
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeleteMedicine(medicine)}
+                                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                                      title="Delete batch"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
                 })}
               </div>
 
-              {filteredMedicines.length === 0 && !loading && (
+              {filteredProducts.length === 0 && !loading && (
                 <div className="text-center py-12">
                   <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No medicines found</h3>
@@ -371,7 +487,7 @@ const MedicineList: React.FC = () => {
           )}
 
           {activeTab === 'expiry' && (
-            <ExpiryTracker medicines={medicines} onRefresh={refresh} />
+            <ExpiryTracker medicines={medicines} products={products} onRefresh={refresh} />
           )}
         </div>
       </div>
@@ -383,6 +499,11 @@ const MedicineList: React.FC = () => {
         onSuccess={handleFormSuccess}
         editingMedicine={editingMedicine}
       />
+
+      <StockHistoryModal
+        medicine={historyMedicine}
+        onClose={() => setHistoryMedicine(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, StockMovement, StockMovementType } from '../../types';
+import { ledgerBalance, movementLabels } from '../../utils/stockLedger';
+
+interface StockHistoryModalProps {
+  medicine: Medicine | null;
+  onClose: () => void;
+}
+
+const movementColors: Record<StockMovementType, string> = {
+  receipt: 'bg-green-100 text-green-800',
+  sale: 'bg-blue-100 text-blue-800',
+  return: 'bg-purple-100 text-purple-800',
+  transfer_in: 'bg-teal-100 text-teal-800',
+  transfer_out: 'bg-orange-100 text-orange-800',
+  adjustment: 'bg-gray-100 text-gray-800',
+  write_off: 'bg-red-100 text-red-800',
+};
+
+const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ medicine, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!medicine) return;
+
+    const fetchMovements = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('stock_movements')
+          .select('*, user:users (full_name)')
+          .eq('medicine_id', medicine.id)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setMovements(data || []);
+      } catch (error) {
+        console.error('Error fetching stock movements:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMovements();
+  }, [medicine]);
+
+  if (!medicine) return null;
+
+  // Anything the ledger cannot account for is unexplained shrinkage or surplus
+  const balance = ledgerBalance(movements);
+  const discrepancy = medicine.quantity - balance;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Stock History</h2>
+              <p className="text-sm text-gray-600">
+                {medicine.name} • Batch <span className="font-mono">{medicine.batch_no}</span> • {medicine.quantity} on hand
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!loading && discrepancy !== 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+              <AlertTriangle className="w-5 h-5" />
+              <span>
+                The ledger accounts for {balance} units but the batch holds {medicine.quantity}: {discrepancy > 0 ? '+' : ''}
+                {discrepancy} units are unexplained.
+              </span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="animate-pulse space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : movements.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Movement</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {movements.map((movement) => (
+                    <tr key={movement.id}>
+                      <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                        {format(new Date(movement.created_at), 'MMM dd, yyyy HH:mm')}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${movementColors[movement.movement_type]}`}>
+                          {movementLabels[movement.movement_type]}
+                        </span>
+                      </td>
+                      <td className={`px-4 py-3 text-right font-medium ${movement.quantity_change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {movement.quantity_change > 0 ? '+' : ''}{movement.quantity_change}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-900">{movement.balance_after}</td>
+                      <td className="px-4 py-3 text-gray-600">{movement.reason || '—'}</td>
+                      <td className="px-4 py-3 text-gray-600">{movement.user?.full_name || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <History className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No stock movements recorded for this batch.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockHistoryModal;
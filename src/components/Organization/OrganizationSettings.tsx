@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Building2, Save, Store, Users, Crown } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Organization } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+
+interface OrganizationFormData {
+  name: string;
+  description: string;
+  address: string;
+  phone: string;
+  email: string;
+  website: string;
+  license_number: string;
+  tax_id: string;
+}
+
+const OrganizationSettings: React.FC = () => {
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [formData, setFormData] = useState<OrganizationFormData | null>(null);
+  const [storeCount, setStoreCount] = useState(0);
+  const [userCount, setUserCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const { appUser } = useAuthContext();
+  const navigate = useNavigate();
+
+  const fetchOrganization = useCallback(async () => {
+    if (!appUser?.organization_id) return;
+
+    try {
+      setLoading(true);
+
+      const { data: orgData, error: orgError } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('id', appUser.organization_id)
+        .single();
+
+      if (orgError) throw orgError;
+
+      const { count: stores } = await supabase
+        .from('stores')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', appUser.organization_id)
+        .eq('is_active', true);
+
+      const { count: users } = await supabase
+        .from('users')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', appUser.organization_id);
+
+      setOrganization(orgData);
+      setFormData({
+        name: orgData.name,
+        description: orgData.description || '',
+        address: orgData.address || '',
+        phone: orgData.phone || '',
+        email: orgData.email || '',
+        website: orgData.website || '',
+        license_number: orgData.license_number || '',
+        tax_id: orgData.tax_id || '',
+      });
+      setStoreCount(stores || 0);
+      setUserCount(users || 0);
+    } catch (error) {
+      console.error('Error fetching organization:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [appUser?.organization_id]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => prev && { ...prev, [name]: value });
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization || !formData) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ ...formData, updated_at: new Date().toISOString() })
+        .eq('id', organization.id);
+
+      if (error) throw error;
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving organization:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatLimit = (limit: number) => (limit < 0 ? 'Unlimited' : limit);
+
+  if (loading || !organization || !formData) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-8 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const fields: { name: keyof OrganizationFormData; label: string; type?: string }[] = [
+    { name: 'name', label: 'Organization Name *' },
+    { name: 'email', label: 'Email', type: 'email' },
+    { name: 'phone', label: 'Phone', type: 'tel' },
+    { name: 'website', label: 'Website', type: 'url' },
+    { name: 'license_number', label: 'License Number' },
+    { name: 'tax_id', label: 'Tax ID' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <Building2 className="w-8 h-8 text-blue-600" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{organization.name}</h1>
+          <p className="text-gray-600 mt-1">Organization profile and plan usage</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Plan</p>
+              <p className="text-2xl font-bold text-gray-900 capitalize">{organization.subscription_plan}</p>
+              <p className="text-xs text-gray-500 capitalize">{organization.subscription_status || 'active'}</p>
+            </div>
+            <Crown className="w-8 h-8 text-amber-500" />
+          </div>
+          <button
+            onClick={() => navigate('/subscription-request')}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Change plan →
+          </button>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Active Stores</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {storeCount} / {formatLimit(organization.max_stores)}
+              </p>
+            </div>
+            <Store className="w-8 h-8 text-blue-500" />
+          </div>
+          <button
+            onClick={() => navigate('/stores')}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Manage stores →
+          </button>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Users</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {userCount} / {formatLimit(organization.max_users)}
+              </p>
+            </div>
+            <Users className="w-8 h-8 text-green-500" />
+          </div>
+          <button
+            onClick={() => navigate('/team')}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Manage team →
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-6">
+        <h2 className="text-lg font-semibold text-gray-900">Details</h2>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {fields.map((field) => (
+            <div key={field.name}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+              <input
+                type={field.type || 'text'}
+                name={field.name}
+                value={formData[field.name]}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required={field.name === 'name'}
+              />
+            </div>
+          ))}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+            <textarea
+              name="address"
+              value={formData.address}
+              onChange={handleInputChange}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <textarea
+              name="description"
+              value={formData.description}
+              onChange={handleInputChange}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-4">
+          {saved && <span className="text-sm text-green-600">Changes saved</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Save className="w-5 h-5" />
+            <span>{saving ? 'Saving...' : 'Save Changes'}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default OrganizationSettings;
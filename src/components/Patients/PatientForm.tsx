@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Patient } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { parseIngredientList } from '../../utils/interactions';
+
+interface PatientFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  editingPatient?: Patient | null;
+}
+
+interface PatientFormData {
+  patient_id: string;
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  date_of_birth: string;
+  emergency_contact: string;
+  medical_history: string;
+  allergies: string;
+  current_medications: string;
+  notes: string;
+  insurance_provider: string;
+  insurance_policy_number: string;
+  insurance_group_number: string;
+}
+
+const emptyForm: PatientFormData = {
+  patient_id: '',
+  name: '',
+  phone: '',
+  email: '',
+  address: '',
+  date_of_birth: '',
+  emergency_contact: '',
+  medical_history: '',
+  allergies: '',
+  current_medications: '',
+  notes: '',
+  insurance_provider: '',
+  insurance_policy_number: '',
+  insurance_group_number: '',
+};
+
+const generatePatientId = () =>
+  `PT-${format(new Date(), 'yyMMdd')}-${Math.floor(1000 + Math.random() * 9000)}`;
+
+const PatientForm: React.FC<PatientFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  editingPatient,
+}) => {
+  const [formData, setFormData] = useState<PatientFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { currentStore } = useStoreContext();
+
+  useEffect(() => {
+    if (editingPatient) {
+      setFormData({
+        patient_id: editingPatient.patient_id || '',
+        name: editingPatient.name,
+        phone: editingPatient.phone,
+        email: editingPatient.email || '',
+        address: editingPatient.address,
+        date_of_birth: editingPatient.date_of_birth || '',
+        emergency_contact: editingPatient.emergency_contact || '',
+        medical_history: editingPatient.medical_history || '',
+        allergies: (editingPatient.allergies || []).join(', '),
+        current_medications: (editingPatient.current_medications || []).join(', '),
+        notes: editingPatient.notes || '',
+        insurance_provider: editingPatient.insurance_info?.provider || '',
+        insurance_policy_number: editingPatient.insurance_info?.policy_number || '',
+        insurance_group_number: editingPatient.insurance_info?.group_number || '',
+      });
+    } else {
+      setFormData({ ...emptyForm, patient_id: generatePatientId() });
+    }
+    setError('');
+  }, [editingPatient, isOpen]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    const patientData = {
+      patient_id: formData.patient_id || generatePatientId(),
+      name: formData.name,
+      phone: formData.phone,
+      email: formData.email || null,
+      address: formData.address,
+      date_of_birth: formData.date_of_birth || null,
+      emergency_contact: formData.emergency_contact || null,
+      medical_history: formData.medical_history || null,
+      allergies: parseIngredientList(formData.allergies),
+      current_medications: parseIngredientList(formData.current_medications),
+      notes: formData.notes || null,
+      insurance_info: {
+        provider: formData.insurance_provider || undefined,
+        policy_number: formData.insurance_policy_number || undefined,
+        group_number: formData.insurance_group_number || undefined,
+      },
+    };
+
+    try {
+      if (editingPatient) {
+        const { error } = await supabase
+          .from('patients')
+          .update(patientData)
+          .eq('id', editingPatient.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('patients')
+          .insert({
+            ...patientData,
+            store_id: currentStore?.id,
+            organization_id: currentStore?.organization_id,
+          });
+
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error saving patient:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {editingPatient ? 'Edit Patient' : 'Register Patient'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="patient_id" className="block text-sm font-medium text-gray-700 mb-2">
+                Patient ID
+              </label>
+              <input
+                type="text"
+                id="patient_id"
+                name="patient_id"
+                value={formData.patient_id}
+                onChange={handleInputChange}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                Full Name *
+              </label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                Phone *
+              </label>
+              <input
+                type="tel"
+                id="phone"
+                name="phone"
+                value={formData.phone}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="date_of_birth" className="block text-sm font-medium text-gray-700 mb-2">
+                Date of Birth
+              </label>
+              <input
+                type="date"
+                id="date_of_birth"
+                name="date_of_birth"
+                value={formData.date_of_birth}
+                onChange={handleInputChange}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="emergency_contact" className="block text-sm font-medium text-gray-700 mb-2">
+                Emergency Contact
+              </label>
+              <input
+                type="text"
+                id="emergency_contact"
+                name="emergency_contact"
+                value={formData.emergency_contact}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="Name and phone number"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
+              Address *
+            </label>
+            <input
+              type="text"
+              id="address"
+              name="address"
+              value={formData.address}
+              onChange={handleInputChange}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          {/* Insurance */}
+          <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-blue-900 mb-4">Insurance</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input
+                type="text"
+                name="insurance_provider"
+                value={formData.insurance_provider}
+                onChange={handleInputChange}
+                className={`${inputClassName} bg-white`}
+                placeholder="Provider"
+              />
+              <input
+                type="text"
+                name="insurance_policy_number"
+                value={formData.insurance_policy_number}
+                onChange={handleInputChange}
+                className={`${inputClassName} bg-white`}
+                placeholder="Policy number"
+              />
+              <input
+                type="text"
+                name="insurance_group_number"
+                value={formData.insurance_group_number}
+                onChange={handleInputChange}
+                className={`${inputClassName} bg-white`}
+                placeholder="Group number"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="medical_history" className="block text-sm font-medium text-gray-700 mb-2">
+              Medical History
+            </label>
+            <textarea
+              id="medical_history"
+              name="medical_history"
+              value={formData.medical_history}
+              onChange={handleInputChange}
+              rows={3}
+              className={inputClassName}
+              placeholder="Conditions, long-term medication..."
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="allergies" className="block text-sm font-medium text-gray-700 mb-2">
+                Allergies
+              </label>
+              <input
+                type="text"
+                id="allergies"
+                name="allergies"
+                value={formData.allergies}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="e.g. penicillin, aspirin"
+              />
+              <p className="mt-1 text-xs text-gray-500">Comma-separated; checked against every sale</p>
+            </div>
+
+            <div>
+              <label htmlFor="current_medications" className="block text-sm font-medium text-gray-700 mb-2">
+                Current Medications
+              </label>
+              <input
+                type="text"
+                id="current_medications"
+                name="current_medications"
+                value={formData.current_medications}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="Active ingredients, e.g. warfarin, metformin"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : editingPatient ? 'Update Patient' : 'Register Patient'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PatientForm;
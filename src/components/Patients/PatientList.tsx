@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Search, Users, Phone, Mail, Edit, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Patient } from '../../types';
+import PatientForm from './PatientForm';
+
+const PatientList: React.FC = () => {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
+
+  const navigate = useNavigate();
+
+  const fetchPatients = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('patients')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setPatients(data || []);
+    } catch (error) {
+      console.error('Error fetching patients:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPatients();
+  }, [fetchPatients]);
+
+  const filteredPatients = patients.filter(patient => {
+    const term = searchTerm.toLowerCase();
+    return (
+      patient.name.toLowerCase().includes(term) ||
+      patient.phone.includes(term) ||
+      patient.email?.toLowerCase().includes(term) ||
+      patient.patient_id?.toLowerCase().includes(term)
+    );
+  });
+
+  const handleEdit = (e: React.MouseEvent, patient: Patient) => {
+    e.stopPropagation();
+    setEditingPatient(patient);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingPatient(null);
+  };
+
+  if (loading && patients.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Patients</h1>
+          <p className="text-gray-600 mt-1">{patients.length} registered patients</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Register Patient</span>
+        </button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <input
+          type="text"
+          placeholder="Search by name, phone, email or patient ID..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredPatients.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Patient</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Contact</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Date of Birth</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Insurance</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredPatients.map((patient) => (
+                <tr
+                  key={patient.id}
+                  onClick={() => navigate(`/patients/${patient.id}`)}
+                  className="hover:bg-gray-50 transition-colors cursor-pointer"
+                >
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{patient.name}</p>
+                    {patient.patient_id && (
+                      <p className="text-sm text-gray-600 font-mono">{patient.patient_id}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-1 text-sm text-gray-900">
+                      <Phone className="w-3 h-3 text-gray-400" />
+                      <span>{patient.phone}</span>
+                    </div>
+                    {patient.email && (
+                      <div className="flex items-center space-x-1 text-sm text-gray-600">
+                        <Mail className="w-3 h-3 text-gray-400" />
+                        <span>{patient.email}</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {patient.date_of_birth ? format(new Date(patient.date_of_birth), 'MMM dd, yyyy') : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {patient.insurance_info?.provider || '—'}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={(e) => handleEdit(e, patient)}
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <ChevronRight className="w-4 h-4 text-gray-400" />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No patients found</h3>
+            <p className="text-gray-600">
+              {searchTerm ? 'Try adjusting your search or register a new patient.' : 'Get started by registering your first patient.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <PatientForm
+        isOpen={showForm}
+        onClose={handleCloseForm}
+        onSuccess={fetchPatients}
+        editingPatient={editingPatient}
+      />
+    </div>
+  );
+};
+
+export default PatientList;
@@ -0,0 +1,450 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Edit,
+  Phone,
+  Mail,
+  MapPin,
+  Calendar,
+  Shield,
+  HeartPulse,
+  Receipt,
+  Pill,
+  AlertCircle,
+  HandCoins,
+  FileText,
+  Plus,
+  ImageIcon,
+} from 'lucide-react';
+import { format, differenceInYears } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Patient, Prescription, Sale } from '../../types';
+import PatientForm from './PatientForm';
+import PrescriptionForm from '../Prescriptions/PrescriptionForm';
+import SaleInvoiceModal from '../Sales/SaleInvoiceModal';
+import ReceivePaymentModal from '../Sales/ReceivePaymentModal';
+import { getOutstanding } from '../../utils/receivables';
+import {
+  fetchPatientPrescriptions,
+  openPrescriptionScan,
+  prescriptionState,
+  prescriptionStateLabels,
+  prescriptionStateStyles,
+} from '../../utils/prescriptions';
+
+const PatientProfile: React.FC = () => {
+  const { patientId } = useParams<{ patientId: string }>();
+  const navigate = useNavigate();
+
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
+  const [payingSale, setPayingSale] = useState<Sale | null>(null);
+  const [showPrescriptionForm, setShowPrescriptionForm] = useState(false);
+
+  const fetchPatient = useCallback(async () => {
+    if (!patientId) return;
+
+    try {
+      setLoading(true);
+
+      const { data: patientData, error: patientError } = await supabase
+        .from('patients')
+        .select('*')
+        .eq('id', patientId)
+        .single();
+
+      if (patientError) throw patientError;
+
+      const { data: salesData, error: salesError } = await supabase
+        .from('sales')
+        .select(`
+          *,
+          items:sale_items (
+            *,
+            medicine:medicines (*)
+          )
+        `)
+        .eq('patient_id', patientId)
+        .order('created_at', { ascending: false });
+
+      if (salesError) throw salesError;
+
+      const prescriptionsData = await fetchPatientPrescriptions(patientId);
+
+      setPatient(patientData);
+      setSales((salesData || []).map((sale: Sale) => ({ ...sale, patient: patientData })));
+      setPrescriptions(prescriptionsData);
+    } catch (error) {
+      console.error('Error fetching patient:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchPatient();
+  }, [fetchPatient]);
+
+  if (loading && !patient) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+        <div className="h-40 bg-gray-200 rounded-2xl"></div>
+        <div className="h-64 bg-gray-200 rounded-2xl"></div>
+      </div>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Patient not found</h3>
+        <button
+          onClick={() => navigate('/patients')}
+          className="text-blue-600 hover:text-blue-700 font-medium"
+        >
+          Back to patients
+        </button>
+      </div>
+    );
+  }
+
+  const totalSpent = sales.reduce((sum, sale) => sum + sale.total_amount, 0);
+  const lastSale = sales[0];
+  const outstanding = sales.reduce((sum, sale) => sum + getOutstanding(sale), 0);
+
+  const handleViewScan = async (prescription: Prescription) => {
+    if (!prescription.image_path) return;
+
+    try {
+      await openPrescriptionScan(prescription.image_path);
+    } catch (error) {
+      console.error('Error opening prescription scan:', error);
+      alert('Error opening the scanned prescription. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/patients')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{patient.name}</h1>
+            {patient.patient_id && (
+              <p className="text-gray-600 font-mono">{patient.patient_id}</p>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => setShowEditForm(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <Edit className="w-4 h-4" />
+          <span>Edit</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Patient Details */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Details</h3>
+          <div className="flex items-center space-x-3 text-gray-700">
+            <Phone className="w-4 h-4 text-gray-400" />
+            <span>{patient.phone}</span>
+          </div>
+          {patient.email && (
+            <div className="flex items-center space-x-3 text-gray-700">
+              <Mail className="w-4 h-4 text-gray-400" />
+              <span>{patient.email}</span>
+            </div>
+          )}
+          <div className="flex items-center space-x-3 text-gray-700">
+            <MapPin className="w-4 h-4 text-gray-400" />
+            <span>{patient.address}</span>
+          </div>
+          {patient.date_of_birth && (
+            <div className="flex items-center space-x-3 text-gray-700">
+              <Calendar className="w-4 h-4 text-gray-400" />
+              <span>
+                {format(new Date(patient.date_of_birth), 'MMM dd, yyyy')}
+                {' '}({differenceInYears(new Date(), new Date(patient.date_of_birth))} years)
+              </span>
+            </div>
+          )}
+          {patient.emergency_contact && (
+            <div className="text-sm">
+              <p className="text-gray-600">Emergency contact</p>
+              <p className="text-gray-900">{patient.emergency_contact}</p>
+            </div>
+          )}
+          {patient.insurance_info?.provider && (
+            <div className="bg-blue-50 rounded-lg p-3 text-sm">
+              <div className="flex items-center space-x-2 text-blue-900 font-medium mb-1">
+                <Shield className="w-4 h-4" />
+                <span>{patient.insurance_info.provider}</span>
+              </div>
+              {patient.insurance_info.policy_number && (
+                <p className="text-blue-700">Policy: {patient.insurance_info.policy_number}</p>
+              )}
+              {patient.insurance_info.group_number && (
+                <p className="text-blue-700">Group: {patient.insurance_info.group_number}</p>
+              )}
+            </div>
+          )}
+          {!!patient.allergies?.length && (
+            <div className="text-sm">
+              <p className="text-gray-600 mb-1">Allergies</p>
+              <div className="flex flex-wrap gap-1">
+                {patient.allergies.map((allergy) => (
+                  <span key={allergy} className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                    {allergy}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {!!patient.current_medications?.length && (
+            <div className="text-sm">
+              <p className="text-gray-600 mb-1">Current medications</p>
+              <div className="flex flex-wrap gap-1">
+                {patient.current_medications.map((medication) => (
+                  <span key={medication} className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                    {medication}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {patient.medical_history && (
+            <div className="bg-red-50 rounded-lg p-3 text-sm">
+              <div className="flex items-center space-x-2 text-red-900 font-medium mb-1">
+                <HeartPulse className="w-4 h-4" />
+                <span>Medical History</span>
+              </div>
+              <p className="text-red-800 whitespace-pre-line">{patient.medical_history}</p>
+            </div>
+          )}
+          {patient.notes && (
+            <p className="text-sm text-gray-600 whitespace-pre-line">{patient.notes}</p>
+          )}
+        </div>
+
+        {/* Dispensing Summary */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">Visits</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">{sales.length}</p>
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">Total Spent</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">${totalSpent.toFixed(2)}</p>
+            </div>
+            <div className={`p-6 rounded-2xl shadow-sm border ${
+              outstanding > 0 ? 'bg-amber-50 border-amber-200' : 'bg-white border-gray-100'
+            }`}>
+              <p className="text-sm font-medium text-gray-600">Balance Due</p>
+              <p className={`text-3xl font-bold mt-1 ${outstanding > 0 ? 'text-amber-700' : 'text-gray-900'}`}>
+                ${outstanding.toFixed(2)}
+              </p>
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">Last Visit</p>
+              <p className="text-xl font-bold text-gray-900 mt-2">
+                {lastSale ? format(new Date(lastSale.created_at), 'MMM dd, yyyy') : '—'}
+              </p>
+            </div>
+          </div>
+
+          {lastSale && (
+            <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-blue-900 mb-3">Last Dispensed</h3>
+              <div className="flex flex-wrap gap-2">
+                {lastSale.items.map((item) => (
+                  <span
+                    key={item.id}
+                    className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-white text-blue-800 border border-blue-200"
+                  >
+                    <Pill className="w-3 h-3 mr-1" />
+                    {item.medicine?.name} × {item.quantity}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Prescriptions */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Prescriptions</h3>
+          <button
+            onClick={() => setShowPrescriptionForm(true)}
+            className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Prescription</span>
+          </button>
+        </div>
+        {prescriptions.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {prescriptions.map((prescription) => {
+              const state = prescriptionState(prescription);
+              return (
+                <div key={prescription.id} className="p-6">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <div className="flex items-center space-x-3">
+                        <p className="font-medium text-gray-900">{prescription.reference}</p>
+                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${prescriptionStateStyles[state]}`}>
+                          {prescriptionStateLabels[state]}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {prescription.prescriber_name} (Licence {prescription.prescriber_licence}) •
+                        {' '}Written {format(new Date(prescription.prescribed_date), 'MMM dd, yyyy')}
+                        {prescription.valid_until && ` • Valid until ${format(new Date(prescription.valid_until), 'MMM dd, yyyy')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm text-gray-700">
+                        {prescription.dispense_count > 0
+                          ? `${prescription.refills_remaining} of ${prescription.refills_allowed} refills left`
+                          : `Not yet dispensed • ${prescription.refills_allowed} refills`}
+                      </span>
+                      {prescription.image_path && (
+                        <button
+                          onClick={() => handleViewScan(prescription)}
+                          className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="View Scan"
+                        >
+                          <ImageIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {prescription.items.map((item) => (
+                        <tr key={item.id} className="text-gray-700">
+                          <td className="py-1">{item.medicine_name}</td>
+                          <td className="py-1 text-gray-500">{item.directions}</td>
+                          <td className="py-1 text-right">× {item.quantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No prescriptions on file for this patient.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Dispensing History */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">Dispensing History</h3>
+        </div>
+        {sales.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {sales.map((sale) => (
+              <div key={sale.id} className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <p className="font-medium text-gray-900">#{sale.invoice_no}</p>
+                    <p className="text-sm text-gray-600">
+                      {format(new Date(sale.created_at), 'MMM dd, yyyy HH:mm')}
+                      {sale.prescription_id && (
+                        ` • ${prescriptions.find(item => item.id === sale.prescription_id)?.reference || 'Prescription'}`
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {getOutstanding(sale) > 0 && (
+                      <button
+                        onClick={() => setPayingSale(sale)}
+                        className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200 transition-colors"
+                        title="Receive Payment"
+                      >
+                        <HandCoins className="w-3 h-3" />
+                        <span>${getOutstanding(sale).toFixed(2)} due</span>
+                      </button>
+                    )}
+                    <span className="font-semibold text-gray-900">${sale.total_amount.toFixed(2)}</span>
+                    <button
+                      onClick={() => setSelectedSale(sale)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="View Invoice"
+                    >
+                      <Receipt className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {sale.items.map((item) => (
+                      <tr key={item.id} className="text-gray-700">
+                        <td className="py-1">{item.medicine?.name}</td>
+                        <td className="py-1 font-mono text-gray-500">{item.medicine?.batch_no}</td>
+                        <td className="py-1 text-right">× {item.quantity}</td>
+                        <td className="py-1 text-right">${item.total_price.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Receipt className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No sales recorded for this patient yet.</p>
+          </div>
+        )}
+      </div>
+
+      <PatientForm
+        isOpen={showEditForm}
+        onClose={() => setShowEditForm(false)}
+        onSuccess={fetchPatient}
+        editingPatient={patient}
+      />
+
+      <PrescriptionForm
+        isOpen={showPrescriptionForm}
+        onClose={() => setShowPrescriptionForm(false)}
+        onSuccess={fetchPatient}
+        patient={patient}
+      />
+
+      <SaleInvoiceModal sale={selectedSale} onClose={() => setSelectedSale(null)} />
+
+      <ReceivePaymentModal
+        sale={payingSale}
+        onClose={() => setPayingSale(null)}
+        onSuccess={fetchPatient}
+      />
+    </div>
+  );
+};
+
+export default PatientProfile;
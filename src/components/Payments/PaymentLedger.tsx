@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Plus,
+  Search,
+  Wallet,
+  CreditCard,
+  Building2,
+  TrendingUp,
+  TrendingDown,
+  ArrowUpRight,
+  ArrowDownRight,
+  Receipt,
+} from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Payment } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import ExpenseForm from './ExpenseForm';
+
+interface PaymentLedgerProps {
+  defaultType?: 'all' | 'income' | 'expense';
+}
+
+interface LedgerEntry extends Payment {
+  balance: number;
+  reference_label?: string;
+}
+
+const methodLabels: Record<Payment['payment_method'], string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  stock_adjustment: 'Stock Adjustment',
+};
+
+// Stock adjustments (e.g. expiry write-offs) move no money, so they have no position
+const cashMethods: Array<Exclude<Payment['payment_method'], 'stock_adjustment'>> = ['cash', 'card', 'bank_transfer'];
+
+const methodIcons = {
+  cash: Wallet,
+  card: CreditCard,
+  bank_transfer: Building2,
+};
+
+const entryDate = (payment: Payment) => payment.payment_date || payment.created_at;
+
+const PaymentLedger: React.FC<PaymentLedgerProps> = ({ defaultType = 'all' }) => {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [referenceLabels, setReferenceLabels] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState(defaultType);
+  const [methodFilter, setMethodFilter] = useState<'all' | Payment['payment_method']>('all');
+  const [dateFrom, setDateFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [showExpenseForm, setShowExpenseForm] = useState(false);
+
+  const { currentStore } = useStoreContext();
+
+  useEffect(() => {
+    setTypeFilter(defaultType);
+  }, [defaultType]);
+
+  const fetchPayments = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      const rows: Payment[] = data || [];
+
+      // Resolve invoice numbers for entries linked to sales and purchases
+      const saleIds = rows.filter(p => p.reference_type === 'sale' && p.reference_id).map(p => p.reference_id);
+      const purchaseIds = rows.filter(p => p.reference_type === 'purchase' && p.reference_id).map(p => p.reference_id);
+      const labels: Record<string, string> = {};
+
+      if (saleIds.length > 0) {
+        const { data: sales } = await supabase
+          .from('sales')
+          .select('id, invoice_no')
+          .in('id', saleIds);
+        (sales || []).forEach((sale: { id: string; invoice_no: string }) => {
+          labels[sale.id] = `Sale #${sale.invoice_no}`;
+        });
+      }
+
+      if (purchaseIds.length > 0) {
+        const { data: purchases } = await supabase
+          .from('purchases')
+          .select('id, invoice_no')
+          .in('id', purchaseIds);
+        (purchases || []).forEach((purchase: { id: string; invoice_no: string }) => {
+          labels[purchase.id] = `Purchase #${purchase.invoice_no}`;
+        });
+      }
+
+      setPayments(rows);
+      setReferenceLabels(labels);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const inRange = (payment: Payment) => {
+    const day = entryDate(payment).slice(0, 10);
+    return (!dateFrom || day >= dateFrom) && (!dateTo || day <= dateTo);
+  };
+
+  const signedAmount = (payment: Payment) =>
+    payment.type === 'income' ? payment.amount : -payment.amount;
+
+  // Cash position per method covers the whole ledger, not just the visible range
+  const positions = cashMethods.map(method => ({
+    method,
+    balance: payments
+      .filter(p => p.payment_method === method)
+      .reduce((sum, p) => sum + signedAmount(p), 0),
+  }));
+
+  const rangePayments = payments.filter(inRange);
+  const totalIncome = rangePayments
+    .filter(p => p.type === 'income')
+    .reduce((sum, p) => sum + p.amount, 0);
+  const totalExpenses = rangePayments
+    .filter(p => p.type === 'expense')
+    .reduce((sum, p) => sum + p.amount, 0);
+
+  const filtered = rangePayments.filter(payment => {
+    const term = searchTerm.toLowerCase();
+    const label = payment.reference_id ? referenceLabels[payment.reference_id] : undefined;
+    const matchesSearch =
+      payment.description.toLowerCase().includes(term) ||
+      payment.category.toLowerCase().includes(term) ||
+      (label?.toLowerCase().includes(term) ?? false);
+    const matchesType = typeFilter === 'all' || payment.type === typeFilter;
+    const matchesMethod = methodFilter === 'all' || payment.payment_method === methodFilter;
+    return matchesSearch && matchesType && matchesMethod;
+  });
+
+  // Running balance is accumulated oldest-first, then shown newest-first
+  const entries: LedgerEntry[] = [...filtered]
+    .sort((a, b) => entryDate(a).localeCompare(entryDate(b)) || a.created_at.localeCompare(b.created_at))
+    .reduce<LedgerEntry[]>((acc, payment) => {
+      const previous = acc.length > 0 ? acc[acc.length - 1].balance : 0;
+      acc.push({
+        ...payment,
+        balance: previous + signedAmount(payment),
+        reference_label: payment.reference_id ? referenceLabels[payment.reference_id] : undefined,
+      });
+      return acc;
+    }, [])
+    .reverse();
+
+  if (loading && payments.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-28 bg-gray-200 rounded-2xl"></div>
+            ))}
+          </div>
+          <div className="h-64 bg-gray-200 rounded-2xl"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {defaultType === 'expense' ? 'Expenses' : 'Payments'}
+          </h1>
+          <p className="text-gray-600 mt-1">Income and expense ledger for {currentStore?.name}</p>
+        </div>
+        <button
+          onClick={() => setShowExpenseForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Record Expense</span>
+        </button>
+      </div>
+
+      {/* Cash Position */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {positions.map(({ method, balance }) => {
+          const Icon = methodIcons[method];
+          return (
+            <div key={method} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{methodLabels[method]} Position</p>
+                  <p className={`text-3xl font-bold mt-1 ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {balance < 0 ? '-' : ''}${Math.abs(balance).toFixed(2)}
+                  </p>
+                </div>
+                <div className="p-3 rounded-lg bg-blue-50">
+                  <Icon className="w-6 h-6 text-blue-600" />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Period Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center space-x-2 text-sm font-medium text-gray-600">
+            <TrendingUp className="w-4 h-4 text-green-600" />
+            <span>Income</span>
+          </div>
+          <p className="text-2xl font-bold text-green-600 mt-1">${totalIncome.toFixed(2)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center space-x-2 text-sm font-medium text-gray-600">
+            <TrendingDown className="w-4 h-4 text-red-600" />
+            <span>Expenses</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600 mt-1">${totalExpenses.toFixed(2)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-sm font-medium text-gray-600">Net</p>
+          <p className={`text-2xl font-bold mt-1 ${totalIncome - totalExpenses < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            ${(totalIncome - totalExpenses).toFixed(2)}
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search description, category or invoice..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Types</option>
+            <option value="income">Income</option>
+            <option value="expense">Expense</option>
+          </select>
+          <select
+            value={methodFilter}
+            onChange={(e) => setMethodFilter(e.target.value as typeof methodFilter)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Methods</option>
+            <option value="cash">Cash</option>
+            <option value="card">Card</option>
+            <option value="bank_transfer">Bank Transfer</option>
+            <option value="stock_adjustment">Stock Adjustment</option>
+          </select>
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {entries.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Date</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Description</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Category</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Method</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Amount</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 text-gray-600 whitespace-nowrap">
+                    {format(new Date(entryDate(entry)), 'MMM dd, yyyy')}
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="text-gray-900">{entry.description}</p>
+                    {entry.reference_label && (
+                      <Link
+                        to={entry.reference_type === 'purchase' ? '/purchases' : '/sales'}
+                        className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        <Receipt className="w-3 h-3" />
+                        <span>{entry.reference_label}</span>
+                      </Link>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                      {entry.category}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{methodLabels[entry.payment_method]}</td>
+                  <td className={`px-6 py-4 text-right font-semibold whitespace-nowrap ${
+                    entry.type === 'income' ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    <span className="inline-flex items-center">
+                      {entry.type === 'income'
+                        ? <ArrowUpRight className="w-4 h-4 mr-1" />
+                        : <ArrowDownRight className="w-4 h-4 mr-1" />}
+                      ${entry.amount.toFixed(2)}
+                    </span>
+                  </td>
+                  <td className={`px-6 py-4 text-right font-mono ${entry.balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {entry.balance < 0 ? '-' : ''}${Math.abs(entry.balance).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <Wallet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No entries found</h3>
+            <p className="text-gray-600">Try widening the date range or adjusting your filters.</p>
+          </div>
+        )}
+      </div>
+
+      <ExpenseForm
+        isOpen={showExpenseForm}
+        onClose={() => setShowExpenseForm(false)}
+        onSuccess={fetchPayments}
+      />
+    </div>
+  );
+};
+
+export default PaymentLedger;
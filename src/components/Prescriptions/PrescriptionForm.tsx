@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Save, Upload } from 'lucide-react';
+import { addMonths, format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, Patient, Prescription } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { createPrescription, DispenseLine } from '../../utils/prescriptions';
+
+interface PrescriptionFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (prescription: Prescription) => void;
+  patient: Patient | null;
+  // Prefilled from the cart when the prescription is captured at the till
+  initialItems?: DispenseLine[];
+}
+
+interface PrescriptionItemRow {
+  medicine_name: string;
+  quantity: number;
+  directions: string;
+}
+
+const emptyItem: PrescriptionItemRow = { medicine_name: '', quantity: 1, directions: '' };
+
+const PrescriptionForm: React.FC<PrescriptionFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  patient,
+  initialItems,
+}) => {
+  const [formData, setFormData] = useState({
+    prescriber_name: '',
+    prescriber_licence: '',
+    prescribed_date: format(new Date(), 'yyyy-MM-dd'),
+    valid_until: format(addMonths(new Date(), 6), 'yyyy-MM-dd'),
+    refills_allowed: 0,
+    notes: '',
+  });
+  const [items, setItems] = useState<PrescriptionItemRow[]>([emptyItem]);
+  const [scan, setScan] = useState<File | null>(null);
+  const [products, setProducts] = useState<Pick<Medicine, 'product_id' | 'name'>[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setFormData({
+      prescriber_name: '',
+      prescriber_licence: '',
+      prescribed_date: format(new Date(), 'yyyy-MM-dd'),
+      valid_until: format(addMonths(new Date(), 6), 'yyyy-MM-dd'),
+      refills_allowed: 0,
+      notes: '',
+    });
+    setItems(initialItems?.length
+      ? initialItems.map(item => ({ medicine_name: item.name, quantity: item.quantity, directions: '' }))
+      : [emptyItem]);
+    setScan(null);
+    setError('');
+  }, [isOpen, initialItems]);
+
+  useEffect(() => {
+    if (!isOpen || !currentStore) return;
+
+    const fetchProducts = async () => {
+      const { data, error } = await supabase
+        .from('medicines')
+        .select('product_id, name')
+        .eq('store_id', currentStore.id)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching medicines:', error);
+        return;
+      }
+
+      // One option per product rather than per batch
+      setProducts((data || []).filter((row, index, rows) =>
+        rows.findIndex(other => other.name.toLowerCase() === row.name.toLowerCase()) === index
+      ));
+    };
+
+    fetchProducts();
+  }, [isOpen, currentStore]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'refills_allowed' ? parseInt(value) || 0 : value,
+    }));
+  };
+
+  const updateItem = (index: number, field: keyof PrescriptionItemRow, value: string) => {
+    setItems(prev => prev.map((item, i) =>
+      i === index
+        ? { ...item, [field]: field === 'quantity' ? parseInt(value) || 0 : value }
+        : item
+    ));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patient || !appUser || !currentStore) return;
+
+    const lines = items.filter(item => item.medicine_name.trim());
+    if (lines.length === 0 || lines.some(item => item.quantity <= 0)) {
+      setError('Add at least one medicine with a quantity.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const prescription = await createPrescription({
+        store: currentStore,
+        userId: appUser.id,
+        patientId: patient.id,
+        prescriberName: formData.prescriber_name.trim(),
+        prescriberLicence: formData.prescriber_licence.trim(),
+        prescribedDate: formData.prescribed_date,
+        validUntil: formData.valid_until,
+        refillsAllowed: formData.refills_allowed,
+        notes: formData.notes,
+        items: lines.map(item => ({
+          product_id: products.find(product =>
+            product.name.toLowerCase() === item.medicine_name.trim().toLowerCase()
+          )?.product_id || null,
+          medicine_name: item.medicine_name.trim(),
+          quantity: item.quantity,
+          directions: item.directions.trim() || undefined,
+        })),
+        scan,
+      });
+
+      onSuccess(prescription);
+      onClose();
+    } catch (err) {
+      console.error('Error saving prescription:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">New Prescription</h2>
+              {patient && <p className="text-gray-600 mt-1">{patient.name}</p>}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="prescriber_name" className="block text-sm font-medium text-gray-700 mb-2">
+                Prescriber Name *
+              </label>
+              <input
+                type="text"
+                id="prescriber_name"
+                name="prescriber_name"
+                value={formData.prescriber_name}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="e.g. Dr. Jane Smith"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="prescriber_licence" className="block text-sm font-medium text-gray-700 mb-2">
+                Prescriber Licence No. *
+              </label>
+              <input
+                type="text"
+                id="prescriber_licence"
+                name="prescriber_licence"
+                value={formData.prescriber_licence}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="prescribed_date" className="block text-sm font-medium text-gray-700 mb-2">
+                Date Written *
+              </label>
+              <input
+                type="date"
+                id="prescribed_date"
+                name="prescribed_date"
+                value={formData.prescribed_date}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="valid_until" className="block text-sm font-medium text-gray-700 mb-2">
+                Valid Until
+              </label>
+              <input
+                type="date"
+                id="valid_until"
+                name="valid_until"
+                value={formData.valid_until}
+                min={formData.prescribed_date}
+                onChange={handleInputChange}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="refills_allowed" className="block text-sm font-medium text-gray-700 mb-2">
+                Refills Allowed
+              </label>
+              <input
+                type="number"
+                id="refills_allowed"
+                name="refills_allowed"
+                value={formData.refills_allowed}
+                onChange={handleInputChange}
+                className={inputClassName}
+                min="0"
+              />
+              <p className="mt-1 text-xs text-gray-500">Repeats after the first fill</p>
+            </div>
+
+            <div>
+              <label htmlFor="scan" className="block text-sm font-medium text-gray-700 mb-2">
+                Scanned Prescription
+              </label>
+              <label
+                htmlFor="scan"
+                className="flex items-center space-x-2 px-4 py-3 border border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50"
+              >
+                <Upload className="w-5 h-5 text-gray-500" />
+                <span className="text-sm text-gray-700 truncate">{scan ? scan.name : 'Upload image or PDF'}</span>
+              </label>
+              <input
+                type="file"
+                id="scan"
+                accept="image/*,application/pdf"
+                onChange={(e) => setScan(e.target.files?.[0] || null)}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-gray-700">Medicines *</p>
+              <button
+                type="button"
+                onClick={() => setItems(prev => [...prev, emptyItem])}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Medicine</span>
+              </button>
+            </div>
+            <datalist id="prescription_medicines">
+              {products.map((product) => (
+                <option key={product.name} value={product.name} />
+              ))}
+            </datalist>
+            <div className="space-y-3">
+              {items.map((item, index) => (
+                <div key={index} className="grid grid-cols-12 gap-3 items-start">
+                  <input
+                    type="text"
+                    list="prescription_medicines"
+                    value={item.medicine_name}
+                    onChange={(e) => updateItem(index, 'medicine_name', e.target.value)}
+                    className={`col-span-5 ${inputClassName}`}
+                    placeholder="Medicine"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, 'quantity', e.target.value)}
+                    className={`col-span-2 ${inputClassName}`}
+                    title="Quantity per fill"
+                  />
+                  <input
+                    type="text"
+                    value={item.directions}
+                    onChange={(e) => updateItem(index, 'directions', e.target.value)}
+                    className={`col-span-4 ${inputClassName}`}
+                    placeholder="Directions, e.g. 1 tablet twice daily"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                    disabled={items.length === 1}
+                    className="col-span-1 p-3 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !patient}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : 'Save Prescription'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PrescriptionForm;
@@ -0,0 +1,446 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Save, Truck, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, Payment, Vendor } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { IntakeLine, postPurchase } from '../../utils/stockIntake';
+
+interface PurchaseFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  vendors: Vendor[];
+  medicines: Medicine[];
+}
+
+interface ReceivedLine extends IntakeLine {
+  key: string;
+}
+
+interface VendorFormData {
+  name: string;
+  contact_person: string;
+  phone: string;
+  address: string;
+}
+
+const emptyLine = (): ReceivedLine => ({
+  key: crypto.randomUUID(),
+  name: '',
+  category: '',
+  manufacturer: '',
+  batch_no: '',
+  expiry_date: '',
+  quantity: 1,
+  unit_cost: 0,
+  price: 0,
+});
+
+const PurchaseForm: React.FC<PurchaseFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  vendors,
+  medicines,
+}) => {
+  const [vendorId, setVendorId] = useState('');
+  const [invoiceNo, setInvoiceNo] = useState('');
+  const [purchaseDate, setPurchaseDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [orderDate, setOrderDate] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<Payment['payment_method']>('bank_transfer');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<ReceivedLine[]>([emptyLine()]);
+  const [showVendorForm, setShowVendorForm] = useState(false);
+  const [vendorForm, setVendorForm] = useState<VendorFormData>({
+    name: '',
+    contact_person: '',
+    phone: '',
+    address: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
+  // One entry per product name, used to pre-fill details of known products
+  const knownProducts = medicines.reduce((acc, medicine) => {
+    const key = medicine.name.toLowerCase();
+    if (!acc[key]) acc[key] = medicine;
+    return acc;
+  }, {} as Record<string, Medicine>);
+
+  const updateLine = (key: string, field: keyof ReceivedLine, value: string) => {
+    setLines(prev => prev.map(line => {
+      if (line.key !== key) return line;
+
+      if (field === 'name') {
+        const known = knownProducts[value.toLowerCase()];
+        return known
+          ? {
+              ...line,
+              name: known.name,
+              category: known.category,
+              manufacturer: known.manufacturer || '',
+              price: known.price,
+              unit_cost: line.unit_cost || known.cost_price,
+            }
+          : { ...line, name: value };
+      }
+
+      return {
+        ...line,
+        [field]: field === 'quantity' || field === 'unit_cost' || field === 'price'
+          ? parseFloat(value) || 0
+          : value,
+      };
+    }));
+  };
+
+  const totalAmount = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  const resetForm = () => {
+    setVendorId('');
+    setInvoiceNo('');
+    setPurchaseDate(format(new Date(), 'yyyy-MM-dd'));
+    setOrderDate('');
+    setNotes('');
+    setLines([emptyLine()]);
+    setShowVendorForm(false);
+    setError('');
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const createVendor = async (): Promise<string> => {
+    const { data, error } = await supabase
+      .from('vendors')
+      .insert({ ...vendorForm, organization_id: currentStore?.organization_id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore || !appUser) return;
+
+    if (!showVendorForm && !vendorId) {
+      setError('Please select a vendor.');
+      return;
+    }
+
+    const invalidLine = lines.find(line =>
+      !line.name || !line.batch_no || !line.expiry_date || line.quantity <= 0
+    );
+    if (invalidLine) {
+      setError('Every line needs a medicine, batch number, expiry date and quantity.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const purchaseVendorId = showVendorForm ? await createVendor() : vendorId;
+
+      const vendorName = showVendorForm
+        ? vendorForm.name
+        : vendors.find(vendor => vendor.id === purchaseVendorId)?.name;
+
+      await postPurchase({
+        store: currentStore,
+        userId: appUser.id,
+        vendorId: purchaseVendorId,
+        vendorName,
+        invoiceNo,
+        purchaseDate,
+        orderDate,
+        notes,
+        paymentMethod,
+        lines,
+        medicines,
+      });
+
+      resetForm();
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording purchase:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record purchase. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Truck className="w-6 h-6 text-blue-600" />
+              <h2 className="text-2xl font-bold text-gray-900">Receive Goods</h2>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+              <AlertTriangle className="w-5 h-5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Supplier Invoice */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Vendor *</label>
+                <button
+                  type="button"
+                  onClick={() => setShowVendorForm(!showVendorForm)}
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  {showVendorForm ? 'Choose existing vendor' : '+ New vendor'}
+                </button>
+              </div>
+              {showVendorForm ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    ['name', 'Vendor name'],
+                    ['contact_person', 'Contact person'],
+                    ['phone', 'Phone'],
+                    ['address', 'Address'],
+                  ] as Array<[keyof VendorFormData, string]>).map(([field, placeholder]) => (
+                    <input
+                      key={field}
+                      type="text"
+                      value={vendorForm[field]}
+                      onChange={(e) => setVendorForm(prev => ({ ...prev, [field]: e.target.value }))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={placeholder}
+                      required
+                    />
+                  ))}
+                </div>
+              ) : (
+                <select
+                  value={vendorId}
+                  onChange={(e) => setVendorId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select vendor</option>
+                  {vendors.map((vendor) => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Supplier Invoice No *</label>
+              <input
+                type="text"
+                value={invoiceNo}
+                onChange={(e) => setInvoiceNo(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Received On *</label>
+              <input
+                type="date"
+                value={purchaseDate}
+                onChange={(e) => setPurchaseDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          {/* Received Batches */}
+          <div className="border border-gray-200 rounded-xl overflow-x-auto">
+            <datalist id="known-products">
+              {Object.values(knownProducts).map((medicine) => (
+                <option key={medicine.id} value={medicine.name} />
+              ))}
+            </datalist>
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Medicine</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Batch No</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Expiry</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Qty</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Unit Cost</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Sell Price</th>
+                  <th className="px-3 py-3 text-right text-sm font-semibold text-gray-900">Total</th>
+                  <th className="px-3 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line) => (
+                  <tr key={line.key}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        list="known-products"
+                        value={line.name}
+                        onChange={(e) => updateLine(line.key, 'name', e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded"
+                        placeholder="Medicine name"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={line.batch_no}
+                        onChange={(e) => updateLine(line.key, 'batch_no', e.target.value)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded font-mono"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="date"
+                        value={line.expiry_date}
+                        onChange={(e) => updateLine(line.key, 'expiry_date', e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.key, 'quantity', e.target.value)}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_cost}
+                        onChange={(e) => updateLine(line.key, 'unit_cost', e.target.value)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.price}
+                        onChange={(e) => updateLine(line.key, 'price', e.target.value)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">
+                      ${(line.quantity * line.unit_cost).toFixed(2)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                        disabled={lines.length === 1}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="p-3 border-t border-gray-200 flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setLines(prev => [...prev, emptyLine()])}
+                className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add batch</span>
+              </button>
+              <p className="text-lg font-bold text-gray-900">Total: ${totalAmount.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Ordered On</label>
+              <input
+                type="date"
+                value={orderDate}
+                max={purchaseDate}
+                onChange={(e) => setOrderDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Paid By</label>
+              <select
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as Payment['payment_method'])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="cash">Cash</option>
+                <option value="card">Card</option>
+                <option value="bank_transfer">Bank Transfer</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : 'Receive Stock'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseForm;
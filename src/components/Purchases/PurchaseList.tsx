@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Plus,
+  Search,
+  ShoppingCart,
+  Truck,
+  DollarSign,
+  Package,
+  Lightbulb,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, Purchase, Vendor } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import PurchaseForm from './PurchaseForm';
+
+const PurchaseList: React.FC = () => {
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { currentStore } = useStoreContext();
+
+  const fetchData = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: purchasesData, error: purchasesError } = await supabase
+        .from('purchases')
+        .select(`
+          *,
+          vendor:vendors (*),
+          items:purchase_items (
+            *,
+            medicine:medicines (name, category),
+            order_item:purchase_order_items (medicine_name)
+          )
+        `)
+        .eq('store_id', currentStore.id)
+        .order('purchase_date', { ascending: false });
+
+      if (purchasesError) throw purchasesError;
+
+      const { data: vendorsData } = await supabase
+        .from('vendors')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id)
+        .eq('is_active', true)
+        .order('name');
+
+      const { data: medicinesData } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .order('name');
+
+      setPurchases(purchasesData || []);
+      setVendors(vendorsData || []);
+      setMedicines(medicinesData || []);
+    } catch (error) {
+      console.error('Error fetching purchases:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const filteredPurchases = purchases.filter(purchase =>
+    purchase.invoice_no.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    purchase.vendor?.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const monthStart = startOfMonth(new Date());
+  const monthPurchases = purchases.filter(purchase => new Date(purchase.purchase_date) >= monthStart);
+  const monthSpend = monthPurchases.reduce((sum, purchase) => sum + purchase.total_amount, 0);
+  const unitsReceived = monthPurchases.reduce(
+    (sum, purchase) => sum + purchase.items.reduce((itemSum, item) => itemSum + item.quantity, 0),
+    0
+  );
+
+  if (loading && purchases.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchases</h1>
+          <p className="text-gray-600 mt-1">Supplier invoices and goods received for {currentStore?.name}</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Link
+            to="/purchases/reorder"
+            className="flex items-center space-x-2 px-4 py-2 bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200 transition-colors"
+          >
+            <Lightbulb className="w-5 h-5" />
+            <span>Reorder Suggestions</span>
+          </Link>
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Receive Goods</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Spend This Month</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">${monthSpend.toFixed(2)}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-gradient-to-r from-blue-100 to-indigo-100">
+              <DollarSign className="w-8 h-8 text-blue-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Invoices This Month</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">{monthPurchases.length}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-gradient-to-r from-green-100 to-emerald-100">
+              <Truck className="w-8 h-8 text-green-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Units Received</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">{unitsReceived}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-gradient-to-r from-purple-100 to-pink-100">
+              <Package className="w-8 h-8 text-purple-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <input
+          type="text"
+          placeholder="Search by invoice number or vendor..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {/* Purchases Table */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredPurchases.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Invoice</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Vendor</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Received</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Items</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredPurchases.map((purchase) => (
+                <React.Fragment key={purchase.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === purchase.id ? null : purchase.id)}
+                    className="hover:bg-gray-50 transition-colors cursor-pointer"
+                  >
+                    <td className="px-6 py-4 font-medium text-gray-900">
+                      <div className="flex items-center space-x-2">
+                        {expandedId === purchase.id ? (
+                          <ChevronDown className="w-4 h-4 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 text-gray-400" />
+                        )}
+                        <span>#{purchase.invoice_no}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <Link
+                        to={`/vendors/${purchase.vendor_id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-gray-900 hover:text-blue-600"
+                      >
+                        {purchase.vendor?.name}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {format(new Date(purchase.purchase_date), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{purchase.items.filter(item => item.quantity > 0).length}</td>
+                    <td className="px-6 py-4 text-right font-semibold text-gray-900">
+                      ${purchase.total_amount.toFixed(2)}
+                    </td>
+                  </tr>
+                  {expandedId === purchase.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-4">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-gray-600">
+                              <th className="py-2 text-left font-medium">Medicine</th>
+                              <th className="py-2 text-left font-medium">Batch</th>
+                              <th className="py-2 text-left font-medium">Expiry</th>
+                              <th className="py-2 text-right font-medium">Qty</th>
+                              <th className="py-2 text-right font-medium">Unit Cost</th>
+                              <th className="py-2 text-right font-medium">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {purchase.items.map((item) => (
+                              <tr key={item.id} className="text-gray-900">
+                                <td className="py-1">{item.medicine?.name || item.order_item?.medicine_name}</td>
+                                <td className="py-1 font-mono">{item.batch_no}</td>
+                                <td className="py-1">
+                                  {item.expiry_date && format(new Date(item.expiry_date), 'MMM dd, yyyy')}
+                                </td>
+                                <td className="py-1 text-right">
+                                  {item.quantity}
+                                  {item.discrepancy_reason && (
+                                    <span className="block text-xs text-amber-600">
+                                      of {item.ordered_quantity} ordered • {item.discrepancy_reason}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="py-1 text-right">${item.unit_cost.toFixed(2)}</td>
+                                <td className="py-1 text-right">${item.total_cost.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {purchase.notes && (
+                          <p className="mt-3 text-sm text-gray-600">Notes: {purchase.notes}</p>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <ShoppingCart className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No purchases found</h3>
+            <p className="text-gray-600">
+              {searchTerm ? 'Try adjusting your search.' : 'Record your first supplier invoice to add stock.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <PurchaseForm
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        onSuccess={fetchData}
+        vendors={vendors}
+        medicines={medicines}
+      />
+    </div>
+  );
+};
+
+export default PurchaseList;
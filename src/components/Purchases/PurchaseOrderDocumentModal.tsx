@@ -0,0 +1,43 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { PurchaseOrder } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import PurchaseOrderPDF from './PurchaseOrderPDF';
+
+interface PurchaseOrderDocumentModalProps {
+  order: PurchaseOrder | null;
+  onClose: () => void;
+}
+
+const PurchaseOrderDocumentModal: React.FC<PurchaseOrderDocumentModalProps> = ({ order, onClose }) => {
+  const { currentStore } = useStoreContext();
+
+  if (!order || !currentStore) return null;
+
+  const handleEmail = () => {
+    const subject = encodeURIComponent(`Purchase Order ${order.po_number} from ${currentStore.name}`);
+    const recipient = order.vendor?.email || '';
+    window.location.href = `mailto:${recipient}?subject=${subject}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">Purchase Order Document</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+        <div className="p-4">
+          <PurchaseOrderPDF order={order} store={currentStore} onEmail={handleEmail} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderDocumentModal;
@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, PurchaseOrder, Vendor } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+
+interface PurchaseOrderFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  editingOrder?: PurchaseOrder | null;
+  vendors: Vendor[];
+  medicines: Medicine[];
+}
+
+interface OrderLine {
+  key: string;
+  medicine_id?: string;
+  medicine_name: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+const emptyLine = (): OrderLine => ({
+  key: crypto.randomUUID(),
+  medicine_name: '',
+  quantity: 1,
+  unit_cost: 0,
+});
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  editingOrder,
+  vendors,
+  medicines,
+}) => {
+  const [vendorId, setVendorId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<OrderLine[]>([emptyLine()]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
+  useEffect(() => {
+    if (editingOrder) {
+      setVendorId(editingOrder.vendor_id);
+      setExpectedDate(editingOrder.expected_date || '');
+      setNotes(editingOrder.notes || '');
+      setLines(editingOrder.items.map(item => ({
+        key: item.id,
+        medicine_id: item.medicine_id,
+        medicine_name: item.medicine_name,
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+      })));
+    } else {
+      setVendorId('');
+      setExpectedDate('');
+      setNotes('');
+      setLines([emptyLine()]);
+    }
+    setError('');
+  }, [editingOrder, isOpen]);
+
+  // One entry per product name; the newest batch supplies the default cost
+  const knownProducts = [...medicines]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .reduce((acc, medicine) => {
+      const key = medicine.name.toLowerCase();
+      if (!acc[key]) acc[key] = medicine;
+      return acc;
+    }, {} as Record<string, Medicine>);
+
+  const updateLine = (key: string, field: keyof OrderLine, value: string) => {
+    setLines(prev => prev.map(line => {
+      if (line.key !== key) return line;
+
+      if (field === 'medicine_name') {
+        const known = knownProducts[value.toLowerCase()];
+        return known
+          ? { ...line, medicine_id: known.id, medicine_name: known.name, unit_cost: line.unit_cost || known.cost_price }
+          : { ...line, medicine_id: undefined, medicine_name: value };
+      }
+
+      return { ...line, [field]: parseFloat(value) || 0 };
+    }));
+  };
+
+  const totalAmount = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore || !appUser) return;
+
+    const validLines = lines.filter(line => line.medicine_name.trim() && line.quantity > 0);
+    if (validLines.length === 0) {
+      setError('Add at least one item to the order.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    const orderData = {
+      vendor_id: vendorId,
+      expected_date: expectedDate || null,
+      notes: notes || null,
+      total_amount: validLines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0),
+    };
+
+    try {
+      let orderId = editingOrder?.id;
+
+      if (editingOrder) {
+        const { error } = await supabase
+          .from('purchase_orders')
+          .update({ ...orderData, updated_at: new Date().toISOString() })
+          .eq('id', editingOrder.id);
+
+        if (error) throw error;
+
+        // Lines are replaced wholesale; drafts have nothing received against them yet
+        const { error: deleteError } = await supabase
+          .from('purchase_order_items')
+          .delete()
+          .eq('purchase_order_id', editingOrder.id);
+
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('purchase_orders')
+          .insert({
+            ...orderData,
+            po_number: `PO-${currentStore.code}-${format(new Date(), 'yyMMdd-HHmmss')}`,
+            status: 'draft',
+            store_id: currentStore.id,
+            organization_id: currentStore.organization_id,
+            created_by: appUser.id,
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        orderId = data.id;
+      }
+
+      const { error: itemsError } = await supabase
+        .from('purchase_order_items')
+        .insert(validLines.map(line => ({
+          purchase_order_id: orderId,
+          medicine_id: line.medicine_id || null,
+          medicine_name: line.medicine_name.trim(),
+          quantity: line.quantity,
+          unit_cost: line.unit_cost,
+        })));
+
+      if (itemsError) throw itemsError;
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error saving purchase order:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">
+                {editingOrder ? 'Edit Purchase Order' : 'New Purchase Order'}
+              </h2>
+              {editingOrder && <p className="text-gray-600 font-mono">{editingOrder.po_number}</p>}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Vendor *</label>
+              <select
+                value={vendorId}
+                onChange={(e) => setVendorId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              >
+                <option value="">Select vendor</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Expected Delivery</label>
+              <input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-xl overflow-x-auto">
+            <datalist id="order-products">
+              {Object.values(knownProducts).map((medicine) => (
+                <option key={medicine.id} value={medicine.name} />
+              ))}
+            </datalist>
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Medicine</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Qty</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Unit Cost</th>
+                  <th className="px-3 py-3 text-right text-sm font-semibold text-gray-900">Total</th>
+                  <th className="px-3 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line) => (
+                  <tr key={line.key}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        list="order-products"
+                        value={line.medicine_name}
+                        onChange={(e) => updateLine(line.key, 'medicine_name', e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded"
+                        required
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.key, 'quantity', e.target.value)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                        required
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_cost}
+                        onChange={(e) => updateLine(line.key, 'unit_cost', e.target.value)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      ${(line.quantity * line.unit_cost).toFixed(2)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                        disabled={lines.length === 1}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex items-center justify-between px-3 py-3 bg-gray-50 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={() => setLines(prev => [...prev, emptyLine()])}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add item</span>
+              </button>
+              <span className="font-semibold text-gray-900">Total ${totalAmount.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : 'Save Draft'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderForm;
@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Plus,
+  Search,
+  ClipboardList,
+  Lightbulb,
+  Edit,
+  Send,
+  XCircle,
+  ChevronDown,
+  ChevronRight,
+  PackageCheck,
+  FileText,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, PurchaseOrder, Vendor } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import PurchaseOrderForm from './PurchaseOrderForm';
+import ReceiveOrderModal from './ReceiveOrderModal';
+import PurchaseOrderDocumentModal from './PurchaseOrderDocumentModal';
+
+type StatusFilter = 'all' | PurchaseOrder['status'];
+
+const statusStyles: Record<PurchaseOrder['status'], string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const statusLabels: Record<StatusFilter, string> = {
+  all: 'All',
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partial',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const PurchaseOrderList: React.FC = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [documentOrder, setDocumentOrder] = useState<PurchaseOrder | null>(null);
+
+  const { currentStore } = useStoreContext();
+  const navigate = useNavigate();
+
+  const fetchOrders = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: ordersData, error: ordersError } = await supabase
+        .from('purchase_orders')
+        .select('*, vendor:vendors (*), items:purchase_order_items (*)')
+        .eq('store_id', currentStore.id)
+        .order('created_at', { ascending: false });
+
+      if (ordersError) throw ordersError;
+
+      const { data: vendorsData } = await supabase
+        .from('vendors')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id)
+        .eq('is_active', true)
+        .order('name');
+
+      const { data: medicinesData } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .order('name');
+
+      setOrders(ordersData || []);
+      setVendors(vendorsData || []);
+      setMedicines(medicinesData || []);
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const updateStatus = async (order: PurchaseOrder, status: PurchaseOrder['status']) => {
+    if (status === 'cancelled' && !confirm(`Cancel purchase order ${order.po_number}?`)) return;
+
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .update(status === 'sent' ? { status, sent_at: now, updated_at: now } : { status, updated_at: now })
+        .eq('id', order.id)
+        .eq('status', order.status)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        alert(`${order.po_number} was changed on another device. The list has been refreshed.`);
+      }
+      fetchOrders();
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      alert('Error updating purchase order');
+    }
+  };
+
+  const handleEdit = (order: PurchaseOrder) => {
+    setEditingOrder(order);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingOrder(null);
+  };
+
+  const filteredOrders = orders.filter(order => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      order.po_number.toLowerCase().includes(term) ||
+      (order.vendor?.name.toLowerCase().includes(term) ?? false);
+    return matchesSearch && (statusFilter === 'all' || order.status === statusFilter);
+  });
+
+  const statusCounts = orders.reduce((acc, order) => {
+    acc[order.status] = (acc[order.status] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  if (loading && orders.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-1">Orders placed with vendors for {currentStore?.name}</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate('/purchases/reorder')}
+            className="flex items-center space-x-2 px-4 py-2 bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200 transition-colors"
+          >
+            <Lightbulb className="w-5 h-5" />
+            <span>Reorder Suggestions</span>
+          </button>
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Order</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by PO number or vendor..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {(['all', 'draft', 'sent', 'partially_received', 'received', 'cancelled'] as StatusFilter[]).map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                statusFilter === status ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {statusLabels[status]}
+              {status !== 'all' && statusCounts[status] ? ` (${statusCounts[status]})` : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredOrders.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">PO Number</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Vendor</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Created</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Status</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Total</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredOrders.map((order) => (
+                <React.Fragment key={order.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === order.id ? null : order.id)}
+                    className="hover:bg-gray-50 transition-colors cursor-pointer"
+                  >
+                    <td className="px-6 py-4 font-medium text-gray-900">
+                      <div className="flex items-center space-x-2">
+                        {expandedId === order.id ? (
+                          <ChevronDown className="w-4 h-4 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 text-gray-400" />
+                        )}
+                        <span className="font-mono">{order.po_number}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-900">{order.vendor?.name}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {format(new Date(order.created_at), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${statusStyles[order.status]}`}>
+                        {statusLabels[order.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right font-semibold text-gray-900">
+                      ${order.total_amount.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => setDocumentOrder(order)}
+                          className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="View / Print PO"
+                        >
+                          <FileText className="w-4 h-4" />
+                        </button>
+                        {order.status === 'draft' && (
+                          <>
+                            <button
+                              onClick={() => handleEdit(order)}
+                              className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                              title="Edit"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => updateStatus(order, 'sent')}
+                              className="p-2 text-gray-400 hover:text-green-600 transition-colors"
+                              title="Mark as Sent"
+                            >
+                              <Send className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {(order.status === 'sent' || order.status === 'partially_received') && (
+                          <button
+                            onClick={() => setReceivingOrder(order)}
+                            className="p-2 text-gray-400 hover:text-green-600 transition-colors"
+                            title="Receive Delivery"
+                          >
+                            <PackageCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(order.status === 'draft' || order.status === 'sent') && (
+                          <button
+                            onClick={() => updateStatus(order, 'cancelled')}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Cancel"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedId === order.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={6} className="px-6 py-4">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-gray-600">
+                              <th className="py-2 text-left font-medium">Medicine</th>
+                              <th className="py-2 text-right font-medium">Ordered</th>
+                              <th className="py-2 text-right font-medium">Received</th>
+                              <th className="py-2 text-right font-medium">Unit Cost</th>
+                              <th className="py-2 text-right font-medium">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {order.items.map((item) => (
+                              <tr key={item.id} className="text-gray-900">
+                                <td className="py-1">{item.medicine_name}</td>
+                                <td className="py-1 text-right">{item.quantity}</td>
+                                <td className={`py-1 text-right ${
+                                  item.quantity_received < item.quantity && order.status === 'received' ? 'text-amber-600' : ''
+                                }`}>
+                                  {item.quantity_received}
+                                </td>
+                                <td className="py-1 text-right">${item.unit_cost.toFixed(2)}</td>
+                                <td className="py-1 text-right">${(item.quantity * item.unit_cost).toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {order.notes && <p className="text-sm text-gray-600 mt-3">{order.notes}</p>}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No purchase orders found</h3>
+            <p className="text-gray-600">
+              {searchTerm || statusFilter !== 'all'
+                ? 'Try adjusting your search or filters.'
+                : 'Create one from reorder suggestions or start a new order.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <PurchaseOrderForm
+        isOpen={showForm}
+        onClose={handleCloseForm}
+        onSuccess={fetchOrders}
+        editingOrder={editingOrder}
+        vendors={vendors}
+        medicines={medicines}
+      />
+
+      <ReceiveOrderModal
+        order={receivingOrder}
+        medicines={medicines}
+        onClose={() => setReceivingOrder(null)}
+        onSuccess={fetchOrders}
+      />
+
+      <PurchaseOrderDocumentModal
+        order={documentOrder}
+        onClose={() => setDocumentOrder(null)}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrderList;
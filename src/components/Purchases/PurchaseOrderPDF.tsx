@@ -0,0 +1,328 @@
+import React from 'react';
+import { Download, Printer, Mail } from 'lucide-react';
+import { format } from 'date-fns';
+import { PurchaseOrder, Store } from '../../types';
+
+interface PurchaseOrderPDFProps {
+  order: PurchaseOrder;
+  store: Store;
+  onEmail: () => void;
+}
+
+const statusLabels: Record<PurchaseOrder['status'], string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const PurchaseOrderPDF: React.FC<PurchaseOrderPDFProps> = ({ order, store, onEmail }) => {
+  const showReceived = order.status === 'partially_received' || order.status === 'received';
+
+  const generatePDFContent = () => {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Purchase Order ${order.po_number}</title>
+        <style>
+          body {
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            margin: 0;
+            padding: 20px;
+            color: #333;
+            line-height: 1.6;
+          }
+          .po-container {
+            max-width: 800px;
+            margin: 0 auto;
+            background: white;
+            border-radius: 8px;
+            overflow: hidden;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          }
+          .po-header {
+            background: linear-gradient(135deg, #3b82f6, #1d4ed8);
+            color: white;
+            padding: 30px;
+            text-align: center;
+          }
+          .po-header h1 {
+            margin: 0;
+            font-size: 2.5rem;
+            font-weight: 700;
+          }
+          .po-header p {
+            margin: 5px 0 0 0;
+            opacity: 0.9;
+          }
+          .po-body {
+            padding: 30px;
+          }
+          .po-info {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 30px;
+            margin-bottom: 30px;
+          }
+          .info-section h3 {
+            margin: 0 0 10px 0;
+            color: #1f2937;
+            font-size: 1.1rem;
+            font-weight: 600;
+          }
+          .info-section p {
+            margin: 5px 0;
+            color: #6b7280;
+          }
+          .po-details {
+            background: #f8fafc;
+            padding: 20px;
+            border-radius: 8px;
+          }
+          .po-details table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+          .po-details td {
+            padding: 8px 0;
+            border-bottom: 1px solid #e5e7eb;
+          }
+          .po-details td:first-child {
+            font-weight: 600;
+            color: #374151;
+          }
+          .items-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 30px;
+          }
+          .items-table th {
+            background: #f3f4f6;
+            padding: 15px;
+            text-align: left;
+            font-weight: 600;
+            color: #374151;
+            border-bottom: 2px solid #e5e7eb;
+          }
+          .items-table td {
+            padding: 15px;
+            border-bottom: 1px solid #e5e7eb;
+          }
+          .totals {
+            margin-left: auto;
+            width: 300px;
+          }
+          .totals table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+          .total-row {
+            background: #f3f4f6;
+            font-size: 1.2rem;
+          }
+          .total-row td {
+            padding: 15px 0;
+            font-weight: 600;
+            border-top: 2px solid #d1d5db;
+            border-bottom: 2px solid #d1d5db;
+          }
+          .total-row td:last-child {
+            text-align: right;
+          }
+          .notes {
+            background: #fffbeb;
+            border: 1px solid #f59e0b;
+            border-radius: 8px;
+            padding: 15px;
+            margin-top: 20px;
+          }
+          .notes h4 {
+            margin: 0 0 10px 0;
+            color: #92400e;
+          }
+          .footer {
+            margin-top: 40px;
+            padding-top: 20px;
+            border-top: 2px solid #e5e7eb;
+            text-align: center;
+            color: #6b7280;
+            font-size: 0.875rem;
+          }
+          @media print {
+            body { margin: 0; padding: 0; }
+            .po-container { box-shadow: none; }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="po-container">
+          <div class="po-header">
+            <h1>Purchase Order</h1>
+            <p>RxSmart Pharmacy — ${store.name}</p>
+          </div>
+
+          <div class="po-body">
+            <div class="po-info">
+              <div class="info-section">
+                <h3>Supplier:</h3>
+                <p><strong>${order.vendor?.name || ''}</strong></p>
+                ${order.vendor?.contact_person ? `<p>Attn: ${order.vendor.contact_person}</p>` : ''}
+                ${order.vendor?.phone ? `<p>${order.vendor.phone}</p>` : ''}
+                ${order.vendor?.email ? `<p>${order.vendor.email}</p>` : ''}
+                ${order.vendor?.address ? `<p>${order.vendor.address}</p>` : ''}
+              </div>
+
+              <div class="info-section">
+                <h3>Order Details:</h3>
+                <div class="po-details">
+                  <table>
+                    <tr>
+                      <td>PO Number:</td>
+                      <td><strong>${order.po_number}</strong></td>
+                    </tr>
+                    <tr>
+                      <td>Order Date:</td>
+                      <td>${format(new Date(order.sent_at || order.created_at), 'MMMM dd, yyyy')}</td>
+                    </tr>
+                    ${order.expected_date ? `
+                      <tr>
+                        <td>Expected Delivery:</td>
+                        <td>${format(new Date(order.expected_date), 'MMMM dd, yyyy')}</td>
+                      </tr>
+                    ` : ''}
+                    <tr>
+                      <td>Deliver To:</td>
+                      <td>${store.name} (${store.code})</td>
+                    </tr>
+                    <tr>
+                      <td>Status:</td>
+                      <td>${statusLabels[order.status]}</td>
+                    </tr>
+                  </table>
+                </div>
+              </div>
+            </div>
+
+            <table class="items-table">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Ordered</th>
+                  ${showReceived ? '<th>Received</th>' : ''}
+                  <th>Unit Cost</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${order.items.map(item => `
+                  <tr>
+                    <td>${item.medicine_name}</td>
+                    <td>${item.quantity}</td>
+                    ${showReceived ? `<td>${item.quantity_received}</td>` : ''}
+                    <td>$${item.unit_cost.toFixed(2)}</td>
+                    <td>$${(item.quantity * item.unit_cost).toFixed(2)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+
+            <div class="totals">
+              <table>
+                <tr class="total-row">
+                  <td>Order Total:</td>
+                  <td>$${order.total_amount.toFixed(2)}</td>
+                </tr>
+              </table>
+            </div>
+
+            ${order.notes ? `
+              <div class="notes">
+                <h4>Notes:</h4>
+                <p>${order.notes}</p>
+              </div>
+            ` : ''}
+
+            <div class="footer">
+              <p>Please quote the PO number on your invoice and delivery note.</p>
+              <p>For questions about this order, please contact us at info@rxsmart.com</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  };
+
+  const handleDownload = () => {
+    const content = generatePDFContent();
+    const blob = new Blob([content], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `purchase-order-${order.po_number}.html`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    const content = generatePDFContent();
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(content);
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Purchase Order {order.po_number}</h3>
+            <p className="text-sm text-gray-600">
+              {order.vendor?.name} • {statusLabels[order.status]}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onEmail}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+            >
+              <Mail className="w-4 h-4" />
+              <span>Email</span>
+            </button>
+            <button
+              onClick={handlePrint}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Printer className="w-4 h-4" />
+              <span>Print</span>
+            </button>
+            <button
+              onClick={handleDownload}
+              className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Purchase Order Preview */}
+      <div className="p-6">
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div
+            dangerouslySetInnerHTML={{ __html: generatePDFContent() }}
+            style={{ transform: 'scale(0.8)', transformOrigin: 'top left', width: '125%' }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderPDF;
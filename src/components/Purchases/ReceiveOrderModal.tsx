@@ -0,0 +1,424 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, PackageCheck, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, Payment, PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { IntakeLine, postPurchase } from '../../utils/stockIntake';
+
+interface ReceiveOrderModalProps {
+  order: PurchaseOrder | null;
+  medicines: Medicine[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface ReceivingLine extends IntakeLine {
+  key: string;
+  outstanding: number;
+}
+
+const discrepancyReasons = [
+  'Short shipped',
+  'Backordered',
+  'Damaged in transit',
+  'Over-delivered',
+  'Wrong item',
+  'Other',
+];
+
+const ReceiveOrderModal: React.FC<ReceiveOrderModalProps> = ({
+  order,
+  medicines,
+  onClose,
+  onSuccess,
+}) => {
+  const [lines, setLines] = useState<ReceivingLine[]>([]);
+  const [invoiceNo, setInvoiceNo] = useState('');
+  const [receivedDate, setReceivedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [paymentMethod, setPaymentMethod] = useState<Payment['payment_method']>('bank_transfer');
+  const [closeShort, setCloseShort] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+  const loadedOrderId = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Only a different order resets the form, not the list refreshing underneath it
+    if (!order) {
+      loadedOrderId.current = null;
+      return;
+    }
+    if (loadedOrderId.current === order.id) return;
+    loadedOrderId.current = order.id;
+
+    setLines(order.items
+      .filter(item => item.quantity - item.quantity_received > 0)
+      .map(item => {
+        const known = medicines.find(medicine => medicine.name.toLowerCase() === item.medicine_name.toLowerCase());
+        const outstanding = item.quantity - item.quantity_received;
+        return {
+          key: item.id,
+          name: item.medicine_name,
+          category: known?.category || '',
+          manufacturer: known?.manufacturer || '',
+          batch_no: '',
+          expiry_date: '',
+          quantity: outstanding,
+          unit_cost: item.unit_cost,
+          price: known?.price || 0,
+          purchase_order_item_id: item.id,
+          ordered_quantity: outstanding,
+          discrepancy_reason: '',
+          outstanding,
+        };
+      }));
+    setInvoiceNo('');
+    setReceivedDate(format(new Date(), 'yyyy-MM-dd'));
+    setCloseShort(false);
+    setError('');
+  }, [order, medicines]);
+
+  const updateLine = (key: string, field: keyof ReceivingLine, value: string) => {
+    setLines(prev => prev.map(line => {
+      if (line.key !== key) return line;
+      return {
+        ...line,
+        [field]: field === 'quantity' || field === 'unit_cost' || field === 'price'
+          ? parseFloat(value) || 0
+          : value,
+      };
+    }));
+  };
+
+  const receivedLines = lines.filter(line => line.quantity > 0);
+  const totalAmount = receivedLines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+  const hasShortfall = lines.some(line => line.quantity < line.outstanding);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !currentStore || !appUser) return;
+
+    if (receivedLines.length === 0) {
+      setError('Enter a received quantity for at least one line.');
+      return;
+    }
+
+    if (receivedLines.some(line => !line.batch_no || !line.expiry_date)) {
+      setError('Every received line needs a batch number and expiry date.');
+      return;
+    }
+
+    if (lines.some(line => line.quantity !== line.outstanding && !line.discrepancy_reason)) {
+      setError('Give a reason for every line where the delivered quantity differs from the order.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    // Claimed quantities, so they can be handed back if the intake fails
+    const claimed: Array<{ id: string; from: number; to: number }> = [];
+
+    try {
+      // Work from the order as it stands now; another device may have received against it
+      const { data: freshItems, error: freshError } = await supabase
+        .from('purchase_order_items')
+        .select('id, quantity, quantity_received')
+        .eq('purchase_order_id', order.id);
+
+      if (freshError) throw freshError;
+
+      const currentItems = (freshItems || []) as Pick<PurchaseOrderItem, 'id' | 'quantity' | 'quantity_received'>[];
+      const changedElsewhere = lines.some(line => {
+        const item = currentItems.find(orderItem => orderItem.id === line.purchase_order_item_id);
+        return !item || item.quantity - item.quantity_received !== line.outstanding;
+      });
+
+      if (changedElsewhere) {
+        throw new Error(`${order.po_number} was received elsewhere since this form was opened. Close it and open the order again.`);
+      }
+
+      // Each line only moves on from the quantity read above, so a second receipt cannot count it twice
+      for (const line of receivedLines) {
+        const item = currentItems.find(orderItem => orderItem.id === line.purchase_order_item_id);
+        if (!item) continue;
+
+        const { data: updated, error: itemError } = await supabase
+          .from('purchase_order_items')
+          .update({ quantity_received: item.quantity_received + line.quantity })
+          .eq('id', item.id)
+          .eq('quantity_received', item.quantity_received)
+          .select('id');
+
+        if (itemError) throw itemError;
+        if (!updated || updated.length === 0) {
+          throw new Error(`${order.po_number} is being received on another device. Close this form and open the order again.`);
+        }
+        claimed.push({ id: item.id, from: item.quantity_received, to: item.quantity_received + line.quantity });
+      }
+
+      // Status moves only from an open order, so a cancellation on another device is not undone
+      const { data: afterClaim, error: afterClaimError } = await supabase
+        .from('purchase_order_items')
+        .select('quantity, quantity_received')
+        .eq('purchase_order_id', order.id);
+
+      if (afterClaimError) throw afterClaimError;
+
+      const fullyReceived = (afterClaim || []).every(item => item.quantity_received >= item.quantity);
+      const nextStatus = fullyReceived || closeShort ? 'received' : 'partially_received';
+
+      const { data: moved, error: orderError } = await supabase
+        .from('purchase_orders')
+        .update({ status: nextStatus, updated_at: new Date().toISOString() })
+        .eq('id', order.id)
+        .in('status', ['sent', 'partially_received'])
+        .select('id');
+
+      if (orderError) throw orderError;
+      if (!moved || moved.length === 0) {
+        throw new Error(`${order.po_number} was cancelled or closed on another device.`);
+      }
+
+      try {
+        // Lines received at zero go in too, so their discrepancy reason is kept with the delivery
+        await postPurchase({
+          store: currentStore,
+          userId: appUser.id,
+          vendorId: order.vendor_id,
+          vendorName: order.vendor?.name,
+          invoiceNo,
+          purchaseDate: receivedDate,
+          orderDate: order.sent_at ? order.sent_at.slice(0, 10) : undefined,
+          notes: `Received against ${order.po_number}`,
+          paymentMethod,
+          purchaseOrderId: order.id,
+          lines,
+          medicines,
+        });
+      } catch (intakeError) {
+        // postPurchase takes back whatever it booked, so the order can reopen
+        await supabase
+          .from('purchase_orders')
+          .update({ status: order.status, updated_at: new Date().toISOString() })
+          .eq('id', order.id)
+          .eq('status', nextStatus);
+        throw intakeError;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      for (const claim of claimed) {
+        await supabase
+          .from('purchase_order_items')
+          .update({ quantity_received: claim.from })
+          .eq('id', claim.id)
+          .eq('quantity_received', claim.to);
+      }
+      console.error('Error receiving purchase order:', err);
+      setError(err instanceof Error ? err.message : 'Failed to receive order. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!order) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <PackageCheck className="w-6 h-6 text-blue-600" />
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">Receive Order</h2>
+                <p className="text-gray-600">
+                  <span className="font-mono">{order.po_number}</span> • {order.vendor?.name}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+              <AlertTriangle className="w-5 h-5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Supplier Invoice No *</label>
+              <input
+                type="text"
+                value={invoiceNo}
+                onChange={(e) => setInvoiceNo(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Received On *</label>
+              <input
+                type="date"
+                value={receivedDate}
+                onChange={(e) => setReceivedDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Paid By</label>
+              <select
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as Payment['payment_method'])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="cash">Cash</option>
+                <option value="card">Card</option>
+                <option value="bank_transfer">Bank Transfer</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-xl overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Medicine</th>
+                  <th className="px-3 py-3 text-right text-sm font-semibold text-gray-900">Outstanding</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Received</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Batch No</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Expiry</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Unit Cost</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Sell Price</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Discrepancy</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line) => {
+                  const differs = line.quantity !== line.outstanding;
+                  return (
+                    <tr key={line.key} className={differs ? 'bg-amber-50' : ''}>
+                      <td className="px-3 py-2 font-medium text-gray-900">{line.name}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">{line.outstanding}</td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.key, 'quantity', e.target.value)}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={line.batch_no}
+                          onChange={(e) => updateLine(line.key, 'batch_no', e.target.value)}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded"
+                          disabled={line.quantity === 0}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="date"
+                          value={line.expiry_date}
+                          onChange={(e) => updateLine(line.key, 'expiry_date', e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded"
+                          disabled={line.quantity === 0}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(line.key, 'unit_cost', e.target.value)}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.price}
+                          onChange={(e) => updateLine(line.key, 'price', e.target.value)}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        {differs && (
+                          <select
+                            value={line.discrepancy_reason}
+                            onChange={(e) => updateLine(line.key, 'discrepancy_reason', e.target.value)}
+                            className="px-2 py-1 border border-amber-300 rounded bg-white"
+                          >
+                            <option value="">Select reason</option>
+                            {discrepancyReasons.map((reason) => (
+                              <option key={reason} value={reason}>{reason}</option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="flex items-center justify-between px-3 py-3 bg-gray-50 border-t border-gray-200">
+              {hasShortfall ? (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={closeShort}
+                    onChange={(e) => setCloseShort(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span>Close order — don't expect the remaining quantity</span>
+                </label>
+              ) : <span />}
+              <span className="font-semibold text-gray-900">Invoice Total ${totalAmount.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Receiving...' : 'Receive Delivery'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiveOrderModal;
@@ -0,0 +1,343 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ClipboardList, RefreshCw, Truck, AlertTriangle, PackageCheck } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Vendor } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { buildReorderSuggestions, ReorderSuggestion } from '../../utils/reorderEngine';
+
+interface SuggestionLine extends ReorderSuggestion {
+  include: boolean;
+  quantity: number;
+  suggestedVendorId: string | null;
+}
+
+const LOOKBACK_DAYS = 30;
+const UNASSIGNED = 'unassigned';
+
+const ReorderSuggestions: React.FC = () => {
+  const [lines, setLines] = useState<SuggestionLine[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+  const navigate = useNavigate();
+
+  const fetchSuggestions = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { data: medicinesData, error: medicinesError } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .eq('is_active', true);
+
+      if (medicinesError) throw medicinesError;
+
+      const { data: saleItemsData, error: saleItemsError } = await supabase
+        .from('sale_items')
+        .select('medicine_id, quantity, sale:sales!inner (store_id, created_at)')
+        .eq('sale.store_id', currentStore.id)
+        .gte('sale.created_at', subDays(new Date(), LOOKBACK_DAYS).toISOString());
+
+      if (saleItemsError) throw saleItemsError;
+
+      const { data: purchasesData } = await supabase
+        .from('purchases')
+        .select('vendor_id, purchase_date, items:purchase_items (medicine_id)')
+        .eq('store_id', currentStore.id)
+        .order('purchase_date');
+
+      const { data: vendorsData } = await supabase
+        .from('vendors')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id)
+        .eq('is_active', true)
+        .order('name');
+
+      const unitsSold: Record<string, number> = {};
+      (saleItemsData || []).forEach((item: { medicine_id: string; quantity: number }) => {
+        unitsSold[item.medicine_id] = (unitsSold[item.medicine_id] || 0) + item.quantity;
+      });
+
+      // Purchases are in date order, so the latest vendor per batch wins
+      const lastVendors: Record<string, string> = {};
+      (purchasesData || []).forEach((purchase: { vendor_id: string; items: Array<{ medicine_id: string }> }) => {
+        purchase.items.forEach(item => {
+          lastVendors[item.medicine_id] = purchase.vendor_id;
+        });
+      });
+
+      const suggestions = buildReorderSuggestions(medicinesData || [], unitsSold, lastVendors, {
+        lookbackDays: LOOKBACK_DAYS,
+      });
+
+      setLines(suggestions.map(suggestion => ({
+        ...suggestion,
+        include: true,
+        quantity: suggestion.suggestedQuantity,
+        suggestedVendorId: suggestion.vendorId,
+      })));
+      setVendors(vendorsData || []);
+    } catch (err) {
+      console.error('Error building reorder suggestions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load reorder suggestions');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const updateLine = (key: string, changes: Partial<SuggestionLine>) => {
+    setLines(prev => prev.map(line => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const groups = lines.reduce((acc, line) => {
+    const vendorKey = line.vendorId || UNASSIGNED;
+    (acc[vendorKey] = acc[vendorKey] || []).push(line);
+    return acc;
+  }, {} as Record<string, SuggestionLine[]>);
+
+  const vendorName = (vendorId: string) =>
+    vendorId === UNASSIGNED
+      ? 'No vendor assigned'
+      : vendors.find(vendor => vendor.id === vendorId)?.name || 'Unknown vendor';
+
+  const selectedLines = lines.filter(line => line.include && line.quantity > 0);
+  const unassignedSelected = selectedLines.filter(line => !line.vendorId).length;
+
+  const handleCreateDrafts = async () => {
+    if (!currentStore || !appUser || selectedLines.length === 0) return;
+
+    if (unassignedSelected > 0) {
+      setError('Assign a vendor to every selected item before creating purchase orders.');
+      return;
+    }
+
+    setCreating(true);
+    setError('');
+
+    try {
+      const byVendor = selectedLines.reduce((acc, line) => {
+        (acc[line.vendorId as string] = acc[line.vendorId as string] || []).push(line);
+        return acc;
+      }, {} as Record<string, SuggestionLine[]>);
+
+      const stamp = format(new Date(), 'yyMMdd-HHmmss');
+      const entries = Object.entries(byVendor);
+
+      for (let index = 0; index < entries.length; index++) {
+        const [vendorId, vendorLines] = entries[index];
+
+        const { data: order, error: orderError } = await supabase
+          .from('purchase_orders')
+          .insert({
+            po_number: `PO-${currentStore.code}-${stamp}-${index + 1}`,
+            vendor_id: vendorId,
+            store_id: currentStore.id,
+            organization_id: currentStore.organization_id,
+            status: 'draft',
+            total_amount: vendorLines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0),
+            notes: 'Generated from reorder suggestions',
+            created_by: appUser.id,
+          })
+          .select()
+          .single();
+
+        if (orderError) throw orderError;
+
+        const { error: itemsError } = await supabase
+          .from('purchase_order_items')
+          .insert(vendorLines.map(line => ({
+            purchase_order_id: order.id,
+            medicine_id: line.medicineId,
+            medicine_name: line.name,
+            quantity: line.quantity,
+            unit_cost: line.unitCost,
+          })));
+
+        if (itemsError) throw itemsError;
+      }
+
+      // Remember manual vendor choices so next time the product is grouped correctly
+      for (const line of selectedLines.filter(l => l.vendorId !== l.suggestedVendorId)) {
+        const productBatches = supabase
+          .from('medicines')
+          .update({ preferred_vendor_id: line.vendorId })
+          .eq('store_id', currentStore.id);
+        const { error: vendorError } = line.productId
+          ? await productBatches.eq('product_id', line.productId)
+          : await productBatches.ilike('name', line.name);
+
+        if (vendorError) throw vendorError;
+      }
+
+      navigate('/purchase-orders');
+    } catch (err) {
+      console.error('Error creating purchase orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create purchase orders');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading && lines.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="h-64 bg-gray-200 rounded-2xl"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/purchases')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Reorder Suggestions</h1>
+            <p className="text-gray-600 mt-1">
+              Based on reorder points and the last {LOOKBACK_DAYS} days of sales at {currentStore?.name}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={fetchSuggestions}
+            disabled={loading}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Recalculate</span>
+          </button>
+          <button
+            onClick={handleCreateDrafts}
+            disabled={creating || selectedLines.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ClipboardList className="w-5 h-5" />
+            <span>{creating ? 'Creating...' : `Create Draft POs (${selectedLines.length})`}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {lines.length === 0 ? (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 text-center py-12">
+          <PackageCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to reorder</h3>
+          <p className="text-gray-600">Every product is above its reorder point for the next two weeks.</p>
+        </div>
+      ) : (
+        Object.entries(groups).map(([vendorId, groupLines]) => (
+          <div key={vendorId} className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className={`px-6 py-4 border-b flex items-center justify-between ${
+              vendorId === UNASSIGNED ? 'bg-amber-50 border-amber-200' : 'border-gray-100'
+            }`}>
+              <div className="flex items-center space-x-2">
+                <Truck className={`w-5 h-5 ${vendorId === UNASSIGNED ? 'text-amber-600' : 'text-gray-400'}`} />
+                <h3 className="text-lg font-semibold text-gray-900">{vendorName(vendorId)}</h3>
+              </div>
+              <span className="text-sm text-gray-600">
+                ${groupLines
+                  .filter(line => line.include)
+                  .reduce((sum, line) => sum + line.quantity * line.unitCost, 0)
+                  .toFixed(2)}
+              </span>
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3"></th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Medicine</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">On Hand</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">Reorder At</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">Sold / Day</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">Days Left</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Order Qty</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Vendor</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {groupLines.map((line) => (
+                  <tr key={line.key} className={line.include ? '' : 'opacity-50'}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={line.include}
+                        onChange={(e) => updateLine(line.key, { include: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{line.name}</p>
+                      <p className="text-sm text-gray-600">{line.category}</p>
+                    </td>
+                    <td className={`px-4 py-3 text-right ${line.onHand <= line.reorderPoint ? 'text-red-600 font-semibold' : 'text-gray-900'}`}>
+                      {line.onHand}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">{line.reorderPoint}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{line.dailyVelocity.toFixed(1)}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">
+                      {line.daysOfCover !== null ? Math.floor(line.daysOfCover) : '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.key, { quantity: parseInt(e.target.value) || 0 })}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Up to {line.targetLevel}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={line.vendorId || ''}
+                        onChange={(e) => updateLine(line.key, { vendorId: e.target.value || null })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="">Select vendor</option>
+                        {vendors.map((vendor) => (
+                          <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ReorderSuggestions;
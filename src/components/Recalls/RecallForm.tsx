@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
+import { Medicine, Product } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { initiateRecall } from '../../utils/recalls';
+
+interface RecallFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  products: Product[];
+  batches: Medicine[];
+}
+
+interface RecallFormData {
+  product_id: string;
+  batch_numbers: string[];
+  other_batches: string;
+  reason: string;
+  reference: string;
+}
+
+const emptyForm: RecallFormData = {
+  product_id: '',
+  batch_numbers: [],
+  other_batches: '',
+  reason: '',
+  reference: '',
+};
+
+const RecallForm: React.FC<RecallFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  products,
+  batches,
+}) => {
+  const [formData, setFormData] = useState<RecallFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
+  useEffect(() => {
+    setFormData(emptyForm);
+    setError('');
+  }, [isOpen]);
+
+  // Batch numbers held for the product, totalled across stores
+  const knownBatches = batches
+    .filter(batch => batch.product_id === formData.product_id)
+    .reduce((acc, batch) => {
+      const entry = acc.find(item => item.batch_no === batch.batch_no);
+      if (entry) {
+        entry.quantity += batch.quantity;
+        if (batch.store_id && !entry.stores.includes(batch.store_id)) entry.stores.push(batch.store_id);
+      } else {
+        acc.push({
+          batch_no: batch.batch_no,
+          expiry_date: batch.expiry_date,
+          quantity: batch.quantity,
+          stores: batch.store_id ? [batch.store_id] : [],
+        });
+      }
+      return acc;
+    }, [] as Array<{ batch_no: string; expiry_date: string; quantity: number; stores: string[] }>)
+    .sort((a, b) => a.batch_no.localeCompare(b.batch_no));
+
+  const toggleBatch = (batchNo: string) => {
+    setFormData(prev => ({
+      ...prev,
+      batch_numbers: prev.batch_numbers.includes(batchNo)
+        ? prev.batch_numbers.filter(item => item !== batchNo)
+        : [...prev.batch_numbers, batchNo],
+    }));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+      ...(name === 'product_id' && { batch_numbers: [] }),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const product = products.find(item => item.id === formData.product_id);
+    const batchNumbers = Array.from(new Set([
+      ...formData.batch_numbers,
+      ...formData.other_batches.split(',').map(item => item.trim()).filter(Boolean),
+    ]));
+
+    if (!product || !appUser || !currentStore) return;
+
+    if (batchNumbers.length === 0) {
+      setError('Select or enter at least one batch number.');
+      return;
+    }
+
+    if (!confirm(
+      `Recall ${product.name} batch ${batchNumbers.join(', ')}? ` +
+      'Matching stock will be quarantined in every store and cannot be sold.'
+    )) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      await initiateRecall({
+        organizationId: currentStore.organization_id,
+        product,
+        batchNumbers,
+        reason: formData.reason,
+        reference: formData.reference,
+        userId: appUser.id,
+      });
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error initiating recall:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">New Batch Recall</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="product_id" className="block text-sm font-medium text-gray-700 mb-2">
+              Product *
+            </label>
+            <select
+              id="product_id"
+              name="product_id"
+              value={formData.product_id}
+              onChange={handleInputChange}
+              className={inputClassName}
+              required
+            >
+              <option value="">Select a product</option>
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}{product.manufacturer ? ` (${product.manufacturer})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formData.product_id && (
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Batches *</p>
+              {knownBatches.length > 0 ? (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-56 overflow-y-auto">
+                  {knownBatches.map((batch) => (
+                    <label key={batch.batch_no} className="flex items-center justify-between px-4 py-3 cursor-pointer hover:bg-gray-50">
+                      <div className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={formData.batch_numbers.includes(batch.batch_no)}
+                          onChange={() => toggleBatch(batch.batch_no)}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <div>
+                          <p className="font-mono text-sm text-gray-900">{batch.batch_no}</p>
+                          <p className="text-xs text-gray-600">
+                            Exp {format(new Date(batch.expiry_date), 'MMM dd, yyyy')}
+                          </p>
+                        </div>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {batch.quantity} units • {batch.stores.length} {batch.stores.length === 1 ? 'store' : 'stores'}
+                      </p>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">No batches of this product are in stock.</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="other_batches" className="block text-sm font-medium text-gray-700 mb-2">
+              Other Batch Numbers
+            </label>
+            <input
+              type="text"
+              id="other_batches"
+              name="other_batches"
+              value={formData.other_batches}
+              onChange={handleInputChange}
+              className={inputClassName}
+              placeholder="Comma-separated, for batches already sold out"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-2">
+                Reason *
+              </label>
+              <input
+                type="text"
+                id="reason"
+                name="reason"
+                value={formData.reason}
+                onChange={handleInputChange}
+                className={inputClassName}
+                placeholder="e.g. Contamination, mislabelling"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="reference" className="block text-sm font-medium text-gray-700 mb-2">
+                Manufacturer Reference
+              </label>
+              <input
+                type="text"
+                id="reference"
+                name="reference"
+                value={formData.reference}
+                onChange={handleInputChange}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <ShieldAlert className="w-5 h-5" />
+              <span>{loading ? 'Recalling...' : 'Recall and Quarantine'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RecallForm;
@@ -0,0 +1,419 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Plus,
+  ShieldAlert,
+  Package,
+  Users,
+  Download,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { BatchRecall, Medicine, Product } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { closeRecall, RecallTrace, summarizeRecall, traceRecall } from '../../utils/recalls';
+import RecallForm from './RecallForm';
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const RecallList: React.FC = () => {
+  const [recalls, setRecalls] = useState<BatchRecall[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [batches, setBatches] = useState<Medicine[]>([]);
+  const [traces, setTraces] = useState<Record<string, RecallTrace>>({});
+  const [loading, setLoading] = useState(true);
+  const [tracing, setTracing] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const { currentStore, stores } = useStoreContext();
+
+  const fetchData = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: recallsData, error: recallsError } = await supabase
+        .from('batch_recalls')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id)
+        .order('created_at', { ascending: false });
+
+      if (recallsError) throw recallsError;
+
+      const { data: productsData } = await supabase
+        .from('products')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id)
+        .order('name');
+
+      const { data: batchesData } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id);
+
+      setRecalls(recallsData || []);
+      setProducts(productsData || []);
+      setBatches(batchesData || []);
+      setTraces({});
+    } catch (error) {
+      console.error('Error fetching recalls:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const storeName = (storeId?: string) =>
+    stores.find(store => store.id === storeId)?.name || 'Unknown store';
+
+  const handleExpand = async (recall: BatchRecall) => {
+    if (expandedId === recall.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(recall.id);
+    if (traces[recall.id]) return;
+
+    try {
+      setTracing(recall.id);
+      const trace = await traceRecall(recall);
+      setTraces(prev => ({ ...prev, [recall.id]: trace }));
+    } catch (error) {
+      console.error('Error tracing recall:', error);
+      alert('Error loading recall report');
+    } finally {
+      setTracing(null);
+    }
+  };
+
+  const handleClose = async (recall: BatchRecall) => {
+    if (!confirm(`Close the recall for ${recall.product_name}? Quarantined stock stays blocked from sale.`)) return;
+
+    try {
+      await closeRecall(recall);
+      fetchData();
+    } catch (error) {
+      console.error('Error closing recall:', error);
+      alert('Error closing recall');
+    }
+  };
+
+  const exportRecallReport = (recall: BatchRecall, trace: RecallTrace) => {
+    const csvData = [
+      ['Recall', recall.product_name, recall.batch_numbers.join(' '), recall.reason, recall.reference || ''],
+      [],
+      ['Type', 'Store', 'Batch', 'Quantity', 'Invoice', 'Date', 'Patient', 'Phone'],
+      ...trace.batches.map(batch => [
+        'Quarantined stock',
+        storeName(batch.store_id),
+        batch.batch_no,
+        batch.quantity,
+        '',
+        '',
+        '',
+        '',
+      ]),
+      ...trace.sales.map(({ item, sale }) => [
+        'Dispensed',
+        storeName(sale.store_id),
+        item.batch_no || '',
+        item.quantity,
+        sale.invoice_no,
+        format(new Date(sale.created_at), 'yyyy-MM-dd'),
+        sale.patient?.name || 'Walk-in Customer',
+        sale.patient?.phone || '',
+      ]),
+    ];
+
+    const csvString = csvData.map(row => row.map(csvCell).join(',')).join('\n');
+    const blob = new Blob([csvString], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `recall-${recall.product_name.replace(/\s+/g, '-').toLowerCase()}-${format(new Date(recall.created_at), 'yyyy-MM-dd')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const activeRecalls = recalls.filter(recall => recall.status === 'active');
+  const quarantinedUnits = batches
+    .filter(batch => batch.quarantined)
+    .reduce((sum, batch) => sum + batch.quantity, 0);
+
+  if (loading && recalls.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Batch Recalls</h1>
+          <p className="text-gray-600 mt-1">Quarantine recalled batches and trace the patients who received them</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>New Recall</span>
+        </button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Active Recalls</p>
+              <p className="text-3xl font-bold text-red-600 mt-1">{activeRecalls.length}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-gradient-to-r from-red-100 to-pink-100">
+              <ShieldAlert className="w-8 h-8 text-red-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Quarantined Units</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">{quarantinedUnits}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-gradient-to-r from-orange-100 to-red-100">
+              <Package className="w-8 h-8 text-orange-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Closed Recalls</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">{recalls.length - activeRecalls.length}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-gradient-to-r from-green-100 to-emerald-100">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Recalls Table */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {recalls.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Product</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Batches</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Reason</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Initiated</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {recalls.map((recall) => {
+                const trace = traces[recall.id];
+                const summary = trace ? summarizeRecall(trace) : null;
+
+                return (
+                  <React.Fragment key={recall.id}>
+                    <tr
+                      onClick={() => handleExpand(recall)}
+                      className="hover:bg-gray-50 transition-colors cursor-pointer"
+                    >
+                      <td className="px-6 py-4 font-medium text-gray-900">
+                        <div className="flex items-center space-x-2">
+                          {expandedId === recall.id ? (
+                            <ChevronDown className="w-4 h-4 text-gray-400" />
+                          ) : (
+                            <ChevronRight className="w-4 h-4 text-gray-400" />
+                          )}
+                          <span>{recall.product_name}</span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 font-mono text-sm text-gray-900">{recall.batch_numbers.join(', ')}</td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {recall.reason}
+                        {recall.reference && <span className="block text-xs">Ref {recall.reference}</span>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {format(new Date(recall.created_at), 'MMM dd, yyyy')}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                          recall.status === 'active' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {recall.status === 'active' ? 'Active' : 'Closed'}
+                        </span>
+                      </td>
+                    </tr>
+                    {expandedId === recall.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-6 py-4">
+                          {tracing === recall.id || !trace || !summary ? (
+                            <p className="text-sm text-gray-600">Tracing batches and sales...</p>
+                          ) : (
+                            <div className="space-y-4">
+                              <div className="flex flex-wrap items-center justify-between gap-4">
+                                <div className="flex flex-wrap gap-6 text-sm">
+                                  <span><strong>{summary.quarantinedUnits}</strong> units quarantined</span>
+                                  <span><strong>{summary.soldUnits}</strong> units dispensed</span>
+                                  <span><strong>{summary.storeIds.length}</strong> stores affected</span>
+                                  <span><strong>{summary.patients.length}</strong> patients to contact</span>
+                                  {summary.walkInUnits > 0 && (
+                                    <span className="text-amber-700">{summary.walkInUnits} units sold to walk-in customers</span>
+                                  )}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                  <button
+                                    onClick={() => exportRecallReport(recall, trace)}
+                                    className="flex items-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
+                                  >
+                                    <Download className="w-4 h-4" />
+                                    <span>Export Report</span>
+                                  </button>
+                                  {recall.status === 'active' && (
+                                    <button
+                                      onClick={() => handleClose(recall)}
+                                      className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+                                    >
+                                      Close Recall
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+
+                              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                                  <h4 className="font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+                                    <Package className="w-4 h-4 text-gray-500" />
+                                    <span>Quarantined Stock</span>
+                                  </h4>
+                                  {trace.batches.length > 0 ? (
+                                    <table className="w-full text-sm">
+                                      <tbody>
+                                        {trace.batches.map((batch) => (
+                                          <tr key={batch.id} className="text-gray-900">
+                                            <td className="py-1">{storeName(batch.store_id)}</td>
+                                            <td className="py-1 font-mono">{batch.batch_no}</td>
+                                            <td className="py-1 text-right">{batch.quantity}</td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  ) : (
+                                    <p className="text-sm text-gray-600">No stock of these batches is held.</p>
+                                  )}
+                                </div>
+
+                                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                                  <h4 className="font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+                                    <Users className="w-4 h-4 text-gray-500" />
+                                    <span>Affected Patients</span>
+                                  </h4>
+                                  {summary.patients.length > 0 ? (
+                                    <table className="w-full text-sm">
+                                      <tbody>
+                                        {summary.patients.map(({ patient, units, invoices, lastDispensed }) => (
+                                          <tr key={patient.id} className="text-gray-900">
+                                            <td className="py-1">
+                                              {patient.name}
+                                              <span className="block text-xs text-gray-600">{patient.phone}</span>
+                                            </td>
+                                            <td className="py-1 text-gray-600">{invoices.map(invoice => `#${invoice}`).join(', ')}</td>
+                                            <td className="py-1 text-gray-600">{format(new Date(lastDispensed), 'MMM dd, yyyy')}</td>
+                                            <td className="py-1 text-right">{units}</td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  ) : (
+                                    <p className="text-sm text-gray-600">No registered patients received these batches.</p>
+                                  )}
+                                </div>
+                              </div>
+
+                              {trace.sales.length > 0 && (
+                                <table className="w-full text-sm">
+                                  <thead>
+                                    <tr className="text-gray-600">
+                                      <th className="py-2 text-left font-medium">Invoice</th>
+                                      <th className="py-2 text-left font-medium">Date</th>
+                                      <th className="py-2 text-left font-medium">Store</th>
+                                      <th className="py-2 text-left font-medium">Patient</th>
+                                      <th className="py-2 text-left font-medium">Batch</th>
+                                      <th className="py-2 text-right font-medium">Qty</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {trace.sales.map(({ item, sale }) => (
+                                      <tr key={item.id} className="text-gray-900">
+                                        <td className="py-1">#{sale.invoice_no}</td>
+                                        <td className="py-1">{format(new Date(sale.created_at), 'MMM dd, yyyy')}</td>
+                                        <td className="py-1">{storeName(sale.store_id)}</td>
+                                        <td className="py-1">{sale.patient?.name || 'Walk-in Customer'}</td>
+                                        <td className="py-1 font-mono">{item.batch_no}</td>
+                                        <td className="py-1 text-right">{item.quantity}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No recalls</h3>
+            <p className="text-gray-600">Start a recall when a manufacturer withdraws a batch.</p>
+          </div>
+        )}
+      </div>
+
+      <RecallForm
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        onSuccess={fetchData}
+        products={products}
+        batches={batches}
+      />
+    </div>
+  );
+};
+
+export default RecallList;
@@ -15,22 +15,11 @@ import {
   Layers,
   Target,
 } from 'lucide-react';
-
-interface ReportField {
-  id: string;
-  name: string;
-  type: 'dimension' | 'metric';
-  dataType: 'string' | 'number' | 'date';
-  table: string;
-}
-
-interface ReportFilter {
-  id: string;
-  field: string;
-  operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'between';
-  value: string | number;
-  value2?: string | number;
-}
+import { format } from 'date-fns';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { ReportField, ReportFilter, runCustomReport } from '../../utils/customReports';
+import { xlsxFile } from '../../utils/xlsx';
+import { downloadFile } from '../../utils/download';
 
 interface CustomReport {
   id: string;
@@ -67,11 +56,14 @@ const CustomReportBuilder: React.FC = () => {
 
   const [activeStep, setActiveStep] = useState(1);
   const [showPreview, setShowPreview] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const { currentStore } = useStoreContext();
 
   const availableFields: ReportField[] = [
     // Sales fields
     { id: 'sales.created_at', name: 'Sale Date', type: 'dimension', dataType: 'date', table: 'sales' },
-    { id: 'sales.total_amount', name: 'Sale Amount', type: 'metric', dataType: 'number', table: 'sales' },
+    { id: 'sales.total_amount', name: 'Sale Amount', type: 'metric', dataType: 'currency', table: 'sales' },
     { id: 'sales.payment_method', name: 'Payment Method', type: 'dimension', dataType: 'string', table: 'sales' },
     { id: 'sales.payment_status', name: 'Payment Status', type: 'dimension', dataType: 'string', table: 'sales' },
     
@@ -79,7 +71,7 @@ const CustomReportBuilder: React.FC = () => {
     { id: 'medicines.name', name: 'Medicine Name', type: 'dimension', dataType: 'string', table: 'medicines' },
     { id: 'medicines.category', name: 'Medicine Category', type: 'dimension', dataType: 'string', table: 'medicines' },
     { id: 'medicines.quantity', name: 'Stock Quantity', type: 'metric', dataType: 'number', table: 'medicines' },
-    { id: 'medicines.price', name: 'Medicine Price', type: 'metric', dataType: 'number', table: 'medicines' },
+    { id: 'medicines.price', name: 'Medicine Price', type: 'metric', dataType: 'currency', table: 'medicines' },
     
     // Patient fields
     { id: 'patients.name', name: 'Patient Name', type: 'dimension', dataType: 'string', table: 'patients' },
@@ -170,6 +162,36 @@ const CustomReportBuilder: React.FC = () => {
     return availableFields.find(f => f.id === fieldId);
   };
 
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const result = await runCustomReport(report, availableFields, currentStore?.id);
+      const name = report.name.trim() || 'Custom Report';
+      const period = report.dateRange.start || report.dateRange.end
+        ? `${report.dateRange.start || 'Start'} to ${report.dateRange.end || 'today'}`
+        : 'All dates';
+
+      const file = await xlsxFile([{
+        name,
+        title: name,
+        subtitle: [report.description.trim(), period, currentStore?.name].filter(Boolean).join(' | '),
+        columns: result.columns.map(column => ({
+          header: column.name,
+          type: column.dataType === 'string' ? 'text' : column.dataType,
+          total: column.total ? 'SUM' : undefined,
+        })),
+        rows: result.rows,
+      }], `${name.replace(/\s+/g, '-').toLowerCase()}-${format(new Date(), 'yyyy-MM-dd')}.xlsx`);
+
+      downloadFile(file);
+    } catch (error) {
+      console.error('Error exporting custom report:', error);
+      alert(error instanceof Error ? error.message : 'Error exporting the report. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const steps = [
     { id: 1, name: 'Basic Info', icon: Settings },
     { id: 2, name: 'Data Selection', icon: Database },
@@ -632,9 +654,13 @@ const CustomReportBuilder: React.FC = () => {
                 <Save className="w-4 h-4" />
                 <span>Save Report</span>
               </button>
-              <button className="flex items-center space-x-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+              <button
+                onClick={handleExport}
+                disabled={exporting}
+                className="flex items-center space-x-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
                 <Download className="w-4 h-4" />
-                <span>Export</span>
+                <span>{exporting ? 'Exporting...' : 'Export to Excel'}</span>
               </button>
             </>
           ) : (
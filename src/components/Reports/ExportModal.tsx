@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
 import { X, Download, FileText, Table, BarChart3, Calendar } from 'lucide-react';
 import { format } from 'date-fns';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { addHeading, addSummary, addTable, createPdf, fetchBranding, pdfFile } from '../../utils/pdf';
+import { downloadFile } from '../../utils/download';
+import { xlsxCellRef, xlsxFile, XlsxSheet } from '../../utils/xlsx';
 
 interface ExportModalProps {
   onClose: () => void;
@@ -26,19 +31,19 @@ const ExportModal: React.FC<ExportModalProps> = ({
   });
   const [loading, setLoading] = useState(false);
 
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
   const handleExport = async () => {
     setLoading(true);
     
     try {
-      // Simulate export process
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
       if (exportType === 'csv') {
         exportToCSV();
       } else if (exportType === 'excel') {
-        exportToExcel();
+        await exportToExcel();
       } else {
-        exportToPDF();
+        await exportToPDF();
       }
       
       onClose();
@@ -57,6 +62,8 @@ const ExportModal: React.FC<ExportModalProps> = ({
       csvData.push(['Summary Report']);
       csvData.push(['Date Range', getDateRangeText()]);
       csvData.push(['Total Revenue', `$${data.totalRevenue.toFixed(2)}`]);
+      csvData.push(['Total Expenses', `$${data.totalExpenses.toFixed(2)}`]);
+      csvData.push(['Net Profit', `$${data.netProfit.toFixed(2)}`]);
       csvData.push(['Total Sales', data.totalSales]);
       csvData.push(['Total Medicines', data.totalMedicines]);
       csvData.push(['Total Users', data.totalUsers]);
@@ -96,127 +103,171 @@ const ExportModal: React.FC<ExportModalProps> = ({
     window.URL.revokeObjectURL(url);
   };
 
-  const exportToExcel = () => {
-    // For demo purposes, we'll export as CSV with .xlsx extension
-    // In a real app, you'd use a library like xlsx or exceljs
-    exportToCSV();
-  };
+  const exportToExcel = async () => {
+    const subtitle = `Period: ${getDateRangeText()} | Generated on ${format(new Date(), 'MMMM dd, yyyy')}`;
+    const sheets: XlsxSheet[] = [];
 
-  const exportToPDF = () => {
-    // For demo purposes, we'll create a simple HTML report
-    // In a real app, you'd use a library like jsPDF or Puppeteer
-    const reportHTML = generateReportHTML();
-    
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(reportHTML);
-      printWindow.document.close();
-      printWindow.print();
+    if (exportData.summary) {
+      const title = 'Pharmacy Analytics Report';
+      sheets.push({
+        name: 'Summary',
+        title,
+        subtitle,
+        columns: [{ header: 'Metric', width: 24 }, { header: 'Value', width: 18 }],
+        rows: [
+          ['Total Revenue', { value: data.totalRevenue, type: 'currency' }],
+          ['Total Expenses', { value: data.totalExpenses, type: 'currency' }],
+          // Revenue minus expenses, so the figure follows any edits to either
+          ['Net Profit', { formula: `${xlsxCellRef({ title }, 0, 1)}-${xlsxCellRef({ title }, 1, 1)}`, type: 'currency' }],
+          ['Total Sales', { value: data.totalSales, type: 'integer' }],
+          ['Total Medicines', { value: data.totalMedicines, type: 'integer' }],
+          ['Total Users', { value: data.totalUsers, type: 'integer' }],
+        ],
+      });
+    }
+
+    if (exportData.sales) {
+      sheets.push({
+        name: 'Sales',
+        title: 'Daily Sales',
+        subtitle,
+        columns: [
+          { header: 'Date', type: 'date' },
+          { header: 'Sales', type: 'integer', total: 'SUM' },
+          { header: 'Amount', type: 'currency', total: 'SUM' },
+        ],
+        rows: data.dailySales.map((sale: { date: string; count: number; amount: number }) => [sale.date, sale.count, sale.amount]),
+      });
+    }
+
+    if (exportData.medicines) {
+      sheets.push({
+        name: 'Top Medicines',
+        title: 'Top Performing Medicines',
+        subtitle,
+        columns: [
+          { header: 'Medicine' },
+          { header: 'Units Sold', type: 'integer', total: 'SUM' },
+          { header: 'Revenue', type: 'currency', total: 'SUM' },
+        ],
+        rows: data.topMedicines.map((medicine: { name: string; sales: number; revenue: number }) => [
+          medicine.name,
+          medicine.sales,
+          medicine.revenue,
+        ]),
+      });
+    }
+
+    if (exportData.inventory) {
+      sheets.push({
+        name: 'Inventory',
+        title: 'Inventory by Category',
+        subtitle: `As of ${format(new Date(), 'MMMM dd, yyyy')}`,
+        columns: [
+          { header: 'Category' },
+          { header: 'Units in Stock', type: 'integer', total: 'SUM' },
+          { header: 'Stock Value', type: 'currency', total: 'SUM' },
+        ],
+        rows: data.inventoryByCategory.map((category: { category: string; count: number; value: number }) => [
+          category.category,
+          category.count,
+          category.value,
+        ]),
+      });
     }
+
+    if (exportData.transactions) {
+      sheets.push({
+        name: 'Transactions',
+        title: 'Recent Transactions',
+        subtitle,
+        columns: [
+          { header: 'Invoice' },
+          { header: 'Customer' },
+          { header: 'Amount', type: 'currency', total: 'SUM' },
+          { header: 'Status' },
+          { header: 'Date', type: 'datetime' },
+        ],
+        rows: data.recentTransactions.map((transaction: {
+          invoice_no: string;
+          patients?: { name: string } | null;
+          total_amount: number;
+          payment_status: string;
+          created_at: string;
+        }) => [
+          transaction.invoice_no,
+          transaction.patients?.name || 'Walk-in Customer',
+          transaction.total_amount,
+          transaction.payment_status,
+          new Date(transaction.created_at),
+        ]),
+      });
+    }
+
+    if (sheets.length === 0) return;
+    downloadFile(await xlsxFile(sheets, `pharmacy-report-${format(new Date(), 'yyyy-MM-dd')}.xlsx`));
   };
 
-  const generateReportHTML = () => {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Pharmacy Analytics Report</title>
-        <style>
-          body { font-family: Arial, sans-serif; margin: 20px; }
-          .header { text-align: center; margin-bottom: 30px; }
-          .section { margin-bottom: 30px; }
-          .stats-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 20px; margin-bottom: 20px; }
-          .stat-card { border: 1px solid #ddd; padding: 15px; border-radius: 8px; }
-          table { width: 100%; border-collapse: collapse; margin-top: 10px; }
-          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-          th { background-color: #f5f5f5; }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <h1>RxSmart Pharmacy Analytics Report</h1>
-          <p>Generated on ${format(new Date(), 'MMMM dd, yyyy')}</p>
-          <p>Period: ${getDateRangeText()}</p>
-        </div>
-        
-        ${exportData.summary ? `
-        <div class="section">
-          <h2>Summary</h2>
-          <div class="stats-grid">
-            <div class="stat-card">
-              <h3>Total Revenue</h3>
-              <p>$${data.totalRevenue.toFixed(2)}</p>
-            </div>
-            <div class="stat-card">
-              <h3>Total Sales</h3>
-              <p>${data.totalSales}</p>
-            </div>
-            <div class="stat-card">
-              <h3>Total Medicines</h3>
-              <p>${data.totalMedicines}</p>
-            </div>
-            <div class="stat-card">
-              <h3>Total Users</h3>
-              <p>${data.totalUsers}</p>
-            </div>
-          </div>
-        </div>
-        ` : ''}
-        
-        ${exportData.medicines && data.topMedicines.length > 0 ? `
-        <div class="section">
-          <h2>Top Performing Medicines</h2>
-          <table>
-            <thead>
-              <tr>
-                <th>Medicine</th>
-                <th>Units Sold</th>
-                <th>Revenue</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${data.topMedicines.slice(0, 10).map((medicine: any) => `
-                <tr>
-                  <td>${medicine.name}</td>
-                  <td>${medicine.sales}</td>
-                  <td>$${medicine.revenue.toFixed(2)}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-        </div>
-        ` : ''}
-        
-        ${exportData.transactions && data.recentTransactions.length > 0 ? `
-        <div class="section">
-          <h2>Recent Transactions</h2>
-          <table>
-            <thead>
-              <tr>
-                <th>Invoice</th>
-                <th>Customer</th>
-                <th>Amount</th>
-                <th>Status</th>
-                <th>Date</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${data.recentTransactions.map((transaction: any) => `
-                <tr>
-                  <td>#${transaction.invoice_no}</td>
-                  <td>${transaction.patients?.name || 'Walk-in Customer'}</td>
-                  <td>$${transaction.total_amount.toFixed(2)}</td>
-                  <td>${transaction.payment_status}</td>
-                  <td>${format(new Date(transaction.created_at), 'MMM dd, yyyy')}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-        </div>
-        ` : ''}
-      </body>
-      </html>
-    `;
+  const exportToPDF = async () => {
+    const branding = await fetchBranding(appUser?.organization_id, currentStore);
+    const { doc, y } = createPdf(branding, {
+      title: 'Analytics Report',
+      subtitle: [`Period: ${getDateRangeText()}`, `Generated on ${format(new Date(), 'MMMM dd, yyyy')}`],
+    });
+    let cursor = y;
+
+    if (exportData.summary) {
+      cursor = addHeading(doc, cursor, 'Summary');
+      cursor = addSummary(doc, cursor, [
+        ['Total Revenue', `$${data.totalRevenue.toFixed(2)}`],
+        ['Total Sales', String(data.totalSales)],
+        ['Total Expenses', `$${data.totalExpenses.toFixed(2)}`],
+        ['Total Medicines', String(data.totalMedicines)],
+        ['Net Profit', `$${data.netProfit.toFixed(2)}`],
+        ['Total Users', String(data.totalUsers)],
+      ]);
+    }
+
+    if (exportData.sales && data.dailySales.length > 0) {
+      cursor = addHeading(doc, cursor, 'Daily Sales');
+      cursor = addTable(doc, cursor, {
+        head: ['Date', 'Sales', 'Amount'],
+        body: data.dailySales.map((sale: { date: string; count: number; amount: number }) => [sale.date, sale.count, `$${sale.amount.toFixed(2)}`]),
+        columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+      });
+    }
+
+    if (exportData.medicines && data.topMedicines.length > 0) {
+      cursor = addHeading(doc, cursor, 'Top Performing Medicines');
+      cursor = addTable(doc, cursor, {
+        head: ['Medicine', 'Units Sold', 'Revenue'],
+        body: data.topMedicines.map((medicine: { name: string; sales: number; revenue: number }) => [medicine.name, medicine.sales, `$${medicine.revenue.toFixed(2)}`]),
+        columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+      });
+    }
+
+    if (exportData.transactions && data.recentTransactions.length > 0) {
+      cursor = addHeading(doc, cursor, 'Recent Transactions');
+      addTable(doc, cursor, {
+        head: ['Invoice', 'Customer', 'Amount', 'Status', 'Date'],
+        body: data.recentTransactions.map((transaction: {
+          invoice_no: string;
+          patients?: { name: string } | null;
+          total_amount: number;
+          payment_status: string;
+          created_at: string;
+        }) => [
+          `#${transaction.invoice_no}`,
+          transaction.patients?.name || 'Walk-in Customer',
+          `$${transaction.total_amount.toFixed(2)}`,
+          transaction.payment_status,
+          format(new Date(transaction.created_at), 'MMM dd, yyyy'),
+        ]),
+        columnStyles: { 2: { halign: 'right' } },
+      });
+    }
+
+    downloadFile(pdfFile(doc, branding, `pharmacy-report-${format(new Date(), 'yyyy-MM-dd')}.pdf`));
   };
 
   const getDateRangeText = () => {
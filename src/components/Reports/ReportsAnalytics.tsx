@@ -16,10 +16,14 @@ import {
   ShoppingCart,
   AlertTriangle,
   Clock,
+  Wallet,
+  PiggyBank,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { format, subDays, startOfDay, endOfDay, startOfWeek, startOfMonth, endOfWeek, endOfMonth } from 'date-fns';
 import { useRealtimeData } from '../../hooks/useRealtimeData';
+import { Medicine, Payment, Product } from '../../types';
+import { groupBatchesByProduct, isProductLowStock } from '../../utils/productCatalogue';
 import SalesChart from './charts/SalesChart';
 import RevenueChart from './charts/RevenueChart';
 import InventoryChart from './charts/InventoryChart';
@@ -29,6 +33,8 @@ import ExportModal from './ExportModal';
 
 interface AnalyticsData {
   totalRevenue: number;
+  totalExpenses: number;
+  netProfit: number;
   totalSales: number;
   totalMedicines: number;
   totalUsers: number;
@@ -42,6 +48,7 @@ interface AnalyticsData {
   topMedicines: Array<{ name: string; sales: number; revenue: number }>;
   inventoryByCategory: Array<{ category: string; count: number; value: number }>;
   userActivity: Array<{ date: string; logins: number; registrations: number }>;
+  expensesByCategory: Array<{ category: string; amount: number }>;
   recentTransactions: Array<any>;
 }
 
@@ -51,6 +58,8 @@ type ChartType = 'sales' | 'revenue' | 'inventory' | 'medicines' | 'activity';
 const ReportsAnalytics: React.FC = () => {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData>({
     totalRevenue: 0,
+    totalExpenses: 0,
+    netProfit: 0,
     totalSales: 0,
     totalMedicines: 0,
     totalUsers: 0,
@@ -64,6 +73,7 @@ const ReportsAnalytics: React.FC = () => {
     topMedicines: [],
     inventoryByCategory: [],
     userActivity: [],
+    expensesByCategory: [],
     recentTransactions: [],
   });
 
@@ -91,19 +101,29 @@ const ReportsAnalytics: React.FC = () => {
     cacheKey: 'analytics_sales',
   });
 
-  const { data: medicines } = useRealtimeData({
+  const { data: medicines } = useRealtimeData<Medicine>({
     table: 'medicines',
     cacheKey: 'analytics_medicines',
   });
 
+  const { data: products } = useRealtimeData<Product>({
+    table: 'products',
+    cacheKey: 'analytics_products',
+  });
+
   const { data: users } = useRealtimeData({
     table: 'users',
     cacheKey: 'analytics_users',
   });
 
+  const { data: payments } = useRealtimeData<Payment>({
+    table: 'payments',
+    cacheKey: 'analytics_payments',
+  });
+
   useEffect(() => {
     fetchAnalyticsData();
-  }, [dateRange, customDateRange, sales, medicines, users]);
+  }, [dateRange, customDateRange, sales, medicines, products, users, payments]);
 
   const getDateRangeFilter = () => {
     const now = new Date();
@@ -140,9 +160,17 @@ const ReportsAnalytics: React.FC = () => {
       });
 
       // Calculate basic metrics
-      const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.total_amount, 0);
+      const totalRevenue = filteredSales.reduce<number>((sum, sale) => sum + sale.total_amount, 0);
       const totalSalesCount = filteredSales.length;
 
+      // Calculate expenses from the payments ledger
+      const filteredExpenses = payments.filter(payment => {
+        const paymentDate = new Date(payment.payment_date || payment.created_at);
+        return payment.type === 'expense' && paymentDate >= start && paymentDate <= end;
+      });
+      const totalExpenses = filteredExpenses.reduce((sum, payment) => sum + payment.amount, 0);
+      const expensesByCategory = calculateExpensesByCategory(filteredExpenses);
+
       // Calculate growth rates (compare with previous period)
       const periodDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
       const previousStart = subDays(start, periodDays);
@@ -153,20 +181,21 @@ const ReportsAnalytics: React.FC = () => {
         return saleDate >= previousStart && saleDate < previousEnd;
       });
 
-      const previousRevenue = previousSales.reduce((sum, sale) => sum + sale.total_amount, 0);
+      const previousRevenue = previousSales.reduce<number>((sum, sale) => sum + sale.total_amount, 0);
       const previousSalesCount = previousSales.length;
 
       const revenueGrowth = previousRevenue > 0 ? ((totalRevenue - previousRevenue) / previousRevenue) * 100 : 0;
       const salesGrowth = previousSalesCount > 0 ? ((totalSalesCount - previousSalesCount) / previousSalesCount) * 100 : 0;
 
-      // Calculate inventory metrics
-      const lowStockMedicines = medicines.filter(med => med.quantity <= med.min_stock_level);
-      const expiringMedicines = medicines.filter(med => {
+      // Calculate inventory metrics per product, totalled across its batches and stores
+      const productStock = groupBatchesByProduct(medicines, products);
+      const lowStockMedicines = productStock.filter(isProductLowStock);
+      const expiringMedicines = productStock.filter(stock => stock.batches.some(med => {
         const expiryDate = new Date(med.expiry_date);
         const thirtyDaysFromNow = new Date();
         thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-        return expiryDate <= thirtyDaysFromNow;
-      });
+        return med.quantity > 0 && expiryDate <= thirtyDaysFromNow;
+      }));
 
       // Generate daily sales data
       const dailySales = generateDailySalesData(filteredSales, start, end);
@@ -189,8 +218,10 @@ const ReportsAnalytics: React.FC = () => {
 
       setAnalyticsData({
         totalRevenue,
+        totalExpenses,
+        netProfit: totalRevenue - totalExpenses,
         totalSales: totalSalesCount,
-        totalMedicines: medicines.length,
+        totalMedicines: productStock.length,
         totalUsers: users.length,
         revenueGrowth,
         salesGrowth,
@@ -202,6 +233,7 @@ const ReportsAnalytics: React.FC = () => {
         topMedicines,
         inventoryByCategory,
         userActivity,
+        expensesByCategory,
         recentTransactions,
       });
     } catch (error) {
@@ -211,6 +243,18 @@ const ReportsAnalytics: React.FC = () => {
     }
   };
 
+  const calculateExpensesByCategory = (expenseData: Payment[]) => {
+    const categories = new Map<string, number>();
+
+    expenseData.forEach(payment => {
+      categories.set(payment.category, (categories.get(payment.category) || 0) + payment.amount);
+    });
+
+    return Array.from(categories.entries())
+      .map(([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount);
+  };
+
   const generateDailySalesData = (salesData: any[], start: Date, end: Date) => {
     const days = [];
     const current = new Date(start);
@@ -478,6 +522,49 @@ const ReportsAnalytics: React.FC = () => {
         />
       </div>
 
+      {/* Profit & Loss */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <StatCard
+          title="Total Expenses"
+          value={`$${analyticsData.totalExpenses.toFixed(2)}`}
+          icon={<Wallet className="w-8 h-8 text-white" />}
+          color="bg-gradient-to-r from-red-500 to-pink-600"
+          subtitle="Purchases and operating costs"
+        />
+        <StatCard
+          title="Net Profit"
+          value={`${analyticsData.netProfit < 0 ? '-' : ''}$${Math.abs(analyticsData.netProfit).toFixed(2)}`}
+          icon={<PiggyBank className="w-8 h-8 text-white" />}
+          color={analyticsData.netProfit >= 0
+            ? 'bg-gradient-to-r from-teal-500 to-cyan-600'
+            : 'bg-gradient-to-r from-gray-500 to-gray-600'}
+          subtitle="Revenue less expenses"
+        />
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-sm font-medium text-gray-600 mb-3">Expenses by Category</p>
+          {analyticsData.expensesByCategory.length > 0 ? (
+            <div className="space-y-2">
+              {analyticsData.expensesByCategory.slice(0, 5).map((item) => (
+                <div key={item.category}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{item.category}</span>
+                    <span className="font-medium text-gray-900">${item.amount.toFixed(2)}</span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-1.5 mt-1">
+                    <div
+                      className="bg-red-500 h-1.5 rounded-full"
+                      style={{ width: `${(item.amount / analyticsData.totalExpenses) * 100}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No expenses recorded in this period</p>
+          )}
+        </div>
+      </div>
+
       {/* Alert Cards */}
       {(analyticsData.lowStockCount > 0 || analyticsData.expiringCount > 0) && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Tag } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { PrescriptionItem, Sale, SaleItem } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { useLocalStorage } from '../../hooks/useLocalStorage';
+import {
+  initialsOf,
+  LABEL_TEMPLATE_STORAGE_KEY,
+  LabelTemplate,
+  labelTemplates,
+  printLabels,
+} from '../../utils/labels';
+
+interface DispensingLabelModalProps {
+  sale: Sale;
+  onClose: () => void;
+}
+
+// One label per product, even when the sale took it from several batches
+interface LabelRow {
+  key: string;
+  items: SaleItem[];
+  drug: string;
+  strength?: string | null;
+  quantity: number;
+  directions: string;
+  copies: number;
+}
+
+const groupSaleItems = (items: SaleItem[]): LabelRow[] => {
+  const rows = new Map<string, LabelRow>();
+
+  items.forEach(item => {
+    const key = item.product_id || item.medicine_id;
+    const row = rows.get(key);
+    if (row) {
+      row.items.push(item);
+      row.quantity += item.quantity;
+      row.directions = row.directions || item.directions || '';
+    } else {
+      rows.set(key, {
+        key,
+        items: [item],
+        drug: item.medicine?.name || 'Unknown item',
+        strength: item.medicine?.strength,
+        quantity: item.quantity,
+        directions: item.directions || '',
+        copies: 1,
+      });
+    }
+  });
+
+  return Array.from(rows.values());
+};
+
+const DispensingLabelModal: React.FC<DispensingLabelModalProps> = ({ sale, onClose }) => {
+  const { appUser } = useAuthContext();
+  const { stores, currentStore } = useStoreContext();
+
+  const [rows, setRows] = useState<LabelRow[]>(() => groupSaleItems(sale.items));
+  const [patientName, setPatientName] = useState(sale.patient?.name || '');
+  const [initials, setInitials] = useState(initialsOf(appUser?.full_name));
+  const [template, setTemplate] = useLocalStorage<LabelTemplate>({
+    key: LABEL_TEMPLATE_STORAGE_KEY,
+    defaultValue: labelTemplates[0],
+  });
+  const [printing, setPrinting] = useState(false);
+
+  const store = stores.find(item => item.id === sale.store_id) || currentStore;
+
+  // Directions written on the prescription fill in any the sale does not have yet
+  useEffect(() => {
+    if (!sale.prescription_id) return;
+
+    const fetchDirections = async () => {
+      const { data, error } = await supabase
+        .from('prescription_items')
+        .select('*')
+        .eq('prescription_id', sale.prescription_id);
+
+      if (error) {
+        console.error('Error fetching prescription directions:', error);
+        return;
+      }
+
+      const prescribed = (data || []) as PrescriptionItem[];
+      setRows(prev => prev.map(row => {
+        if (row.directions) return row;
+        const match = prescribed.find(item =>
+          (item.product_id && item.product_id === row.items[0].product_id) ||
+          item.medicine_name.toLowerCase() === row.drug.toLowerCase()
+        );
+        return match?.directions ? { ...row, directions: match.directions } : row;
+      }));
+    };
+
+    fetchDirections();
+  }, [sale.prescription_id]);
+
+  const updateRow = (key: string, changes: Partial<LabelRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const handleTemplateChange = (id: string) => {
+    const preset = labelTemplates.find(item => item.id === id);
+    if (preset) setTemplate(preset);
+  };
+
+  const updateTemplate = (field: 'widthMm' | 'heightMm' | 'fontSizePt', value: string) => {
+    setTemplate({ ...template, id: 'custom', name: 'Custom', [field]: parseFloat(value) || 0 });
+  };
+
+  const handlePrint = async () => {
+    const labels = rows.flatMap(row => Array.from({ length: row.copies }, () => ({
+      patientName,
+      drug: row.drug,
+      strength: row.strength,
+      directions: row.directions,
+      quantity: row.quantity,
+      date: sale.created_at,
+      pharmacistInitials: initials,
+      batches: row.items.map(item => item.batch_no).filter((batch): batch is string => !!batch),
+      expiry: row.items.map(item => item.expiry_date).filter(Boolean).sort()[0],
+    })));
+
+    if (labels.length === 0) return;
+
+    // Opened before anything is awaited so the print window is not treated as a popup
+    printLabels(labels, template, store);
+
+    setPrinting(true);
+    try {
+      // Directions are kept with the sale so reprints match the original label
+      for (const row of rows) {
+        const changed = row.items.filter(item => (item.directions || '') !== row.directions);
+        if (changed.length === 0) continue;
+
+        const { error } = await supabase
+          .from('sale_items')
+          .update({ directions: row.directions || null })
+          .in('id', changed.map(item => item.id));
+
+        if (error) throw error;
+      }
+
+      setRows(prev => prev.map(row => ({
+        ...row,
+        items: row.items.map(item => ({ ...item, directions: row.directions })),
+      })));
+    } catch (error) {
+      console.error('Error saving label directions:', error);
+      alert('Labels were printed, but the directions could not be saved with the sale.');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const isPreset = labelTemplates.some(item => item.id === template.id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Dispensing Labels</h2>
+              <p className="text-gray-600 mt-1">Invoice #{sale.invoice_no}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="label_patient" className="block text-sm font-medium text-gray-700 mb-2">
+                Patient Name
+              </label>
+              <input
+                type="text"
+                id="label_patient"
+                value={patientName}
+                onChange={(e) => setPatientName(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="label_initials" className="block text-sm font-medium text-gray-700 mb-2">
+                Pharmacist Initials
+              </label>
+              <input
+                type="text"
+                id="label_initials"
+                value={initials}
+                onChange={(e) => setInitials(e.target.value.toUpperCase())}
+                className={inputClassName}
+                maxLength={6}
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Label Stock</p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <select
+                value={isPreset ? template.id : 'custom'}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className={`md:col-span-4 ${inputClassName}`}
+              >
+                {labelTemplates.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+                {!isPreset && <option value="custom">Custom ({template.widthMm} × {template.heightMm} mm)</option>}
+              </select>
+              <label className="text-xs text-gray-600">
+                Width (mm)
+                <input
+                  type="number"
+                  min="20"
+                  value={template.widthMm}
+                  onChange={(e) => updateTemplate('widthMm', e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Height (mm)
+                <input
+                  type="number"
+                  min="20"
+                  value={template.heightMm}
+                  onChange={(e) => updateTemplate('heightMm', e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Font size (pt)
+                <input
+                  type="number"
+                  min="5"
+                  step="0.5"
+                  value={template.fontSizePt}
+                  onChange={(e) => updateTemplate('fontSizePt', e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-600 mt-5">
+                <input
+                  type="checkbox"
+                  checked={template.showBatch}
+                  onChange={(e) => setTemplate({ ...template, showBatch: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Show batch and expiry</span>
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Remembered on this device for the next labels printed here.</p>
+          </div>
+
+          <div className="space-y-3">
+            {rows.map((row) => (
+              <div key={row.key} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <Tag className="w-4 h-4 text-gray-400" />
+                    <span className="font-medium text-gray-900">
+                      {row.drug}{row.strength ? ` ${row.strength}` : ''}
+                    </span>
+                    <span className="text-sm text-gray-500">Qty {row.quantity}</span>
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-600">
+                    <span>Copies</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={row.copies}
+                      onChange={(e) => updateRow(row.key, { copies: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </label>
+                </div>
+                <input
+                  type="text"
+                  value={row.directions}
+                  onChange={(e) => updateRow(row.key, { directions: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Directions, e.g. Take 1 tablet twice daily after food"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handlePrint}
+              disabled={printing || rows.every(row => row.copies === 0)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Printer className="w-5 h-5" />
+              <span>{printing ? 'Saving...' : 'Print Labels'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DispensingLabelModal;
@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Download, Printer, Mail, Eye } from 'lucide-react';
 import { format } from 'date-fns';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { addHeading, addParagraph, addTable, createPdf, fetchBranding, pdfFile } from '../../utils/pdf';
+import { downloadFile } from '../../utils/download';
 
-interface InvoiceItem {
+export interface InvoiceItem {
   id: string;
   name: string;
   quantity: number;
@@ -10,7 +14,7 @@ interface InvoiceItem {
   total: number;
 }
 
-interface Invoice {
+export interface Invoice {
   id: string;
   invoiceNo: string;
   date: string;
@@ -34,7 +38,8 @@ interface InvoicePDFProps {
   invoice: Invoice;
   onDownload: () => void;
   onPrint: () => void;
-  onEmail: () => void;
+  // Receives the invoice as a PDF so it can be attached
+  onEmail: (pdf: File) => void;
 }
 
 const InvoicePDF: React.FC<InvoicePDFProps> = ({
@@ -43,6 +48,11 @@ const InvoicePDF: React.FC<InvoicePDFProps> = ({
   onPrint,
   onEmail,
 }) => {
+  const [generating, setGenerating] = useState(false);
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
   const generatePDFContent = () => {
     return `
       <!DOCTYPE html>
@@ -317,16 +327,74 @@ const InvoicePDF: React.FC<InvoicePDFProps> = ({
     `;
   };
 
-  const handleDownloadPDF = () => {
-    const content = generatePDFContent();
-    const blob = new Blob([content], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `invoice-${invoice.invoiceNo}.html`;
-    a.click();
-    URL.revokeObjectURL(url);
-    onDownload();
+  const generatePDFFile = async () => {
+    const branding = await fetchBranding(appUser?.organization_id, currentStore);
+    const { doc, y } = createPdf(branding, {
+      title: 'INVOICE',
+      subtitle: [
+        `#${invoice.invoiceNo}`,
+        `Date: ${format(new Date(invoice.date), 'MMMM dd, yyyy')}`,
+        `Due: ${format(new Date(invoice.dueDate), 'MMMM dd, yyyy')}`,
+        `${invoice.paymentMethod} | ${invoice.paymentStatus.toUpperCase()}`,
+      ],
+    });
+
+    let cursor = addHeading(doc, y, 'Bill To');
+    cursor = addParagraph(doc, cursor, [
+      invoice.customer.name,
+      invoice.customer.email,
+      invoice.customer.phone,
+      invoice.customer.address,
+    ].filter(Boolean).join('\n'));
+
+    cursor = addTable(doc, cursor + 2, {
+      head: ['Item', 'Quantity', 'Unit Price', 'Total'],
+      body: invoice.items.map(item => [
+        item.name,
+        item.quantity,
+        `$${item.unitPrice.toFixed(2)}`,
+        `$${item.total.toFixed(2)}`,
+      ]),
+      foot: [
+        ['', '', 'Subtotal', `$${invoice.subtotal.toFixed(2)}`],
+        ['', '', 'Tax', `$${invoice.tax.toFixed(2)}`],
+        ['', '', 'Total', `$${invoice.total.toFixed(2)}`],
+      ],
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+    });
+
+    if (invoice.notes) {
+      cursor = addHeading(doc, cursor, 'Notes');
+      cursor = addParagraph(doc, cursor, invoice.notes);
+    }
+    addParagraph(doc, cursor, 'Thank you for your business!');
+
+    return pdfFile(doc, branding, `invoice-${invoice.invoiceNo}.pdf`);
+  };
+
+  const handleDownloadPDF = async () => {
+    setGenerating(true);
+    try {
+      downloadFile(await generatePDFFile());
+      onDownload();
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      alert('Error generating the invoice PDF. Please try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleEmail = async () => {
+    setGenerating(true);
+    try {
+      onEmail(await generatePDFFile());
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      alert('Error generating the invoice PDF. Please try again.');
+    } finally {
+      setGenerating(false);
+    }
   };
 
   const handlePrint = () => {
@@ -352,8 +420,9 @@ const InvoicePDF: React.FC<InvoicePDFProps> = ({
           </div>
           <div className="flex items-center space-x-3">
             <button
-              onClick={onEmail}
-              className="flex items-center space-x-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+              onClick={handleEmail}
+              disabled={generating}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors disabled:opacity-50"
             >
               <Mail className="w-4 h-4" />
               <span>Email</span>
@@ -367,10 +436,11 @@ const InvoicePDF: React.FC<InvoicePDFProps> = ({
             </button>
             <button
               onClick={handleDownloadPDF}
-              className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              disabled={generating}
+              className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
             >
               <Download className="w-4 h-4" />
-              <span>Download</span>
+              <span>{generating ? 'Generating...' : 'Download PDF'}</span>
             </button>
           </div>
         </div>
@@ -0,0 +1,1069 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Search,
+  Scan,
+  Plus,
+  Minus,
+  Trash2,
+  ShoppingCart,
+  CreditCard,
+  Banknote,
+  Building2,
+  Receipt,
+  User,
+  AlertTriangle,
+  FileText,
+  ShieldAlert,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { DrugInteraction, Medicine, Patient, Prescription, Sale } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { useSettings } from '../../hooks/useSettings';
+import BarcodeScanner from '../Medicines/BarcodeScanner';
+import SaleInvoiceModal from './SaleInvoiceModal';
+import PrescriptionForm from '../Prescriptions/PrescriptionForm';
+import { resolvePaymentStatus } from '../../utils/receivables';
+import { GS1Data } from '../../utils/gs1';
+import { groupBatchesByProduct, ProductStock } from '../../utils/productCatalogue';
+import { allocateFEFO, BatchAllocation, isBatchExpired, sellableBatches, sellableQuantity } from '../../utils/fefo';
+import { effectivePrice } from '../../utils/expiryActions';
+import { adjustBatchQuantity, MovementSource, recordMovement } from '../../utils/stockLedger';
+import {
+  checkPrescription,
+  consumePrescription,
+  fetchPatientPrescriptions,
+  prescriptionState,
+  prescriptionStateLabels,
+  restorePrescription,
+} from '../../utils/prescriptions';
+import {
+  checkDispensing,
+  DispensingSubject,
+  fetchInteractions,
+  fetchRecentPurchases,
+  interactionSeverityLabels,
+  interactionSeverityStyles,
+  normalizeIngredient,
+  subjectFor,
+} from '../../utils/interactions';
+import { logAudit } from '../../utils/auditTrail';
+
+// One cart line per product; batches are picked FEFO when the line is priced
+interface CartItem {
+  key: string;
+  productId?: string;
+  name: string;
+  batches: Medicine[];
+  quantity: number;
+  preferredBatchId?: string;
+}
+
+type PaymentMethod = Sale['payment_method'];
+
+const PointOfSale: React.FC = () => {
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [recentSales, setRecentSales] = useState<Sale[]>([]);
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [patientId, setPatientId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [amountTendered, setAmountTendered] = useState('');
+  const [onAccount, setOnAccount] = useState(false);
+  const [paidNow, setPaidNow] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [completedSale, setCompletedSale] = useState<Sale | null>(null);
+  const [completedTendered, setCompletedTendered] = useState<number | undefined>();
+  const [prescriber, setPrescriber] = useState({ name: '', registration: '', prescriptionRef: '' });
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [prescriptionId, setPrescriptionId] = useState('');
+  const [showPrescriptionForm, setShowPrescriptionForm] = useState(false);
+  const [recentPurchases, setRecentPurchases] = useState<DispensingSubject[]>([]);
+  const [interactions, setInteractions] = useState<DrugInteraction[]>([]);
+  const [checkingInteractions, setCheckingInteractions] = useState(false);
+  const [overrideNote, setOverrideNote] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+  const { settings } = useSettings();
+
+  const fetchData = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: medicinesData, error: medicinesError } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .eq('is_active', true)
+        .order('name');
+
+      if (medicinesError) throw medicinesError;
+
+      const { data: patientsData } = await supabase
+        .from('patients')
+        .select('*')
+        .order('name');
+
+      const { data: salesData } = await supabase
+        .from('sales')
+        .select(`
+          *,
+          patient:patients (*),
+          items:sale_items (
+            *,
+            medicine:medicines (*)
+          )
+        `)
+        .eq('store_id', currentStore.id)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      setMedicines(medicinesData || []);
+      setPatients(patientsData || []);
+      setRecentSales(salesData || []);
+    } catch (err) {
+      console.error('Error fetching sales data:', err);
+      setError('Failed to load medicines. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // A prescription can only be attached for the patient who brought it in
+  useEffect(() => {
+    setPrescriptionId('');
+    if (!patientId) {
+      setPrescriptions([]);
+      setRecentPurchases([]);
+      return;
+    }
+
+    fetchPatientPrescriptions(patientId)
+      .then(setPrescriptions)
+      .catch(err => console.error('Error fetching prescriptions:', err));
+
+    fetchRecentPurchases(patientId)
+      .then(setRecentPurchases)
+      .catch(err => console.error('Error fetching recent purchases:', err));
+  }, [patientId]);
+
+  const productStock = useMemo(() => groupBatchesByProduct(medicines), [medicines]);
+
+  const patient = patients.find(item => item.id === patientId);
+  const cartSubjects = useMemo(() => cart.map(item =>
+    subjectFor(item.batches.find(medicine => medicine.active_ingredients?.length) || { name: item.name })
+  ), [cart]);
+
+  // Every ingredient in play, so only the relevant pairs are looked up
+  const ingredientKey = useMemo(() => Array.from(new Set([
+    ...cartSubjects.flatMap(subject => subject.ingredients),
+    ...recentPurchases.flatMap(subject => subject.ingredients),
+    ...(patient?.current_medications || []).map(normalizeIngredient),
+  ])).sort().join('\n'), [cartSubjects, recentPurchases, patient]);
+
+  useEffect(() => {
+    let stale = false;
+    setCheckingInteractions(true);
+
+    fetchInteractions(ingredientKey.split('\n').filter(Boolean))
+      .then(data => {
+        if (!stale) setInteractions(data);
+      })
+      .catch(err => console.error('Error checking interactions:', err))
+      .finally(() => {
+        if (!stale) setCheckingInteractions(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [ingredientKey]);
+
+  const alerts = useMemo(() => checkDispensing({
+    cart: cartSubjects,
+    recentPurchases,
+    currentMedications: patient?.current_medications || [],
+    allergies: patient?.allergies || [],
+    interactions,
+  }), [cartSubjects, recentPurchases, patient, interactions]);
+  const blockingAlerts = alerts.filter(alert => alert.blocking);
+
+  const filteredProducts = searchTerm
+    ? productStock.filter(stock =>
+        stock.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        stock.batches.some(medicine =>
+          medicine.batch_no.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          medicine.barcode?.toLowerCase() === searchTerm.toLowerCase()
+        )
+      )
+    : [];
+
+  const allocate = (item: CartItem) => allocateFEFO(item.batches, item.quantity, item.preferredBatchId);
+
+  const lineTotal = (allocations: BatchAllocation[]) =>
+    allocations.reduce((sum, allocation) => sum + effectivePrice(allocation.medicine) * allocation.quantity, 0);
+
+  const addToCart = (stock: ProductStock, preferredBatchId?: string) => {
+    setError('');
+
+    const available = sellableQuantity(stock.batches);
+    if (available === 0) {
+      setError(
+        stock.expiredUnits > 0
+          ? `${stock.name} only has expired stock, which cannot be sold.`
+          : `${stock.name} is out of stock.`
+      );
+      return;
+    }
+
+    const existing = cart.find(item => item.key === stock.key);
+    if ((existing?.quantity || 0) + 1 > available) {
+      setError(`Only ${available} units of ${stock.name} in stock.`);
+      return;
+    }
+
+    setCart(prev =>
+      existing
+        ? prev.map(item =>
+            item.key === stock.key
+              ? { ...item, quantity: item.quantity + 1, preferredBatchId: item.preferredBatchId || preferredBatchId }
+              : item
+          )
+        : [
+            ...prev,
+            {
+              key: stock.key,
+              productId: stock.product?.id || stock.batches[0]?.product_id,
+              name: stock.name,
+              batches: stock.batches,
+              quantity: 1,
+              preferredBatchId,
+            },
+          ]
+    );
+    setSearchTerm('');
+  };
+
+  const updateQuantity = (key: string, quantity: number) => {
+    setError('');
+
+    const cartItem = cart.find(item => item.key === key);
+    if (!cartItem) return;
+
+    const available = sellableQuantity(cartItem.batches);
+    let newQuantity = quantity;
+    if (newQuantity > available) {
+      setError(`Only ${available} units of ${cartItem.name} in stock.`);
+      newQuantity = available;
+    }
+
+    setCart(prev =>
+      prev
+        .map(item => (item.key === key ? { ...item, quantity: newQuantity } : item))
+        .filter(item => item.quantity > 0)
+    );
+  };
+
+  const removeFromCart = (key: string) => {
+    setCart(prev => prev.filter(item => item.key !== key));
+  };
+
+  const handleBarcodeScanned = (barcode: string, _medicineData?: Medicine, gs1?: GS1Data) => {
+    setShowScanner(false);
+    setError('');
+    const stock = productStock.find(entry => entry.batches.some(med => med.barcode === barcode));
+    if (!stock) {
+      setError(`No medicine with barcode ${barcode} found in ${currentStore?.name || 'this store'}.`);
+      return;
+    }
+
+    // A GS1 code names the exact pack in hand, so that batch is dispensed first
+    const scannedBatch = gs1?.batch ? stock.batches.find(med => med.batch_no === gs1.batch) : undefined;
+    if (scannedBatch && isBatchExpired(scannedBatch)) {
+      setError(`${stock.name} (batch ${scannedBatch.batch_no}) has expired and cannot be sold.`);
+      return;
+    }
+
+    addToCart(stock, scannedBatch?.id);
+  };
+
+  const hasControlled = cart.some(item => item.batches.some(medicine => medicine.controlled));
+  const prescriptionLines = useMemo(() => cart
+    .filter(item => item.batches.some(medicine => medicine.prescription_only))
+    .map(item => ({ productId: item.productId, name: item.name, quantity: item.quantity })), [cart]);
+  const prescription = prescriptions.find(item => item.id === prescriptionId);
+  const prescriptionError = prescription ? checkPrescription(prescription, patientId, prescriptionLines) : null;
+  // Controlled drugs dispensed against a prescription take the prescriber from it
+  const registerPrescriber = prescription
+    ? { name: prescription.prescriber_name, registration: prescription.prescriber_licence, prescriptionRef: prescription.reference }
+    : prescriber;
+  const subtotal = cart.reduce((sum, item) => sum + lineTotal(allocate(item).allocations), 0);
+  const taxAmount = Math.round(subtotal * settings.tax_rate) / 100;
+  const total = subtotal + taxAmount;
+  const tendered = parseFloat(amountTendered) || 0;
+  const changeDue = !onAccount && paymentMethod === 'cash' && tendered > total ? tendered - total : 0;
+  const amountPaid = onAccount ? Math.min(parseFloat(paidNow) || 0, total) : total;
+  const balanceDue = total - amountPaid;
+
+  const generateInvoiceNo = () =>
+    `${currentStore?.code || 'INV'}-${format(new Date(), 'yyyyMMdd-HHmmss')}`;
+
+  const handleCheckout = async () => {
+    if (!currentStore || !appUser || cart.length === 0) return;
+
+    if (onAccount && !patientId) {
+      setError('Select a patient to charge this sale to their account.');
+      return;
+    }
+
+    if (checkingInteractions) {
+      setError('Still checking the cart for interactions. Try again in a moment.');
+      return;
+    }
+
+    if (blockingAlerts.length > 0 && !overrideNote.trim()) {
+      setError('Record an override note to dispense despite the interaction and allergy alerts.');
+      return;
+    }
+
+    if (prescriptionLines.length > 0 && (!patientId || !prescription)) {
+      setError('Prescription-only medicines need the patient and a valid prescription.');
+      return;
+    }
+
+    if (prescriptionError) {
+      setError(prescriptionError);
+      return;
+    }
+
+    if (hasControlled && (!patientId || !registerPrescriber.name.trim() || !registerPrescriber.registration.trim())) {
+      setError('Controlled drugs need the patient and the prescriber\'s name and registration number.');
+      return;
+    }
+
+    if (!onAccount && paymentMethod === 'cash' && amountTendered && tendered < total) {
+      setError('Amount tendered is less than the total due.');
+      return;
+    }
+
+    setProcessing(true);
+    setError('');
+
+    // A fill is only kept as used once stock has actually left the shelf
+    let fillConsumed = false;
+    let stockMoved = false;
+
+    try {
+      // Re-allocate against current stock so the cart matches what is on the shelf
+      const batchIds = cart.flatMap(item => item.batches.map(medicine => medicine.id));
+      const { data: freshData, error: freshError } = await supabase
+        .from('medicines')
+        .select('*')
+        .in('id', batchIds);
+
+      if (freshError) throw freshError;
+
+      const freshBatches = (freshData || []) as Medicine[];
+      const freshCart = cart.map(item => ({
+        ...item,
+        batches: item.batches.map(medicine => freshBatches.find(fresh => fresh.id === medicine.id) || { ...medicine, quantity: 0 }),
+      }));
+
+      const lines = freshCart.map(item => ({ item, ...allocate(item) }));
+      const short = lines.find(line => line.shortfall > 0);
+      const changed = lines.some((line, index) => {
+        const planned = allocate(cart[index]).allocations;
+        return (
+          planned.length !== line.allocations.length ||
+          planned.some((allocation, i) =>
+            allocation.medicine.id !== line.allocations[i].medicine.id ||
+            allocation.quantity !== line.allocations[i].quantity
+          )
+        );
+      });
+
+      if (short || changed) {
+        setCart(freshCart);
+        throw new Error(
+          short
+            ? `Only ${sellableQuantity(short.item.batches)} units of ${short.item.name} left in stock. Review the cart and try again.`
+            : 'Stock changed while this sale was open. Review the batches in the cart and try again.'
+        );
+      }
+
+      const allocations = lines.flatMap(line =>
+        line.allocations.map(allocation => ({ ...allocation, productId: line.item.productId }))
+      );
+
+      // Uses up the fill before anything is written, so a spent refill stops the sale
+      if (prescription) {
+        await consumePrescription(prescription);
+        fillConsumed = true;
+      }
+
+      const { data: sale, error: saleError } = await supabase
+        .from('sales')
+        .insert({
+          invoice_no: generateInvoiceNo(),
+          patient_id: patientId || null,
+          subtotal,
+          tax_amount: taxAmount,
+          total_amount: total,
+          payment_method: paymentMethod,
+          payment_status: resolvePaymentStatus(total, amountPaid),
+          amount_paid: amountPaid,
+          prescription_id: prescription?.id || null,
+          store_id: currentStore.id,
+          organization_id: currentStore.organization_id,
+          created_by: appUser.id,
+        })
+        .select()
+        .single();
+
+      if (saleError) throw saleError;
+
+      const saleSource: MovementSource = {
+        type: 'sale',
+        userId: appUser.id,
+        reason: `Sale ${sale.invoice_no}`,
+        referenceType: 'sale',
+        referenceId: sale.id,
+        register: {
+          patientId: patient?.id,
+          patientName: patient?.name,
+          patientAddress: patient?.address,
+          prescriberName: registerPrescriber.name,
+          prescriberRegistration: registerPrescriber.registration,
+          prescriptionRef: registerPrescriber.prescriptionRef,
+        },
+      };
+
+      // Batches taken down so far, and whether their ledger row was written
+      const sold: Array<{ medicineId: string; quantity: number; recorded: boolean }> = [];
+      let saleItems: Sale['items'] | null = null;
+
+      try {
+        const { data: insertedItems, error: itemsError } = await supabase
+          .from('sale_items')
+          .insert(allocations.map(allocation => ({
+            sale_id: sale.id,
+            medicine_id: allocation.medicine.id,
+            product_id: allocation.productId || null,
+            batch_no: allocation.medicine.batch_no,
+            expiry_date: allocation.medicine.expiry_date,
+            quantity: allocation.quantity,
+            unit_price: effectivePrice(allocation.medicine),
+            total_price: effectivePrice(allocation.medicine) * allocation.quantity,
+          })))
+          .select();
+
+        if (itemsError) throw itemsError;
+        saleItems = insertedItems;
+
+        // Each batch is taken down from its current quantity, so two tills cannot sell the same units
+        stockMoved = true;
+        for (const allocation of allocations) {
+          const line = { medicineId: allocation.medicine.id, quantity: allocation.quantity, recorded: false };
+          const { medicine, balanceAfter } = await adjustBatchQuantity(line.medicineId, -line.quantity);
+          sold.push(line);
+
+          await recordMovement({ ...saleSource, medicine, quantityChange: -line.quantity, balanceAfter });
+          line.recorded = true;
+        }
+
+        // Credit sales only record what was actually collected at the counter
+        if (amountPaid > 0) {
+          const { error: paymentError } = await supabase
+            .from('payments')
+            .insert({
+              type: 'income',
+              category: 'Sales',
+              amount: amountPaid,
+              description: `Sale ${sale.invoice_no}`,
+              payment_method: paymentMethod,
+              reference_id: sale.id,
+              reference_type: 'sale',
+              store_id: currentStore.id,
+              organization_id: currentStore.organization_id,
+              created_by: appUser.id,
+            });
+
+          if (paymentError) throw paymentError;
+        }
+      } catch (saleFailure) {
+        // Puts back what was taken down and removes the sale with its items
+        for (const line of sold) {
+          const { medicine, balanceAfter } = await adjustBatchQuantity(line.medicineId, line.quantity);
+          if (line.recorded) {
+            await recordMovement({
+              ...saleSource,
+              type: 'adjustment',
+              reason: `Sale ${sale.invoice_no} reversed`,
+              medicine,
+              quantityChange: line.quantity,
+              balanceAfter,
+            });
+          }
+        }
+
+        const { error: deleteError } = await supabase
+          .from('sales')
+          .delete()
+          .eq('id', sale.id);
+
+        if (deleteError) throw deleteError;
+        stockMoved = false;
+        throw saleFailure;
+      }
+
+      if (blockingAlerts.length > 0) {
+        await logAudit({
+          organizationId: currentStore.organization_id,
+          storeId: currentStore.id,
+          userId: appUser.id,
+          action: 'INTERACTION_OVERRIDE',
+          resourceType: 'sale',
+          resourceId: sale.id,
+          newValues: {
+            invoice_no: sale.invoice_no,
+            patient: patient?.name,
+            note: overrideNote.trim(),
+            alerts: blockingAlerts.map(({ medicine, against, severity, reason }) => ({ medicine, against, severity, reason })),
+          },
+        });
+      }
+
+      setCompletedTendered(!onAccount && paymentMethod === 'cash' && tendered > 0 ? tendered : undefined);
+      setCompletedSale({
+        ...sale,
+        patient,
+        items: (saleItems || []).map((saleItem: Sale['items'][number]) => ({
+          ...saleItem,
+          medicine: allocations.find(allocation => allocation.medicine.id === saleItem.medicine_id)?.medicine,
+        })),
+      });
+
+      setCart([]);
+      setPatientId('');
+      setPrescriber({ name: '', registration: '', prescriptionRef: '' });
+      setPrescriptionId('');
+      setOverrideNote('');
+      setAmountTendered('');
+      setOnAccount(false);
+      setPaidNow('');
+      fetchData();
+    } catch (err) {
+      console.error('Error completing sale:', err);
+      if (prescription && fillConsumed && !stockMoved) {
+        await restorePrescription(prescription)
+          .catch(restoreError => console.error('Error restoring prescription fill:', restoreError));
+      }
+      if (patientId) {
+        // The fill may already be used up, so the refill counts are refreshed
+        fetchPatientPrescriptions(patientId)
+          .then(setPrescriptions)
+          .catch(fetchError => console.error('Error fetching prescriptions:', fetchError));
+      }
+      setError(err instanceof Error ? err.message : 'Failed to complete sale. Please try again.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const paymentMethods: Array<{ value: PaymentMethod; label: string; icon: typeof Banknote }> = [
+    { value: 'cash', label: 'Cash', icon: Banknote },
+    { value: 'card', label: 'Card', icon: CreditCard },
+    { value: 'bank_transfer', label: 'Bank Transfer', icon: Building2 },
+  ];
+
+  if (!currentStore && !loading) {
+    return (
+      <div className="text-center py-12">
+        <ShoppingCart className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No store selected</h3>
+        <p className="text-gray-600">You need to be a member of a store to record sales.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Point of Sale</h1>
+          <p className="text-gray-600 mt-1">{currentStore?.name}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Product Search & Cart */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="flex space-x-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type="text"
+                  placeholder="Search by name, batch number or barcode..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoFocus
+                />
+              </div>
+              <button
+                onClick={() => setShowScanner(true)}
+                className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Scan className="w-5 h-5" />
+                <span>Scan</span>
+              </button>
+            </div>
+
+            {filteredProducts.length > 0 && (
+              <div className="mt-4 border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-72 overflow-y-auto">
+                {filteredProducts.map((stock) => {
+                  const nextBatch = sellableBatches(stock.batches)[0];
+                  const available = sellableQuantity(stock.batches);
+
+                  return (
+                    <button
+                      key={stock.key}
+                      onClick={() => addToCart(stock)}
+                      disabled={available === 0}
+                      className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">{stock.name}</p>
+                        <p className="text-sm text-gray-600">
+                          {nextBatch
+                            ? `Next batch ${nextBatch.batch_no} • Exp ${format(new Date(nextBatch.expiry_date), 'MMM dd, yyyy')}`
+                            : `${stock.batches.length} ${stock.batches.length === 1 ? 'batch' : 'batches'}`}
+                          {stock.expiredUnits > 0 && (
+                            <span className="ml-2 text-red-600 font-medium">{stock.expiredUnits} expired</span>
+                          )}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        {nextBatch && <p className="font-semibold text-gray-900">${effectivePrice(nextBatch).toFixed(2)}</p>}
+                        <p className={`text-sm ${available === 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                          {available} in stock
+                        </p>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="p-6 border-b border-gray-100 flex items-center space-x-2">
+              <ShoppingCart className="w-5 h-5 text-gray-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Cart</h3>
+              <span className="bg-gray-200 text-gray-700 px-2 py-1 rounded-full text-xs">{cart.length}</span>
+            </div>
+
+            {cart.length > 0 ? (
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Medicine</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Price</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Quantity</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-900">Total</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {cart.map((item) => {
+                    const { allocations } = allocate(item);
+                    const itemTotal = lineTotal(allocations);
+
+                    return (
+                      <tr key={item.key}>
+                        <td className="px-6 py-4">
+                          <p className="font-medium text-gray-900">
+                            {item.name}
+                            {item.batches.some(medicine => medicine.prescription_only) && (
+                              <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-semibold bg-blue-100 text-blue-800">Rx</span>
+                            )}
+                            {item.batches.some(medicine => medicine.controlled) && (
+                              <ShieldAlert className="w-4 h-4 inline ml-1 text-amber-600" />
+                            )}
+                          </p>
+                          {allocations.map((allocation) => (
+                            <p key={allocation.medicine.id} className="text-sm text-gray-600">
+                              <span className="font-mono">{allocation.medicine.batch_no}</span>
+                              {' '}× {allocation.quantity} • Exp {format(new Date(allocation.medicine.expiry_date), 'MMM yyyy')}
+                            </p>
+                          ))}
+                        </td>
+                        <td className="px-6 py-4 text-gray-900">
+                          {allocations.map((allocation) => (
+                            <p key={allocation.medicine.id}>${effectivePrice(allocation.medicine).toFixed(2)}</p>
+                          ))}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => updateQuantity(item.key, item.quantity - 1)}
+                              className="p-1 rounded border border-gray-300 hover:bg-gray-100"
+                            >
+                              <Minus className="w-4 h-4" />
+                            </button>
+                            <input
+                              type="number"
+                              min="1"
+                              value={item.quantity}
+                              onChange={(e) => updateQuantity(item.key, parseInt(e.target.value) || 0)}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded text-center"
+                            />
+                            <button
+                              onClick={() => updateQuantity(item.key, item.quantity + 1)}
+                              className="p-1 rounded border border-gray-300 hover:bg-gray-100"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-right font-semibold text-gray-900">
+                          ${itemTotal.toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <button
+                            onClick={() => removeFromCart(item.key)}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-center py-12">
+                <ShoppingCart className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Search or scan a medicine to start a sale.</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Checkout */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <User className="w-4 h-4 inline mr-1" />
+                Customer
+              </label>
+              <select
+                value={patientId}
+                onChange={(e) => setPatientId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Walk-in Customer</option>
+                {patients.map((patient) => (
+                  <option key={patient.id} value={patient.id}>
+                    {patient.name} ({patient.phone})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {(prescriptionLines.length > 0 || (hasControlled && patientId)) && (
+              <div className="space-y-3 bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <p className="text-sm font-medium text-blue-800 flex items-center">
+                  <FileText className="w-4 h-4 mr-1" />
+                  {prescriptionLines.length > 0 ? 'Prescription required' : 'Prescription'}
+                </p>
+                {patientId ? (
+                  <>
+                    <select
+                      value={prescriptionId}
+                      onChange={(e) => setPrescriptionId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Select prescription</option>
+                      {prescriptions.map((item) => {
+                        const state = prescriptionState(item);
+                        return (
+                          <option key={item.id} value={item.id} disabled={state !== 'active'}>
+                            {item.reference} • {item.prescriber_name} •{' '}
+                            {state === 'active'
+                              ? item.dispense_count > 0 ? `${item.refills_remaining} refills left` : 'first fill'
+                              : prescriptionStateLabels[state]}
+                          </option>
+                        );
+                      })}
+                    </select>
+                    {prescriptionError && (
+                      <p className="text-sm text-red-700">{prescriptionError}</p>
+                    )}
+                    <button
+                      onClick={() => setShowPrescriptionForm(true)}
+                      className="flex items-center space-x-1 text-sm text-blue-700 hover:text-blue-800 font-medium"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>New prescription</span>
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-sm text-blue-700">Select the patient to attach their prescription.</p>
+                )}
+              </div>
+            )}
+
+            {hasControlled && !prescription && (
+              <div className="space-y-3 bg-amber-50 border border-amber-200 rounded-lg p-4">
+                <p className="text-sm font-medium text-amber-800 flex items-center">
+                  <ShieldAlert className="w-4 h-4 mr-1" />
+                  Controlled drug: prescription details required
+                </p>
+                <input
+                  type="text"
+                  value={prescriber.name}
+                  onChange={(e) => setPrescriber(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Prescriber name *"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  value={prescriber.registration}
+                  onChange={(e) => setPrescriber(prev => ({ ...prev, registration: e.target.value }))}
+                  placeholder="Prescriber registration no. *"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  value={prescriber.prescriptionRef}
+                  onChange={(e) => setPrescriber(prev => ({ ...prev, prescriptionRef: e.target.value }))}
+                  placeholder="Prescription reference"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            )}
+
+            {alerts.length > 0 && (
+              <div className={`space-y-3 rounded-lg p-4 border ${
+                blockingAlerts.length > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+              }`}>
+                <p className={`text-sm font-medium flex items-center ${
+                  blockingAlerts.length > 0 ? 'text-red-800' : 'text-amber-800'
+                }`}>
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {alerts.length} dispensing {alerts.length === 1 ? 'alert' : 'alerts'}
+                </p>
+                {alerts.map((alert) => (
+                  <div key={alert.key} className="text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        alert.severity === 'allergy' ? 'bg-red-600 text-white' : interactionSeverityStyles[alert.severity]
+                      }`}>
+                        {alert.severity === 'allergy' ? 'Allergy' : interactionSeverityLabels[alert.severity]}
+                      </span>
+                      <span className="font-medium text-gray-900">{alert.medicine}</span>
+                      {alert.kind === 'interaction' && <span className="text-gray-600">with {alert.against}</span>}
+                    </div>
+                    <p className="text-gray-700 mt-1">{alert.reason}</p>
+                  </div>
+                ))}
+                {blockingAlerts.length > 0 && (
+                  <textarea
+                    value={overrideNote}
+                    onChange={(e) => setOverrideNote(e.target.value)}
+                    rows={2}
+                    placeholder="Override note: why it is safe to dispense *"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Payment Method</label>
+              <div className="grid grid-cols-3 gap-2">
+                {paymentMethods.map((method) => (
+                  <button
+                    key={method.value}
+                    onClick={() => setPaymentMethod(method.value)}
+                    className={`flex flex-col items-center space-y-1 p-3 rounded-lg border-2 transition-colors ${
+                      paymentMethod === method.value
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <method.icon className="w-5 h-5" />
+                    <span className="text-xs font-medium">{method.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onAccount}
+                onChange={(e) => setOnAccount(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Charge to patient account</span>
+            </label>
+
+            {onAccount && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Amount Paid Now</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={paidNow}
+                  onChange={(e) => setPaidNow(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+
+            {!onAccount && paymentMethod === 'cash' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Amount Tendered</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amountTendered}
+                  onChange={(e) => setAmountTendered(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+
+            <div className="border-t border-gray-200 pt-4 space-y-2">
+              <div className="flex justify-between text-gray-700">
+                <span>Subtotal</span>
+                <span>${subtotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-gray-700">
+                <span>{settings.tax_name} ({settings.tax_rate}%)</span>
+                <span>${taxAmount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-xl font-bold text-gray-900 pt-2 border-t border-gray-200">
+                <span>Total</span>
+                <span>${total.toFixed(2)}</span>
+              </div>
+              {onAccount && balanceDue > 0 && (
+                <div className="flex justify-between text-amber-700 font-semibold">
+                  <span>Balance on Account</span>
+                  <span>${balanceDue.toFixed(2)}</span>
+                </div>
+              )}
+              {changeDue > 0 && (
+                <div className="flex justify-between text-green-700 font-semibold">
+                  <span>Change Due</span>
+                  <span>${changeDue.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={handleCheckout}
+              disabled={processing || cart.length === 0}
+              className="w-full bg-green-600 text-white px-4 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {processing ? (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Receipt className="w-5 h-5" />
+              )}
+              <span>{processing ? 'Processing...' : 'Complete Sale'}</span>
+            </button>
+          </div>
+
+          {/* Recent Sales */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+            <div className="p-4 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900">Recent Sales</h3>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {recentSales.map((sale) => (
+                <div key={sale.id} className="px-4 py-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">#{sale.invoice_no}</p>
+                    <p className="text-xs text-gray-600">
+                      {sale.patient?.name || 'Walk-in Customer'} • {format(new Date(sale.created_at), 'HH:mm')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-semibold text-gray-900">${sale.total_amount.toFixed(2)}</span>
+                    <button
+                      onClick={() => {
+                        setCompletedTendered(undefined);
+                        setCompletedSale(sale);
+                      }}
+                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="View Invoice"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {recentSales.length === 0 && (
+                <p className="px-4 py-6 text-sm text-gray-600 text-center">No sales recorded yet.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <BarcodeScanner
+        isOpen={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanResult={handleBarcodeScanned}
+      />
+
+      <SaleInvoiceModal
+        sale={completedSale}
+        tendered={completedTendered}
+        onClose={() => setCompletedSale(null)}
+      />
+
+      <PrescriptionForm
+        isOpen={showPrescriptionForm}
+        onClose={() => setShowPrescriptionForm(false)}
+        onSuccess={(created) => {
+          setPrescriptions(prev => [created, ...prev]);
+          setPrescriptionId(created.id);
+        }}
+        patient={patient || null}
+        initialItems={prescriptionLines}
+      />
+    </div>
+  );
+};
+
+export default PointOfSale;
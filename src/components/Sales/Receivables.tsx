@@ -0,0 +1,295 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Wallet, Clock, AlertTriangle, HandCoins, ChevronRight } from 'lucide-react';
+import { format, differenceInDays } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Sale } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { AgeingBucket, AGEING_BUCKETS, getAgeingBucket, getOutstanding } from '../../utils/receivables';
+import ReceivePaymentModal from './ReceivePaymentModal';
+
+interface PatientBalance {
+  patientId: string;
+  name: string;
+  phone: string;
+  invoices: number;
+  balance: number;
+  oldest: string;
+}
+
+const bucketStyles: Record<AgeingBucket, string> = {
+  '0-30': 'bg-green-100 text-green-800',
+  '31-60': 'bg-amber-100 text-amber-800',
+  '60+': 'bg-red-100 text-red-800',
+};
+
+const Receivables: React.FC = () => {
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [view, setView] = useState<'sales' | 'patients'>('sales');
+  const [bucketFilter, setBucketFilter] = useState<'all' | AgeingBucket>('all');
+  const [payingSale, setPayingSale] = useState<Sale | null>(null);
+
+  const { currentStore } = useStoreContext();
+  const navigate = useNavigate();
+
+  const fetchReceivables = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('sales')
+        .select('*, patient:patients (*)')
+        .eq('store_id', currentStore.id)
+        .in('payment_status', ['pending', 'partial'])
+        .order('created_at');
+
+      if (error) throw error;
+      setSales(data || []);
+    } catch (error) {
+      console.error('Error fetching receivables:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, [fetchReceivables]);
+
+  const openSales = sales.filter(sale => getOutstanding(sale) > 0);
+
+  const bucketTotals = AGEING_BUCKETS.map(bucket => ({
+    bucket,
+    amount: openSales
+      .filter(sale => getAgeingBucket(sale.created_at) === bucket)
+      .reduce((sum, sale) => sum + getOutstanding(sale), 0),
+  }));
+  const totalOutstanding = bucketTotals.reduce((sum, { amount }) => sum + amount, 0);
+
+  const filteredSales = openSales.filter(sale => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      sale.invoice_no.toLowerCase().includes(term) ||
+      (sale.patient?.name.toLowerCase().includes(term) ?? false) ||
+      (sale.patient?.phone.includes(term) ?? false);
+    const matchesBucket = bucketFilter === 'all' || getAgeingBucket(sale.created_at) === bucketFilter;
+    return matchesSearch && matchesBucket;
+  });
+
+  const patientBalances = filteredSales.reduce<PatientBalance[]>((acc, sale) => {
+    if (!sale.patient_id) return acc;
+    const existing = acc.find(entry => entry.patientId === sale.patient_id);
+    if (existing) {
+      existing.invoices += 1;
+      existing.balance += getOutstanding(sale);
+      if (sale.created_at < existing.oldest) existing.oldest = sale.created_at;
+    } else {
+      acc.push({
+        patientId: sale.patient_id,
+        name: sale.patient?.name || 'Unknown patient',
+        phone: sale.patient?.phone || '',
+        invoices: 1,
+        balance: getOutstanding(sale),
+        oldest: sale.created_at,
+      });
+    }
+    return acc;
+  }, []).sort((a, b) => b.balance - a.balance);
+
+  if (loading && sales.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-28 bg-gray-200 rounded-2xl"></div>
+            ))}
+          </div>
+          <div className="h-64 bg-gray-200 rounded-2xl"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Receivables</h1>
+        <p className="text-gray-600 mt-1">Outstanding balances on credit and part-paid sales</p>
+      </div>
+
+      {/* Ageing Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Total Outstanding</p>
+              <p className="text-3xl font-bold text-gray-900 mt-1">${totalOutstanding.toFixed(2)}</p>
+              <p className="text-sm text-gray-500">{openSales.length} open invoices</p>
+            </div>
+            <div className="p-3 rounded-lg bg-blue-50">
+              <Wallet className="w-6 h-6 text-blue-600" />
+            </div>
+          </div>
+        </div>
+        {bucketTotals.map(({ bucket, amount }) => (
+          <button
+            key={bucket}
+            onClick={() => setBucketFilter(bucketFilter === bucket ? 'all' : bucket)}
+            className={`bg-white p-6 rounded-2xl shadow-sm border text-left transition-colors ${
+              bucketFilter === bucket ? 'border-blue-500 ring-2 ring-blue-100' : 'border-gray-100 hover:border-gray-200'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">{bucket} days</p>
+                <p className="text-3xl font-bold text-gray-900 mt-1">${amount.toFixed(2)}</p>
+              </div>
+              <div className={`p-3 rounded-lg ${bucketStyles[bucket]}`}>
+                {bucket === '60+' ? <AlertTriangle className="w-6 h-6" /> : <Clock className="w-6 h-6" />}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by invoice, patient name or phone..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {(['sales', 'patients'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                view === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option === 'sales' ? 'By Invoice' : 'By Patient'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {view === 'sales' && filteredSales.length > 0 && (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Invoice</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Patient</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Age</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Total</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Paid</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Balance</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredSales.map((sale) => {
+                const bucket = getAgeingBucket(sale.created_at);
+                return (
+                  <tr key={sale.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">#{sale.invoice_no}</p>
+                      <p className="text-sm text-gray-600">{format(new Date(sale.created_at), 'MMM dd, yyyy')}</p>
+                    </td>
+                    <td className="px-6 py-4 text-gray-900">{sale.patient?.name || 'Walk-in Customer'}</td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${bucketStyles[bucket]}`}>
+                        {differenceInDays(new Date(), new Date(sale.created_at))} days
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-gray-900">${sale.total_amount.toFixed(2)}</td>
+                    <td className="px-6 py-4 text-right text-gray-600">${(sale.amount_paid || 0).toFixed(2)}</td>
+                    <td className="px-6 py-4 text-right font-semibold text-amber-700">
+                      ${getOutstanding(sale).toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => setPayingSale(sale)}
+                        className="inline-flex items-center space-x-1 px-3 py-1 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors"
+                      >
+                        <HandCoins className="w-4 h-4" />
+                        <span>Receive</span>
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {view === 'patients' && patientBalances.length > 0 && (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Patient</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Open Invoices</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Oldest</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Balance</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {patientBalances.map((entry) => (
+                <tr
+                  key={entry.patientId}
+                  onClick={() => navigate(`/patients/${entry.patientId}`)}
+                  className="hover:bg-gray-50 transition-colors cursor-pointer"
+                >
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{entry.name}</p>
+                    <p className="text-sm text-gray-600">{entry.phone}</p>
+                  </td>
+                  <td className="px-6 py-4 text-gray-900">{entry.invoices}</td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${bucketStyles[getAgeingBucket(entry.oldest)]}`}>
+                      {differenceInDays(new Date(), new Date(entry.oldest))} days
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right font-semibold text-amber-700">${entry.balance.toFixed(2)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <ChevronRight className="w-4 h-4 text-gray-400 inline" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {((view === 'sales' && filteredSales.length === 0) ||
+          (view === 'patients' && patientBalances.length === 0)) && (
+          <div className="text-center py-12">
+            <Wallet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No outstanding balances</h3>
+            <p className="text-gray-600">
+              {searchTerm || bucketFilter !== 'all' ? 'Try adjusting your search or filters.' : 'All sales are fully paid.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <ReceivePaymentModal
+        sale={payingSale}
+        onClose={() => setPayingSale(null)}
+        onSuccess={fetchReceivables}
+      />
+    </div>
+  );
+};
+
+export default Receivables;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Sale, Payment } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { getOutstanding, resolvePaymentStatus, roundCurrency } from '../../utils/receivables';
+
+interface ReceivePaymentModalProps {
+  sale: Sale | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const ReceivePaymentModal: React.FC<ReceivePaymentModalProps> = ({ sale, onClose, onSuccess }) => {
+  const [amount, setAmount] = useState(0);
+  const [paymentMethod, setPaymentMethod] = useState<Payment['payment_method']>('cash');
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+
+  const outstanding = sale ? getOutstanding(sale) : 0;
+
+  useEffect(() => {
+    if (sale) {
+      setAmount(getOutstanding(sale));
+      setPaymentMethod('cash');
+      setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
+      setError('');
+    }
+  }, [sale]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sale || !appUser) return;
+
+    if (amount <= 0) {
+      setError('Amount must be greater than zero.');
+      return;
+    }
+
+    if (amount > outstanding) {
+      setError(`Amount cannot exceed the outstanding balance of $${outstanding.toFixed(2)}.`);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      // Only applies if no other instalment landed since the sale was loaded
+      const amountPaid = roundCurrency((sale.amount_paid || 0) + amount);
+      let saleUpdate = supabase
+        .from('sales')
+        .update({
+          amount_paid: amountPaid,
+          payment_status: resolvePaymentStatus(sale.total_amount, amountPaid),
+        })
+        .eq('id', sale.id);
+      saleUpdate = sale.amount_paid === null || sale.amount_paid === undefined
+        ? saleUpdate.is('amount_paid', null)
+        : saleUpdate.eq('amount_paid', sale.amount_paid);
+
+      const { data: updatedSales, error: saleError } = await saleUpdate.select('id');
+
+      if (saleError) throw saleError;
+      if (!updatedSales || updatedSales.length === 0) {
+        throw new Error(`Another payment was just recorded for ${sale.invoice_no}. Close this form and check the balance again.`);
+      }
+
+      const { error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          type: 'income',
+          category: 'Sales',
+          amount,
+          description: `Payment received for ${sale.invoice_no}`,
+          payment_method: paymentMethod,
+          payment_date: paymentDate,
+          reference_id: sale.id,
+          reference_type: 'sale',
+          store_id: sale.store_id,
+          organization_id: sale.organization_id,
+          created_by: appUser.id,
+        });
+
+      if (paymentError) {
+        // Put the balance back so the sale does not show money that was never recorded
+        const { data: restored, error: restoreError } = await supabase
+          .from('sales')
+          .update({ amount_paid: sale.amount_paid, payment_status: sale.payment_status })
+          .eq('id', sale.id)
+          .eq('amount_paid', amountPaid)
+          .select('id');
+
+        if (restoreError || !restored || restored.length === 0) {
+          console.error('Error restoring sale balance:', restoreError);
+          throw new Error(`The payment could not be recorded and the balance of ${sale.invoice_no} could not be put back. Check the sale before taking payment again.`);
+        }
+        throw paymentError;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording payment:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!sale) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Receive Payment</h2>
+              <p className="text-sm text-gray-600">
+                #{sale.invoice_no}{sale.patient ? ` • ${sale.patient.name}` : ''}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-600">Total</p>
+              <p className="font-semibold text-gray-900">${sale.total_amount.toFixed(2)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-600">Paid</p>
+              <p className="font-semibold text-gray-900">${(sale.amount_paid || 0).toFixed(2)}</p>
+            </div>
+            <div className="bg-amber-50 rounded-lg p-3">
+              <p className="text-xs text-amber-700">Balance</p>
+              <p className="font-semibold text-amber-900">${outstanding.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Amount *</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                max={outstanding}
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date *</label>
+              <input
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Payment Method</label>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value as Payment['payment_method'])}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="cash">Cash</option>
+              <option value="card">Card</option>
+              <option value="bank_transfer">Bank Transfer</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : 'Record Payment'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReceivePaymentModal;
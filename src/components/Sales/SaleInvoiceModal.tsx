@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { X, Tag, Receipt } from 'lucide-react';
+import { Sale } from '../../types';
+import InvoicePDF, { Invoice } from './InvoicePDF';
+import DispensingLabelModal from './DispensingLabelModal';
+import ThermalReceiptModal from './ThermalReceiptModal';
+import { downloadFile } from '../../utils/download';
+
+interface SaleInvoiceModalProps {
+  sale: Sale | null;
+  // Cash handed over, when the modal opens straight after checkout
+  tendered?: number;
+  onClose: () => void;
+}
+
+const paymentMethodLabels: Record<Sale['payment_method'], string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+};
+
+const SaleInvoiceModal: React.FC<SaleInvoiceModalProps> = ({ sale, tendered, onClose }) => {
+  const [showLabels, setShowLabels] = useState(false);
+  const [showReceipt, setShowReceipt] = useState(false);
+
+  if (!sale) return null;
+
+  const invoice: Invoice = {
+    id: sale.id,
+    invoiceNo: sale.invoice_no,
+    date: sale.created_at,
+    dueDate: sale.created_at,
+    customer: {
+      name: sale.patient?.name || 'Walk-in Customer',
+      email: sale.patient?.email,
+      phone: sale.patient?.phone || '',
+      address: sale.patient?.address || '',
+    },
+    items: sale.items.map(item => ({
+      id: item.id,
+      name: `${item.medicine?.name || 'Unknown item'}${item.batch_no ? ` (Batch ${item.batch_no})` : ''}`,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      total: item.total_price,
+    })),
+    subtotal: sale.subtotal,
+    tax: sale.tax_amount,
+    total: sale.total_amount,
+    // InvoicePDF has no "partial" badge, so anything unpaid shows as pending
+    paymentStatus: sale.payment_status === 'paid' ? 'paid' : 'pending',
+    paymentMethod: paymentMethodLabels[sale.payment_method],
+  };
+
+  const handleEmail = async (pdf: File) => {
+    const subject = `Invoice ${sale.invoice_no}`;
+
+    // mailto links cannot carry attachments, so the device's share sheet is used where there is one
+    if (navigator.canShare?.({ files: [pdf] })) {
+      try {
+        await navigator.share({ files: [pdf], title: subject });
+        return;
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('Error sharing invoice:', error);
+      }
+    }
+
+    downloadFile(pdf);
+    const recipient = sale.patient?.email || '';
+    const body = `Please find invoice ${sale.invoice_no} attached (${pdf.name}).`;
+    window.location.href = `mailto:${recipient}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">Sale Invoice</h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setShowReceipt(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Receipt className="w-4 h-4" />
+              <span>Thermal Receipt</span>
+            </button>
+            <button
+              onClick={() => setShowLabels(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Tag className="w-4 h-4" />
+              <span>Print Labels</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+        <div className="p-4">
+          <InvoicePDF
+            invoice={invoice}
+            onDownload={() => {}}
+            onPrint={() => {}}
+            onEmail={handleEmail}
+          />
+        </div>
+      </div>
+      {showLabels && <DispensingLabelModal sale={sale} onClose={() => setShowLabels(false)} />}
+      {showReceipt && (
+        <ThermalReceiptModal
+          sale={sale}
+          paymentMethod={paymentMethodLabels[sale.payment_method]}
+          tendered={tendered}
+          onClose={() => setShowReceipt(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SaleInvoiceModal;
@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import { X, Usb, Cable, Download } from 'lucide-react';
+import { Sale } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { useSettings } from '../../hooks/useSettings';
+import { useLocalStorage } from '../../hooks/useLocalStorage';
+import {
+  defaultReceiptPrinterConfig,
+  describeEscPos,
+  hexDump,
+  printViaSerial,
+  printViaUSB,
+  RECEIPT_PRINTER_STORAGE_KEY,
+  ReceiptCode,
+  ReceiptPrinterConfig,
+  ReceiptWidth,
+  renderReceipt,
+} from '../../utils/escpos';
+import { downloadFile } from '../../utils/download';
+
+interface ThermalReceiptModalProps {
+  sale: Sale;
+  paymentMethod: string;
+  // Cash handed over at the till; only known straight after the sale
+  tendered?: number;
+  onClose: () => void;
+}
+
+const ThermalReceiptModal: React.FC<ThermalReceiptModalProps> = ({ sale, paymentMethod, tendered, onClose }) => {
+  const { stores, currentStore } = useStoreContext();
+  const { settings } = useSettings();
+
+  // Printers are attached to a till, so the setup is remembered per device
+  const [config, setConfig] = useLocalStorage<ReceiptPrinterConfig>({
+    key: RECEIPT_PRINTER_STORAGE_KEY,
+    defaultValue: defaultReceiptPrinterConfig,
+  });
+  const [previewMode, setPreviewMode] = useState<'text' | 'bytes'>('text');
+  const [printing, setPrinting] = useState(false);
+  const [error, setError] = useState('');
+
+  const store = stores.find(item => item.id === sale.store_id) || currentStore;
+
+  const bytes = useMemo(() => renderReceipt({
+    storeName: store?.name || settings.business_name,
+    storeLines: [
+      store?.address || settings.business_address,
+      store?.phone || settings.business_phone,
+      store?.license_number ? `Licence ${store.license_number}` : '',
+    ].filter(Boolean),
+    invoiceNo: sale.invoice_no,
+    date: sale.created_at,
+    customer: sale.patient?.name,
+    items: sale.items.map(item => ({
+      name: `${item.medicine?.name || 'Unknown item'}${item.medicine?.strength ? ` ${item.medicine.strength}` : ''}`,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      total: item.total_price,
+    })),
+    subtotal: sale.subtotal,
+    taxName: settings.tax_name,
+    // Worked out from the sale itself in case the rate has changed since
+    taxRate: sale.subtotal > 0 ? Math.round((sale.tax_amount / sale.subtotal) * 10000) / 100 : undefined,
+    tax: sale.tax_amount,
+    total: sale.total_amount,
+    paymentMethod,
+    amountPaid: sale.payment_status === 'paid' ? undefined : sale.amount_paid ?? 0,
+    tendered,
+    footer: settings.receipt_footer,
+  }, config), [sale, store, settings, paymentMethod, tendered, config]);
+
+  const handlePrint = async () => {
+    setPrinting(true);
+    setError('');
+    try {
+      if (config.connection === 'usb') {
+        await printViaUSB(bytes);
+      } else {
+        await printViaSerial(bytes, config.baudRate);
+      }
+    } catch (err) {
+      // Closing the browser's device picker is not an error worth reporting
+      if (err instanceof DOMException && err.name === 'NotFoundError') return;
+      console.error('Error printing receipt:', err);
+      setError(err instanceof Error ? err.message : 'Could not reach the receipt printer.');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(new File([bytes], `receipt-${sale.invoice_no}.bin`, { type: 'application/octet-stream' }));
+  };
+
+  const supported = config.connection === 'usb' ? 'usb' in navigator : 'serial' in navigator;
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Thermal Receipt</h2>
+              <p className="text-gray-600 mt-1">Invoice #{sale.invoice_no}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="text-sm font-medium text-gray-700">
+              Paper Width
+              <select
+                value={config.width}
+                onChange={(e) => setConfig({ ...config, width: parseInt(e.target.value) as ReceiptWidth })}
+                className={`mt-1 ${inputClassName}`}
+              >
+                <option value={58}>58 mm</option>
+                <option value={80}>80 mm</option>
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Invoice Code
+              <select
+                value={config.code}
+                onChange={(e) => setConfig({ ...config, code: e.target.value as ReceiptCode })}
+                className={`mt-1 ${inputClassName}`}
+              >
+                <option value="qr">QR code</option>
+                <option value="barcode">Barcode (Code 128)</option>
+                <option value="none">None</option>
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Connection
+              <select
+                value={config.connection}
+                onChange={(e) => setConfig({ ...config, connection: e.target.value as ReceiptPrinterConfig['connection'] })}
+                className={`mt-1 ${inputClassName}`}
+              >
+                <option value="usb">USB</option>
+                <option value="serial">Serial</option>
+              </select>
+            </label>
+            {config.connection === 'serial' && (
+              <label className="text-sm font-medium text-gray-700">
+                Baud Rate
+                <select
+                  value={config.baudRate}
+                  onChange={(e) => setConfig({ ...config, baudRate: parseInt(e.target.value) })}
+                  className={`mt-1 ${inputClassName}`}
+                >
+                  {[9600, 19200, 38400, 115200].map((rate) => (
+                    <option key={rate} value={rate}>{rate}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-gray-700">Preview ({bytes.length} bytes)</p>
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                {(['text', 'bytes'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setPreviewMode(mode)}
+                    className={`px-3 py-1 ${previewMode === mode ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {mode === 'text' ? 'Receipt' : 'Bytes'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <pre className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-xs font-mono text-gray-800 overflow-x-auto max-h-96">
+              {previewMode === 'text' ? describeEscPos(bytes) : hexDump(bytes)}
+            </pre>
+          </div>
+
+          {!supported && (
+            <p className="text-sm text-amber-700">
+              This browser cannot reach {config.connection === 'usb' ? 'USB' : 'serial'} printers. Use Chrome or Edge,
+              or download the byte stream to test it with a printer emulator.
+            </p>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <Download className="w-5 h-5" />
+              <span>Download .bin</span>
+            </button>
+            <button
+              type="button"
+              onClick={handlePrint}
+              disabled={printing || !supported}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              {config.connection === 'usb' ? <Usb className="w-5 h-5" /> : <Cable className="w-5 h-5" />}
+              <span>{printing ? 'Printing...' : 'Print Receipt'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThermalReceiptModal;
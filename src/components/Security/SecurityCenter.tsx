@@ -348,6 +348,12 @@ const SecurityCenter: React.FC = () => {
                   <option value="INSERT">Create</option>
                   <option value="UPDATE">Update</option>
                   <option value="DELETE">Delete</option>
+                  <option value="WRITE_OFF">Write-off</option>
+                  <option value="RETURN_TO_VENDOR">Vendor Return</option>
+                  <option value="VENDOR_CREDIT">Vendor Credit</option>
+                  <option value="CLEARANCE_PRICE">Clearance Price</option>
+                  <option value="STOCK_TAKE_POST">Stock-take Posted</option>
+                  <option value="INTERACTION_OVERRIDE">Interaction Override</option>
                 </select>
               </div>
 
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, ClipboardCheck, ChevronRight, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { StockTake } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import {
+  startStockTake,
+  stockTakeStatusLabels,
+  stockTakeStatusStyles,
+  summarizeStockTake,
+} from '../../utils/stockTake';
+
+const StockTakeList: React.FC = () => {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [location, setLocation] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+
+  const navigate = useNavigate();
+  const { appUser } = useAuthContext();
+  const { currentStore } = useStoreContext();
+
+  const fetchStockTakes = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: stockTakesData, error: stockTakesError } = await supabase
+        .from('stock_takes')
+        .select('*, counts:stock_take_counts (*)')
+        .eq('store_id', currentStore.id)
+        .order('created_at', { ascending: false });
+
+      if (stockTakesError) throw stockTakesError;
+
+      const { data: locationsData } = await supabase
+        .from('medicines')
+        .select('location')
+        .eq('store_id', currentStore.id)
+        .not('location', 'is', null);
+
+      setStockTakes(stockTakesData || []);
+      setLocations(
+        Array.from(new Set((locationsData || []).map((row: { location: string }) => row.location)))
+          .filter(Boolean)
+          .sort()
+      );
+    } catch (error) {
+      console.error('Error fetching stock takes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchStockTakes();
+  }, [fetchStockTakes]);
+
+  const handleStart = async () => {
+    if (!currentStore || !appUser) return;
+
+    setStarting(true);
+    try {
+      const stockTake = await startStockTake(currentStore, location, appUser.id);
+      navigate(`/stock-take/${stockTake.id}`);
+    } catch (error) {
+      console.error('Error starting stock take:', error);
+      alert('Error starting stock take. A connection is needed to open a new count.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (loading && stockTakes.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stock-take</h1>
+          <p className="text-gray-600 mt-1">Shelf counts for {currentStore?.name}</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All locations</option>
+            {locations.map((item) => (
+              <option key={item} value={item}>{item}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleStart}
+            disabled={starting}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Plus className="w-5 h-5" />
+            <span>{starting ? 'Starting...' : 'Start Count'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {stockTakes.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {stockTakes.map((stockTake) => {
+              const counts = stockTake.counts || [];
+              const summary = summarizeStockTake(counts);
+              return (
+                <button
+                  key={stockTake.id}
+                  onClick={() => navigate(`/stock-take/${stockTake.id}`)}
+                  className="w-full flex items-center justify-between p-6 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <div className="flex items-center space-x-3">
+                      <p className="font-medium text-gray-900">{stockTake.reference}</p>
+                      <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${stockTakeStatusStyles[stockTake.status]}`}>
+                        {stockTakeStatusLabels[stockTake.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 flex items-center">
+                      <MapPin className="w-3 h-3 mr-1" />
+                      {stockTake.location || 'All locations'} • Started {format(new Date(stockTake.created_at), 'MMM dd, yyyy HH:mm')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-6">
+                    <div className="text-right text-sm">
+                      <p className="text-gray-900">{counts.length} batches counted</p>
+                      <p className={summary.netCostImpact < 0 ? 'text-red-600' : 'text-gray-600'}>
+                        {summary.variances.length} variances • ${summary.netCostImpact.toFixed(2)}
+                      </p>
+                    </div>
+                    <ChevronRight className="w-5 h-5 text-gray-400" />
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No stock-takes yet</h3>
+            <p className="text-gray-600">Start a count for the whole store or a single shelf location.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockTakeList;
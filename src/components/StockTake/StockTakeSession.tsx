@@ -0,0 +1,568 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Scan,
+  Search,
+  MapPin,
+  Wifi,
+  WifiOff,
+  RefreshCw,
+  Send,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, StockTake, StockTakeCount } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { offlineSync } from '../../utils/offlineSync';
+import { GS1Data } from '../../utils/gs1';
+import {
+  buildCount,
+  canApproveStockTake,
+  countVariance,
+  mergeCounts,
+  postStockTake,
+  saveCount,
+  stockTakeStatusLabels,
+  stockTakeStatusStyles,
+  summarizeStockTake,
+} from '../../utils/stockTake';
+import BarcodeScanner from '../Medicines/BarcodeScanner';
+
+interface SessionSnapshot {
+  stockTake: StockTake | null;
+  medicines: Medicine[];
+  counts: StockTakeCount[];
+}
+
+const emptySnapshot: SessionSnapshot = { stockTake: null, medicines: [], counts: [] };
+
+// The session is kept on the device so counting survives a reload without a connection
+const loadSnapshot = (key: string): SessionSnapshot => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : emptySnapshot;
+  } catch (error) {
+    console.error('Error loading stock take:', error);
+    return emptySnapshot;
+  }
+};
+
+const StockTakeSession: React.FC = () => {
+  const { stockTakeId } = useParams<{ stockTakeId: string }>();
+  const navigate = useNavigate();
+  const storageKey = `stock_take_${stockTakeId}`;
+
+  const [snapshot, setSnapshot] = useState<SessionSnapshot>(() => loadSnapshot(storageKey));
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [approvedIds, setApprovedIds] = useState<string[] | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(offlineSync.getPendingOperationsCount());
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanMessage, setScanMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const { appUser } = useAuthContext();
+  const { stores } = useStoreContext();
+  const { stockTake, medicines, counts } = snapshot;
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(snapshot));
+  }, [storageKey, snapshot]);
+
+  const fetchSession = useCallback(async () => {
+    if (!stockTakeId) return;
+
+    try {
+      setLoading(true);
+
+      const { data: stockTakeData, error: stockTakeError } = await supabase
+        .from('stock_takes')
+        .select('*, counts:stock_take_counts (*, counter:users (full_name))')
+        .eq('id', stockTakeId)
+        .single();
+
+      if (stockTakeError) throw stockTakeError;
+
+      const { data: medicinesData, error: medicinesError } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', stockTakeData.store_id)
+        .order('name');
+
+      if (medicinesError) throw medicinesError;
+
+      const { counts: serverCounts, ...stockTakeFields } = stockTakeData;
+      setSnapshot(prev => ({
+        stockTake: stockTakeFields,
+        medicines: medicinesData || [],
+        counts: mergeCounts(serverCounts || [], prev.counts),
+      }));
+    } catch (error) {
+      // Offline: carry on from the copy saved on this device
+      console.error('Error fetching stock take:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [stockTakeId]);
+
+  useEffect(() => {
+    fetchSession();
+  }, [fetchSession]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      // offlineSync replays its queue on the same event; refresh once it has had a chance to run
+      setTimeout(() => {
+        setPendingCount(offlineSync.getPendingOperationsCount());
+        fetchSession();
+      }, 2000);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [fetchSession]);
+
+  const countFor = (medicine: Medicine) => counts.find(count => count.medicine_id === medicine.id);
+
+  // Batches on the shelves being counted, in shelf order
+  const batches = useMemo(() => medicines
+    .filter(medicine => !stockTake?.location || medicine.location === stockTake.location)
+    .filter(medicine => medicine.is_active !== false)
+    .sort((a, b) =>
+      (a.location || '~').localeCompare(b.location || '~') ||
+      a.name.localeCompare(b.name) ||
+      a.batch_no.localeCompare(b.batch_no)
+    ), [medicines, stockTake]);
+
+  const term = searchTerm.toLowerCase();
+  const visibleBatches = batches.filter(medicine =>
+    term
+      ? medicine.name.toLowerCase().includes(term) ||
+        medicine.batch_no.toLowerCase().includes(term) ||
+        (medicine.location || '').toLowerCase().includes(term)
+      : medicine.quantity > 0 || counts.some(count => count.medicine_id === medicine.id)
+  );
+
+  const commitCount = async (medicine: Medicine, countedQuantity: number) => {
+    if (!stockTake || !appUser) return;
+
+    const existing = counts.find(count => count.medicine_id === medicine.id);
+    const count = buildCount(stockTake.id, medicine, countedQuantity, appUser.id, existing);
+
+    setSnapshot(prev => ({
+      ...prev,
+      counts: existing
+        ? prev.counts.map(item => (item.id === count.id ? { ...item, ...count } : item))
+        : [...prev.counts, count],
+    }));
+
+    await saveCount(count, !existing);
+    setPendingCount(offlineSync.getPendingOperationsCount());
+  };
+
+  const handleDraftCommit = (medicine: Medicine) => {
+    const draft = drafts[medicine.id];
+    if (draft === undefined) return;
+
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[medicine.id];
+      return next;
+    });
+
+    const value = parseInt(draft);
+    if (draft === '' || isNaN(value) || value < 0) return;
+    if (value !== countFor(medicine)?.counted_quantity) commitCount(medicine, value);
+  };
+
+  // A GS1 scan names the exact batch, so each scan counts one pack of it
+  const handleBarcodeScanned = (barcode: string, _medicineData?: Medicine, gs1?: GS1Data) => {
+    setShowScanner(false);
+    const matches = batches.filter(medicine => medicine.barcode === barcode);
+
+    if (matches.length === 0) {
+      setScanMessage(`No batch with barcode ${barcode} is expected in this count.`);
+      return;
+    }
+
+    const batch = gs1?.batch ? matches.find(medicine => medicine.batch_no === gs1.batch) : matches.length === 1 ? matches[0] : undefined;
+    if (!batch) {
+      setSearchTerm(matches[0].name);
+      setScanMessage(`${matches[0].name}: enter the count against the right batch below.`);
+      return;
+    }
+
+    const counted = (countFor(batch)?.counted_quantity || 0) + 1;
+    commitCount(batch, counted);
+    setSearchTerm(batch.batch_no);
+    setScanMessage(`${batch.name} batch ${batch.batch_no}: ${counted} counted`);
+  };
+
+  const handleSync = async () => {
+    await offlineSync.syncPendingOperations();
+    setPendingCount(offlineSync.getPendingOperationsCount());
+    fetchSession();
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setProcessing(true);
+    try {
+      await offlineSync.syncPendingOperations();
+      if (offlineSync.getPendingOperationsCount() > 0) {
+        throw new Error('Some counts have not synced yet. Reconnect and try again.');
+      }
+      await action();
+      fetchSession();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(error instanceof Error ? error.message : failure);
+    } finally {
+      setPendingCount(offlineSync.getPendingOperationsCount());
+      setProcessing(false);
+    }
+  };
+
+  const updateStatus = (status: StockTake['status'], fields: Partial<StockTake>, failure: string) =>
+    runAction(async () => {
+      const { error } = await supabase
+        .from('stock_takes')
+        .update({ status, ...fields })
+        .eq('id', stockTake?.id);
+
+      if (error) throw error;
+    }, failure);
+
+  const handleSubmit = () => {
+    if (!appUser) return;
+    if (!confirm('Submit this count for approval? Counting will be closed.')) return;
+    updateStatus('submitted', { submitted_by: appUser.id, submitted_at: new Date().toISOString() }, 'Error submitting stock take');
+  };
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel stock-take ${stockTake?.reference}? No stock will be adjusted.`)) return;
+    updateStatus('cancelled', {}, 'Error cancelling stock take');
+  };
+
+  if (loading && !stockTake) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+        <div className="h-40 bg-gray-200 rounded-2xl"></div>
+        <div className="h-64 bg-gray-200 rounded-2xl"></div>
+      </div>
+    );
+  }
+
+  if (!stockTake) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Stock-take not found</h3>
+        <button
+          onClick={() => navigate('/stock-take')}
+          className="text-blue-600 hover:text-blue-700 font-medium"
+        >
+          Back to stock-takes
+        </button>
+      </div>
+    );
+  }
+
+  const isCounting = stockTake.status === 'counting';
+  const canApprove = canApproveStockTake(stockTake, stores, appUser);
+  const summary = summarizeStockTake(counts);
+  const selectedIds = approvedIds ?? summary.variances.map(line => line.count.id);
+  const selectedImpact = summary.variances
+    .filter(line => selectedIds.includes(line.count.id))
+    .reduce((sum, line) => sum + line.costImpact, 0);
+
+  const toggleApproved = (id: string) =>
+    setApprovedIds(selectedIds.includes(id) ? selectedIds.filter(item => item !== id) : [...selectedIds, id]);
+
+  const handlePost = () => {
+    if (!appUser) return;
+    if (!confirm(`Post ${selectedIds.length} adjustments to stock? Net impact $${selectedImpact.toFixed(2)}.`)) return;
+    runAction(() => postStockTake(stockTake, selectedIds, appUser.id), 'Error posting stock take');
+  };
+
+  const counterName = (count: StockTakeCount) =>
+    count.counter?.full_name || (count.counted_by === appUser?.id ? appUser?.full_name : undefined) || '—';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/stock-take')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <div>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-gray-900">{stockTake.reference}</h1>
+              <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${stockTakeStatusStyles[stockTake.status]}`}>
+                {stockTakeStatusLabels[stockTake.status]}
+              </span>
+            </div>
+            <p className="text-gray-600 flex items-center">
+              <MapPin className="w-4 h-4 mr-1" />
+              {stockTake.location || 'All locations'} • Started {format(new Date(stockTake.created_at), 'MMM dd, yyyy HH:mm')}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          {isOnline ? (
+            <div className="flex items-center space-x-1 text-green-600">
+              <Wifi className="w-4 h-4" />
+              <span className="text-sm font-medium">Online</span>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-1 text-red-600">
+              <WifiOff className="w-4 h-4" />
+              <span className="text-sm font-medium">Offline</span>
+            </div>
+          )}
+          {pendingCount > 0 && (
+            <button
+              onClick={handleSync}
+              disabled={!isOnline}
+              className="flex items-center space-x-1 px-3 py-2 bg-amber-100 text-amber-800 rounded-lg text-sm disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>{pendingCount} to sync</span>
+            </button>
+          )}
+          {isCounting && (
+            <button
+              onClick={handleSubmit}
+              disabled={processing || counts.length === 0}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              <span>Submit for Approval</span>
+            </button>
+          )}
+          {(isCounting || canApprove) && (
+            <button
+              onClick={handleCancel}
+              disabled={processing}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <XCircle className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-sm font-medium text-gray-600">Counted</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{counts.length}</p>
+          <p className="text-sm text-gray-500">of {batches.filter(medicine => medicine.quantity > 0).length} batches in stock</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-sm font-medium text-gray-600">Units Short</p>
+          <p className={`text-2xl font-bold mt-1 ${summary.unitsShort < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {Math.abs(summary.unitsShort)}
+          </p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-sm font-medium text-gray-600">Units Over</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{summary.unitsOver}</p>
+        </div>
+        <div className={`p-6 rounded-2xl shadow-sm border ${
+          summary.netCostImpact < 0 ? 'bg-red-50 border-red-200' : 'bg-white border-gray-100'
+        }`}>
+          <p className="text-sm font-medium text-gray-600">Net Cost Impact</p>
+          <p className={`text-2xl font-bold mt-1 ${summary.netCostImpact < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            ${summary.netCostImpact.toFixed(2)}
+          </p>
+          <p className="text-sm text-gray-500">{summary.variances.length} variances at cost</p>
+        </div>
+      </div>
+
+      {isCounting && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-6 border-b border-gray-100 flex items-center space-x-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Find by name, batch or location..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={() => setShowScanner(true)}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Scan className="w-5 h-5" />
+              <span>Scan</span>
+            </button>
+          </div>
+
+          {scanMessage && (
+            <div className="px-6 py-3 bg-blue-50 text-blue-800 text-sm border-b border-blue-100">{scanMessage}</div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Medicine</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">System</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleBatches.map((medicine) => {
+                  const count = countFor(medicine);
+                  const line = count ? countVariance(count) : null;
+                  return (
+                    <tr key={medicine.id} className={count ? 'bg-green-50' : ''}>
+                      <td className="px-6 py-3 text-sm text-gray-600">{medicine.location || '—'}</td>
+                      <td className="px-6 py-3 text-sm font-medium text-gray-900">{medicine.name}</td>
+                      <td className="px-6 py-3 text-sm">
+                        <span className="font-mono text-gray-900">{medicine.batch_no}</span>
+                        <span className="block text-xs text-gray-500">
+                          Exp {format(new Date(medicine.expiry_date), 'MMM yyyy')}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-right text-gray-600">{count?.system_quantity ?? medicine.quantity}</td>
+                      <td className="px-6 py-3">
+                        <input
+                          type="number"
+                          min="0"
+                          value={drafts[medicine.id] ?? count?.counted_quantity ?? ''}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [medicine.id]: e.target.value }))}
+                          onBlur={() => handleDraftCommit(medicine)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleDraftCommit(medicine)}
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </td>
+                      <td className={`px-6 py-3 text-sm text-right font-medium ${
+                        !line || line.variance === 0 ? 'text-gray-600' : line.variance < 0 ? 'text-red-600' : 'text-amber-600'
+                      }`}>
+                        {line ? `${line.variance > 0 ? '+' : ''}${line.variance}` : '—'}
+                        {line && line.variance !== 0 && (
+                          <span className="block text-xs">${line.costImpact.toFixed(2)}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {visibleBatches.length === 0 && (
+            <p className="text-center py-12 text-gray-600">No batches match this count.</p>
+          )}
+        </div>
+      )}
+
+      {/* Variance review */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Variances</h3>
+          {canApprove && (
+            <button
+              onClick={handlePost}
+              disabled={processing || !isOnline}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>Post {selectedIds.length} Adjustments (${selectedImpact.toFixed(2)})</span>
+            </button>
+          )}
+        </div>
+        {summary.variances.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {canApprove && <th className="px-6 py-3"></th>}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Medicine</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">System</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost Impact</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {summary.variances.map(({ count, variance, costImpact }) => (
+                  <tr key={count.id}>
+                    {canApprove && (
+                      <td className="px-6 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(count.id)}
+                          onChange={() => toggleApproved(count.id)}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                      </td>
+                    )}
+                    <td className="px-6 py-3 text-gray-900">
+                      {count.medicine_name}
+                      <span className="block font-mono text-xs text-gray-500">{count.batch_no}</span>
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">{count.location || '—'}</td>
+                    <td className="px-6 py-3 text-right text-gray-600">{count.system_quantity}</td>
+                    <td className="px-6 py-3 text-right text-gray-900">{count.counted_quantity}</td>
+                    <td className={`px-6 py-3 text-right font-medium ${variance < 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                      {variance > 0 ? '+' : ''}{variance}
+                    </td>
+                    <td className={`px-6 py-3 text-right ${costImpact < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      ${costImpact.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">
+                      {counterName(count)}
+                      {stockTake.status === 'posted' && count.approved && (
+                        <span className="ml-2 text-xs text-green-700">Posted</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center py-12 text-gray-600">
+            {counts.length > 0 ? 'Every counted batch matches the system quantity.' : 'No batches counted yet.'}
+          </p>
+        )}
+      </div>
+
+      <BarcodeScanner
+        isOpen={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanResult={handleBarcodeScanned}
+      />
+    </div>
+  );
+};
+
+export default StockTakeSession;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { OperatingHours, Store, User, Weekday } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+
+interface StoreFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  editingStore?: Store | null;
+  users: User[];
+}
+
+interface StoreFormData {
+  name: string;
+  code: string;
+  description: string;
+  address: string;
+  phone: string;
+  email: string;
+  license_number: string;
+  manager_id: string;
+}
+
+const weekdays: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const emptyForm: StoreFormData = {
+  name: '',
+  code: '',
+  description: '',
+  address: '',
+  phone: '',
+  email: '',
+  license_number: '',
+  manager_id: '',
+};
+
+const defaultHours = (): OperatingHours =>
+  weekdays.reduce((acc, day) => {
+    acc[day] = { open: '09:00', close: '21:00', closed: day === 'sunday' };
+    return acc;
+  }, {} as OperatingHours);
+
+const StoreForm: React.FC<StoreFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  editingStore,
+  users,
+}) => {
+  const [formData, setFormData] = useState<StoreFormData>(emptyForm);
+  const [hours, setHours] = useState<OperatingHours>(defaultHours());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+
+  useEffect(() => {
+    if (editingStore) {
+      setFormData({
+        name: editingStore.name,
+        code: editingStore.code,
+        description: editingStore.description || '',
+        address: editingStore.address,
+        phone: editingStore.phone || '',
+        email: editingStore.email || '',
+        license_number: editingStore.license_number || '',
+        manager_id: editingStore.manager_id || '',
+      });
+      setHours({ ...defaultHours(), ...editingStore.operating_hours });
+    } else {
+      setFormData(emptyForm);
+      setHours(defaultHours());
+    }
+    setError('');
+  }, [editingStore, isOpen]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: name === 'code' ? value.toUpperCase() : value }));
+  };
+
+  const updateHours = (day: Weekday, field: 'open' | 'close' | 'closed', value: string | boolean) => {
+    setHours(prev => ({
+      ...prev,
+      [day]: { open: '09:00', close: '21:00', ...prev[day], [field]: value },
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!appUser?.organization_id) return;
+
+    setLoading(true);
+    setError('');
+
+    const storeData = {
+      ...formData,
+      code: formData.code.trim(),
+      description: formData.description || null,
+      phone: formData.phone || null,
+      email: formData.email || null,
+      license_number: formData.license_number || null,
+      manager_id: formData.manager_id || null,
+      operating_hours: hours,
+    };
+
+    try {
+      if (editingStore) {
+        const { error } = await supabase
+          .from('stores')
+          .update({ ...storeData, updated_at: new Date().toISOString() })
+          .eq('id', editingStore.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('stores')
+          .insert({
+            ...storeData,
+            organization_id: appUser.organization_id,
+          });
+
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error saving store:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {editingStore ? 'Edit Store' : 'Add New Store'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Store Name *</label>
+              <input
+                type="text"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Store Code *</label>
+              <input
+                type="text"
+                name="code"
+                value={formData.code}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g. DT01"
+                required
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Address *</label>
+              <textarea
+                name="address"
+                value={formData.address}
+                onChange={handleInputChange}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+              <input
+                type="tel"
+                name="phone"
+                value={formData.phone}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+              <input
+                type="email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">License Number</label>
+              <input
+                type="text"
+                name="license_number"
+                value={formData.license_number}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Store Manager</label>
+              <select
+                name="manager_id"
+                value={formData.manager_id}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No manager assigned</option>
+                {users.map((user) => (
+                  <option key={user.id} value={user.id}>{user.full_name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <input
+                type="text"
+                name="description"
+                value={formData.description}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Operating Hours</h3>
+            <div className="border border-gray-200 rounded-xl divide-y divide-gray-200">
+              {weekdays.map((day) => {
+                const dayHours = hours[day];
+                return (
+                  <div key={day} className="flex items-center justify-between px-4 py-2">
+                    <span className="w-28 text-sm font-medium text-gray-900 capitalize">{day}</span>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="time"
+                        value={dayHours?.open || ''}
+                        onChange={(e) => updateHours(day, 'open', e.target.value)}
+                        disabled={dayHours?.closed}
+                        className="px-2 py-1 border border-gray-300 rounded disabled:opacity-40"
+                      />
+                      <span className="text-gray-400">–</span>
+                      <input
+                        type="time"
+                        value={dayHours?.close || ''}
+                        onChange={(e) => updateHours(day, 'close', e.target.value)}
+                        disabled={dayHours?.closed}
+                        className="px-2 py-1 border border-gray-300 rounded disabled:opacity-40"
+                      />
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={!!dayHours?.closed}
+                        onChange={(e) => updateHours(day, 'closed', e.target.checked)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span>Closed</span>
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : editingStore ? 'Update Store' : 'Add Store'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StoreForm;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Plus,
+  Store as StoreIcon,
+  Edit,
+  Power,
+  MapPin,
+  Phone,
+  Clock,
+  UserCheck,
+  AlertTriangle,
+  ArrowRightCircle,
+} from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Organization, Store, User, Weekday } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { StoreStats, buildStoreStats, canAddStore, getStoreStats } from '../../utils/storeStats';
+import StoreForm from './StoreForm';
+
+const StoreList: React.FC = () => {
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [stats, setStats] = useState<Record<string, StoreStats>>({});
+  const [loading, setLoading] = useState(true);
+  const [showInactive, setShowInactive] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingStore, setEditingStore] = useState<Store | null>(null);
+
+  const { appUser } = useAuthContext();
+  const { currentStore, selectStore, refresh } = useStoreContext();
+  const navigate = useNavigate();
+
+  const fetchStores = useCallback(async () => {
+    if (!appUser?.organization_id) return;
+
+    try {
+      setLoading(true);
+
+      const { data: orgData, error: orgError } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('id', appUser.organization_id)
+        .single();
+
+      if (orgError) throw orgError;
+
+      const { data: storesData, error: storesError } = await supabase
+        .from('stores')
+        .select('*')
+        .eq('organization_id', appUser.organization_id)
+        .order('name');
+
+      if (storesError) throw storesError;
+
+      const { data: usersData } = await supabase
+        .from('users')
+        .select('*')
+        .eq('organization_id', appUser.organization_id)
+        .order('full_name');
+
+      const { data: medicinesData } = await supabase
+        .from('medicines')
+        .select('store_id, name, quantity, cost_price, min_stock_level, expiry_date, quarantined')
+        .eq('organization_id', appUser.organization_id);
+
+      const { data: salesData } = await supabase
+        .from('sales')
+        .select('store_id, total_amount, created_at')
+        .eq('organization_id', appUser.organization_id)
+        .gte('created_at', subDays(new Date(), 31).toISOString());
+
+      setOrganization(orgData);
+      setStores(storesData || []);
+      setUsers(usersData || []);
+      setStats(buildStoreStats(medicinesData || [], salesData || []));
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [appUser?.organization_id]);
+
+  useEffect(() => {
+    fetchStores();
+  }, [fetchStores]);
+
+  // The store switcher reads from the shared context, so keep it in step
+  const handleChanged = () => {
+    fetchStores();
+    refresh();
+  };
+
+  const activeStores = stores.filter(store => store.is_active);
+  const canAdd = canAddStore(organization, activeStores.length);
+
+  const handleAdd = () => {
+    setEditingStore(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (store: Store) => {
+    setEditingStore(store);
+    setShowForm(true);
+  };
+
+  const handleToggleActive = async (store: Store) => {
+    const deactivating = store.is_active;
+
+    if (deactivating) {
+      if (activeStores.length === 1) {
+        alert('You need at least one active store.');
+        return;
+      }
+      if (!confirm(`Deactivate ${store.name}? Its stock, sales and history will be kept.`)) return;
+    } else if (!canAdd) {
+      alert(`Your ${organization?.subscription_plan} plan allows ${organization?.max_stores} active store(s). Upgrade to reactivate this store.`);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('stores')
+        .update({ is_active: !deactivating, updated_at: new Date().toISOString() })
+        .eq('id', store.id);
+
+      if (error) throw error;
+      handleChanged();
+    } catch (error) {
+      console.error('Error updating store:', error);
+      alert(error instanceof Error ? error.message : 'Error updating store');
+    }
+  };
+
+  const handleSwitch = (store: Store) => {
+    selectStore(store.id);
+    navigate('/');
+  };
+
+  const todayHours = (store: Store) => {
+    const day = format(new Date(), 'EEEE').toLowerCase() as Weekday;
+    const hours = store.operating_hours?.[day];
+    if (!hours) return null;
+    return hours.closed ? 'Closed today' : `${hours.open} – ${hours.close} today`;
+  };
+
+  const visibleStores = stores.filter(store => showInactive || store.is_active);
+
+  if (loading && stores.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stores</h1>
+          <p className="text-gray-600 mt-1">
+            {activeStores.length} of {organization && organization.max_stores < 0 ? 'unlimited' : organization?.max_stores} stores
+            on the {organization?.subscription_plan} plan
+          </p>
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add Store</span>
+        </button>
+      </div>
+
+      {organization && !canAdd && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-amber-800">
+            <AlertTriangle className="w-5 h-5" />
+            <span>You've reached the store limit for your plan.</span>
+          </div>
+          <button
+            onClick={() => navigate('/subscription-request')}
+            className="text-sm font-medium text-amber-800 hover:text-amber-900"
+          >
+            Upgrade plan →
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={showInactive}
+          onChange={(e) => setShowInactive(e.target.checked)}
+          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>Show inactive</span>
+      </label>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {visibleStores.map((store) => {
+          const storeStats = getStoreStats(stats, store.id);
+          const manager = users.find(user => user.id === store.manager_id);
+          const hours = todayHours(store);
+          return (
+            <div
+              key={store.id}
+              className={`bg-white p-6 rounded-2xl shadow-sm border ${
+                store.id === currentStore?.id ? 'border-blue-300' : 'border-gray-100'
+              } ${store.is_active ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="text-lg font-semibold text-gray-900">{store.name}</h3>
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-mono">{store.code}</span>
+                    {store.id === currentStore?.id && (
+                      <span className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">Current</span>
+                    )}
+                    {!store.is_active && (
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs font-medium">Inactive</span>
+                    )}
+                  </div>
+                  <div className="mt-2 space-y-1 text-sm text-gray-600">
+                    <p className="flex items-center space-x-2"><MapPin className="w-4 h-4" /><span>{store.address}</span></p>
+                    {store.phone && (
+                      <p className="flex items-center space-x-2"><Phone className="w-4 h-4" /><span>{store.phone}</span></p>
+                    )}
+                    <p className="flex items-center space-x-2">
+                      <UserCheck className="w-4 h-4" />
+                      <span>{manager ? manager.full_name : 'No manager assigned'}</span>
+                    </p>
+                    {hours && (
+                      <p className="flex items-center space-x-2"><Clock className="w-4 h-4" /><span>{hours}</span></p>
+                    )}
+                    {store.license_number && <p className="text-xs text-gray-500">License {store.license_number}</p>}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  {store.is_active && store.id !== currentStore?.id && (
+                    <button
+                      onClick={() => handleSwitch(store)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="Switch to this store"
+                    >
+                      <ArrowRightCircle className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleEdit(store)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Edit"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(store)}
+                    className={`p-2 text-gray-400 transition-colors ${store.is_active ? 'hover:text-red-600' : 'hover:text-green-600'}`}
+                    title={store.is_active ? 'Deactivate' : 'Reactivate'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 border-t border-gray-100">
+                <div>
+                  <p className="text-xs text-gray-500">Sales Today</p>
+                  <p className="text-lg font-semibold text-gray-900">${storeStats.salesToday.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Sales (30 days)</p>
+                  <p className="text-lg font-semibold text-gray-900">${storeStats.salesLast30Days.toFixed(2)}</p>
+                  <p className="text-xs text-gray-500">{storeStats.transactionsLast30Days} transactions</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Stock Value</p>
+                  <p className="text-lg font-semibold text-gray-900">${storeStats.stockValue.toFixed(2)}</p>
+                  <p className="text-xs text-gray-500">{storeStats.skuCount} products</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Attention</p>
+                  <p className={`text-sm font-medium ${storeStats.lowStockCount > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                    {storeStats.lowStockCount} low stock
+                  </p>
+                  <p className={`text-sm font-medium ${storeStats.expiringCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {storeStats.expiringCount} expiring
+                  </p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {visibleStores.length === 0 && (
+        <div className="text-center py-12">
+          <StoreIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No stores found</h3>
+          <p className="text-gray-600">Add your first branch to get started.</p>
+        </div>
+      )}
+
+      <StoreForm
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        onSuccess={handleChanged}
+        editingStore={editingStore}
+        users={users}
+      />
+    </div>
+  );
+};
+
+export default StoreList;
@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, Plus, Trash2 } from 'lucide-react';
+import { format, differenceInDays } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+
+interface StockTransferFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  medicines: Medicine[];
+}
+
+interface TransferLine {
+  key: string;
+  medicine_id: string;
+  quantity: number;
+}
+
+const NEAR_EXPIRY_DAYS = 90;
+
+const emptyLine = (): TransferLine => ({
+  key: crypto.randomUUID(),
+  medicine_id: '',
+  quantity: 1,
+});
+
+const StockTransferForm: React.FC<StockTransferFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  medicines,
+}) => {
+  const [toStoreId, setToStoreId] = useState('');
+  const [transferDate, setTransferDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<TransferLine[]>([emptyLine()]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+  const { stores, currentStore } = useStoreContext();
+
+  useEffect(() => {
+    setToStoreId('');
+    setTransferDate(format(new Date(), 'yyyy-MM-dd'));
+    setNotes('');
+    setLines([emptyLine()]);
+    setError('');
+  }, [isOpen]);
+
+  const now = new Date();
+  // Sellable batches only, soonest expiry first so near-expiry stock is easy to pick
+  const availableBatches = medicines
+    .filter(medicine => medicine.quantity > 0 && !medicine.quarantined && new Date(medicine.expiry_date) > now)
+    .sort((a, b) => a.expiry_date.localeCompare(b.expiry_date));
+
+  const destinationStores = stores.filter(store => store.id !== currentStore?.id);
+
+  const updateLine = (key: string, field: keyof TransferLine, value: string) => {
+    setLines(prev => prev.map(line => {
+      if (line.key !== key) return line;
+      return field === 'quantity'
+        ? { ...line, quantity: parseInt(value) || 0 }
+        : { ...line, [field]: value };
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore || !appUser) return;
+
+    const validLines = lines.filter(line => line.medicine_id && line.quantity > 0);
+    if (validLines.length === 0) {
+      setError('Add at least one batch to transfer.');
+      return;
+    }
+
+    // Each batch goes on one line, so its quantity is checked and deducted once
+    const batchIds = validLines.map(line => line.medicine_id);
+    const repeated = validLines.find((line, index) => batchIds.indexOf(line.medicine_id) !== index);
+    if (repeated) {
+      const batch = medicines.find(medicine => medicine.id === repeated.medicine_id);
+      setError(`${batch?.name || 'A batch'} (batch ${batch?.batch_no}) is on more than one line. Combine them into one line.`);
+      return;
+    }
+
+    for (const line of validLines) {
+      const batch = medicines.find(medicine => medicine.id === line.medicine_id);
+      if (batch && line.quantity > batch.quantity) {
+        setError(`Only ${batch.quantity} units of ${batch.name} (batch ${batch.batch_no}) in stock.`);
+        return;
+      }
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const { data: transfer, error: transferError } = await supabase
+        .from('stock_transfers')
+        .insert({
+          organization_id: currentStore.organization_id,
+          from_store_id: currentStore.id,
+          to_store_id: toStoreId,
+          transfer_number: `TR-${currentStore.code}-${format(new Date(), 'yyMMdd-HHmmss')}`,
+          status: 'pending',
+          requested_by: appUser.id,
+          transfer_date: transferDate,
+          notes: notes || null,
+        })
+        .select()
+        .single();
+
+      if (transferError) throw transferError;
+
+      const { error: itemsError } = await supabase
+        .from('stock_transfer_items')
+        .insert(validLines.map(line => {
+          const batch = medicines.find(medicine => medicine.id === line.medicine_id);
+          return {
+            transfer_id: transfer.id,
+            medicine_id: line.medicine_id,
+            medicine_name: batch?.name,
+            batch_no: batch?.batch_no,
+            expiry_date: batch?.expiry_date,
+            category: batch?.category,
+            manufacturer: batch?.manufacturer || null,
+            quantity: line.quantity,
+            unit_cost: batch?.cost_price || 0,
+            unit_price: batch?.price || 0,
+            controlled: batch?.controlled || false,
+            schedule: batch?.schedule || null,
+            prescription_only: batch?.prescription_only || false,
+            active_ingredients: batch?.active_ingredients || [],
+            strength: batch?.strength || null,
+          };
+        }));
+
+      if (itemsError) throw itemsError;
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error creating stock transfer:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">New Stock Transfer</h2>
+              <p className="text-gray-600">From {currentStore?.name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Destination Store *</label>
+              <select
+                value={toStoreId}
+                onChange={(e) => setToStoreId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              >
+                <option value="">Select store</option>
+                {destinationStores.map((store) => (
+                  <option key={store.id} value={store.id}>{store.name} ({store.code})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Transfer Date</label>
+              <input
+                type="date"
+                value={transferDate}
+                onChange={(e) => setTransferDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-xl overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Batch</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Expiry</th>
+                  <th className="px-3 py-3 text-left text-sm font-semibold text-gray-900">Qty</th>
+                  <th className="px-3 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line) => {
+                  const batch = medicines.find(medicine => medicine.id === line.medicine_id);
+                  const daysLeft = batch ? differenceInDays(new Date(batch.expiry_date), now) : null;
+                  return (
+                    <tr key={line.key}>
+                      <td className="px-3 py-2">
+                        <select
+                          value={line.medicine_id}
+                          onChange={(e) => updateLine(line.key, 'medicine_id', e.target.value)}
+                          className="w-full px-2 py-1 border border-gray-300 rounded"
+                          required
+                        >
+                          <option value="">Select batch</option>
+                          {availableBatches.map((medicine) => (
+                            <option key={medicine.id} value={medicine.id}>
+                              {medicine.name} — {medicine.batch_no} ({medicine.quantity} in stock)
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2 text-sm">
+                        {batch && (
+                          <span className={daysLeft !== null && daysLeft <= NEAR_EXPIRY_DAYS ? 'text-amber-600 font-medium' : 'text-gray-600'}>
+                            {format(new Date(batch.expiry_date), 'MMM dd, yyyy')} ({daysLeft}d)
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="1"
+                          max={batch?.quantity}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.key, 'quantity', e.target.value)}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded"
+                          required
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                          disabled={lines.length === 1}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="px-3 py-3 bg-gray-50 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={() => setLines(prev => [...prev, emptyLine()])}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add batch</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || destinationStores.length === 0}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Submitting...' : 'Request Transfer'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockTransferForm;
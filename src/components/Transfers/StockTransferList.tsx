@@ -0,0 +1,418 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Plus,
+  Search,
+  ArrowLeftRight,
+  ArrowUpRight,
+  ArrowDownLeft,
+  CheckCircle,
+  Truck,
+  PackageCheck,
+  XCircle,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Medicine, StockTransfer } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { canApproveTransfer, dispatchTransfer, receiveTransfer } from '../../utils/stockTransfers';
+import StockTransferForm from './StockTransferForm';
+
+type DirectionFilter = 'all' | 'outgoing' | 'incoming';
+
+const statusStyles: Record<StockTransfer['status'], string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const statusLabels: Record<StockTransfer['status'], string> = {
+  pending: 'Pending',
+  in_transit: 'In Transit',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const StockTransferList: React.FC = () => {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const { appUser } = useAuthContext();
+  const { stores, currentStore } = useStoreContext();
+
+  const fetchTransfers = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: transfersData, error: transfersError } = await supabase
+        .from('stock_transfers')
+        .select(`
+          *,
+          from_store:stores!stock_transfers_from_store_id_fkey (*),
+          to_store:stores!stock_transfers_to_store_id_fkey (*),
+          items:stock_transfer_items (*)
+        `)
+        .or(`from_store_id.eq.${currentStore.id},to_store_id.eq.${currentStore.id}`)
+        .order('created_at', { ascending: false });
+
+      if (transfersError) throw transfersError;
+
+      const { data: medicinesData } = await supabase
+        .from('medicines')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .order('name');
+
+      setTransfers(transfersData || []);
+      setMedicines(medicinesData || []);
+    } catch (error) {
+      console.error('Error fetching stock transfers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers]);
+
+  const runAction = async (transfer: StockTransfer, action: () => Promise<void>, failure: string) => {
+    setProcessingId(transfer.id);
+    try {
+      await action();
+      fetchTransfers();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(error instanceof Error ? error.message : failure);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleApprove = (transfer: StockTransfer) =>
+    runAction(transfer, async () => {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('stock_transfers')
+        .update({ approved_by: appUser?.id, approved_at: now, updated_at: now })
+        .eq('id', transfer.id)
+        .eq('status', 'pending')
+        .is('approved_by', null)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error(`Transfer ${transfer.transfer_number} has already been approved or is no longer pending.`);
+      }
+    }, 'Error approving transfer');
+
+  const handleDispatch = (transfer: StockTransfer) => {
+    if (!appUser) return;
+    if (!confirm(`Dispatch ${transfer.transfer_number}? Stock will be deducted from ${currentStore?.name}.`)) return;
+    runAction(transfer, () => dispatchTransfer(transfer, appUser.id), 'Error dispatching transfer');
+  };
+
+  const handleReceive = (transfer: StockTransfer) => {
+    if (!currentStore || !appUser) return;
+    runAction(transfer, () => receiveTransfer(transfer, currentStore, appUser.id), 'Error receiving transfer');
+  };
+
+  const handleCancel = (transfer: StockTransfer) => {
+    if (!confirm(`Cancel transfer ${transfer.transfer_number}?`)) return;
+    runAction(transfer, async () => {
+      const { data, error } = await supabase
+        .from('stock_transfers')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', transfer.id)
+        .eq('status', 'pending')
+        .is('dispatched_at', null)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error(`Transfer ${transfer.transfer_number} has already been dispatched and can no longer be cancelled.`);
+      }
+    }, 'Error cancelling transfer');
+  };
+
+  const filteredTransfers = transfers.filter(transfer => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      transfer.transfer_number.toLowerCase().includes(term) ||
+      (transfer.from_store?.name.toLowerCase().includes(term) ?? false) ||
+      (transfer.to_store?.name.toLowerCase().includes(term) ?? false) ||
+      transfer.items.some(item => item.medicine_name.toLowerCase().includes(term));
+    const matchesDirection =
+      directionFilter === 'all' ||
+      (directionFilter === 'outgoing' && transfer.from_store_id === currentStore?.id) ||
+      (directionFilter === 'incoming' && transfer.to_store_id === currentStore?.id);
+    return matchesSearch && matchesDirection;
+  });
+
+  const awaitingApproval = transfers.filter(t => t.status === 'pending' && !t.approved_by).length;
+  const inTransit = transfers.filter(t => t.status === 'in_transit').length;
+  const incomingInTransit = transfers.filter(
+    t => t.status === 'in_transit' && t.to_store_id === currentStore?.id
+  ).length;
+
+  if (loading && transfers.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stock Transfers</h1>
+          <p className="text-gray-600 mt-1">Stock moving in and out of {currentStore?.name}</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>New Transfer</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Awaiting Approval</p>
+              <p className="text-2xl font-bold text-gray-900">{awaitingApproval}</p>
+            </div>
+            <CheckCircle className="w-8 h-8 text-amber-500" />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">In Transit</p>
+              <p className="text-2xl font-bold text-gray-900">{inTransit}</p>
+            </div>
+            <Truck className="w-8 h-8 text-blue-500" />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Arriving Here</p>
+              <p className="text-2xl font-bold text-gray-900">{incomingInTransit}</p>
+            </div>
+            <PackageCheck className="w-8 h-8 text-green-500" />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by transfer number, store or medicine..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {(['all', 'outgoing', 'incoming'] as DirectionFilter[]).map((direction) => (
+            <button
+              key={direction}
+              onClick={() => setDirectionFilter(direction)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                directionFilter === direction ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {direction.charAt(0).toUpperCase() + direction.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredTransfers.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Transfer</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Route</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Date</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Units</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Status</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredTransfers.map((transfer) => {
+                const outgoing = transfer.from_store_id === currentStore?.id;
+                const processing = processingId === transfer.id;
+                return (
+                  <React.Fragment key={transfer.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === transfer.id ? null : transfer.id)}
+                      className="hover:bg-gray-50 transition-colors cursor-pointer"
+                    >
+                      <td className="px-6 py-4 font-medium text-gray-900">
+                        <div className="flex items-center space-x-2">
+                          {expandedId === transfer.id ? (
+                            <ChevronDown className="w-4 h-4 text-gray-400" />
+                          ) : (
+                            <ChevronRight className="w-4 h-4 text-gray-400" />
+                          )}
+                          {outgoing ? (
+                            <ArrowUpRight className="w-4 h-4 text-orange-500" />
+                          ) : (
+                            <ArrowDownLeft className="w-4 h-4 text-green-500" />
+                          )}
+                          <span className="font-mono">{transfer.transfer_number}</span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-gray-900">
+                        {transfer.from_store?.name} → {transfer.to_store?.name}
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {format(new Date(transfer.transfer_date), 'MMM dd, yyyy')}
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">
+                        {transfer.items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${statusStyles[transfer.status]}`}>
+                          {transfer.status === 'pending' && transfer.approved_by ? 'Approved' : statusLabels[transfer.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex items-center justify-end space-x-2">
+                          {canApproveTransfer(transfer, stores, appUser) && (
+                            <button
+                              onClick={() => handleApprove(transfer)}
+                              disabled={processing}
+                              className="p-2 text-gray-400 hover:text-green-600 transition-colors disabled:opacity-50"
+                              title="Approve"
+                            >
+                              <CheckCircle className="w-4 h-4" />
+                            </button>
+                          )}
+                          {outgoing && transfer.status === 'pending' && transfer.approved_by && (
+                            <button
+                              onClick={() => handleDispatch(transfer)}
+                              disabled={processing}
+                              className="p-2 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                              title="Dispatch"
+                            >
+                              <Truck className="w-4 h-4" />
+                            </button>
+                          )}
+                          {!outgoing && transfer.status === 'in_transit' && (
+                            <button
+                              onClick={() => handleReceive(transfer)}
+                              disabled={processing}
+                              className="p-2 text-gray-400 hover:text-green-600 transition-colors disabled:opacity-50"
+                              title="Receive"
+                            >
+                              <PackageCheck className="w-4 h-4" />
+                            </button>
+                          )}
+                          {transfer.status === 'pending' && (
+                            <button
+                              onClick={() => handleCancel(transfer)}
+                              disabled={processing}
+                              className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                              title="Cancel"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedId === transfer.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-gray-600">
+                                <th className="py-2 text-left font-medium">Medicine</th>
+                                <th className="py-2 text-left font-medium">Batch</th>
+                                <th className="py-2 text-left font-medium">Expiry</th>
+                                <th className="py-2 text-right font-medium">Qty</th>
+                                <th className="py-2 text-right font-medium">Value at Cost</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {transfer.items.map((item) => (
+                                <tr key={item.id} className="text-gray-900">
+                                  <td className="py-1">{item.medicine_name}</td>
+                                  <td className="py-1 font-mono">{item.batch_no}</td>
+                                  <td className="py-1">{format(new Date(item.expiry_date), 'MMM dd, yyyy')}</td>
+                                  <td className="py-1 text-right">{item.quantity}</td>
+                                  <td className="py-1 text-right">${(item.quantity * item.unit_cost).toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500 mt-3">
+                            {transfer.approved_at && <span>Approved {format(new Date(transfer.approved_at), 'MMM dd, HH:mm')}</span>}
+                            {transfer.dispatched_at && <span>Dispatched {format(new Date(transfer.dispatched_at), 'MMM dd, HH:mm')}</span>}
+                            {transfer.received_at && <span>Received {format(new Date(transfer.received_at), 'MMM dd, HH:mm')}</span>}
+                          </div>
+                          {transfer.notes && <p className="text-sm text-gray-600 mt-3">{transfer.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <ArrowLeftRight className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No stock transfers found</h3>
+            <p className="text-gray-600">
+              {searchTerm || directionFilter !== 'all'
+                ? 'Try adjusting your search or filters.'
+                : 'Move stock to another branch to get started.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <StockTransferForm
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        onSuccess={fetchTransfers}
+        medicines={medicines}
+      />
+    </div>
+  );
+};
+
+export default StockTransferList;
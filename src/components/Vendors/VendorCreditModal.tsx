@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { Payment, Vendor, VendorReturn } from '../../types';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { recordVendorCredit } from '../../utils/expiryActions';
+
+interface VendorCreditModalProps {
+  vendorReturn: VendorReturn | null;
+  vendor: Vendor;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const VendorCreditModal: React.FC<VendorCreditModalProps> = ({ vendorReturn, vendor, onClose, onSuccess }) => {
+  const [amount, setAmount] = useState(0);
+  const [paymentMethod, setPaymentMethod] = useState<Payment['payment_method']>('bank_transfer');
+  const [creditDate, setCreditDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { appUser } = useAuthContext();
+
+  useEffect(() => {
+    if (vendorReturn) {
+      setAmount(vendorReturn.credit_expected);
+      setPaymentMethod('bank_transfer');
+      setCreditDate(format(new Date(), 'yyyy-MM-dd'));
+      setError('');
+    }
+  }, [vendorReturn]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vendorReturn || !appUser) return;
+
+    if (amount < 0) {
+      setError('Credit cannot be negative.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      await recordVendorCredit({ ...vendorReturn, vendor }, amount, paymentMethod, creditDate, appUser.id);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording vendor credit:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!vendorReturn) return null;
+
+  const shortfall = Math.max(0, vendorReturn.credit_expected - amount);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Record Vendor Credit</h2>
+              <p className="text-sm text-gray-600">
+                Return {vendorReturn.return_number} • {vendor.name}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 text-center">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-600">Expected</p>
+              <p className="font-semibold text-gray-900">${vendorReturn.credit_expected.toFixed(2)}</p>
+            </div>
+            <div className="bg-amber-50 rounded-lg p-3">
+              <p className="text-xs text-amber-700">Written Off</p>
+              <p className="font-semibold text-amber-900">${shortfall.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Credit Received *</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date *</label>
+              <input
+                type="date"
+                value={creditDate}
+                onChange={(e) => setCreditDate(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Received As</label>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value as Payment['payment_method'])}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="cash">Cash</option>
+              <option value="card">Card</option>
+              <option value="bank_transfer">Bank Transfer</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : 'Record Credit'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VendorCreditModal;
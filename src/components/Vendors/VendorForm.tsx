@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Vendor } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+
+interface VendorFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  editingVendor?: Vendor | null;
+}
+
+interface VendorFormData {
+  name: string;
+  contact_person: string;
+  phone: string;
+  email: string;
+  address: string;
+  notes: string;
+}
+
+const emptyForm: VendorFormData = {
+  name: '',
+  contact_person: '',
+  phone: '',
+  email: '',
+  address: '',
+  notes: '',
+};
+
+const VendorForm: React.FC<VendorFormProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  editingVendor,
+}) => {
+  const [formData, setFormData] = useState<VendorFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { currentStore } = useStoreContext();
+
+  useEffect(() => {
+    if (editingVendor) {
+      setFormData({
+        name: editingVendor.name,
+        contact_person: editingVendor.contact_person,
+        phone: editingVendor.phone,
+        email: editingVendor.email || '',
+        address: editingVendor.address,
+        notes: editingVendor.notes || '',
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+    setError('');
+  }, [editingVendor, isOpen]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    const vendorData = {
+      ...formData,
+      email: formData.email || null,
+      notes: formData.notes || null,
+    };
+
+    try {
+      if (editingVendor) {
+        const { error } = await supabase
+          .from('vendors')
+          .update(vendorData)
+          .eq('id', editingVendor.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('vendors')
+          .insert({
+            ...vendorData,
+            organization_id: currentStore?.organization_id,
+          });
+
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error saving vendor:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {editingVendor ? 'Edit Vendor' : 'Add Vendor'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                Vendor Name *
+              </label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="contact_person" className="block text-sm font-medium text-gray-700 mb-2">
+                Contact Person *
+              </label>
+              <input
+                type="text"
+                id="contact_person"
+                name="contact_person"
+                value={formData.contact_person}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                Phone *
+              </label>
+              <input
+                type="tel"
+                id="phone"
+                name="phone"
+                value={formData.phone}
+                onChange={handleInputChange}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
+              Address *
+            </label>
+            <input
+              type="text"
+              id="address"
+              name="address"
+              value={formData.address}
+              onChange={handleInputChange}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              rows={3}
+              className={inputClassName}
+              placeholder="Payment terms, delivery days, account number..."
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save className="w-5 h-5" />
+              <span>{loading ? 'Saving...' : editingVendor ? 'Update Vendor' : 'Add Vendor'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VendorForm;
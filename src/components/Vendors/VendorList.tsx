@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Search, Truck, Phone, Edit, Archive, RotateCcw, ChevronRight } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Purchase, Vendor } from '../../types';
+import { useStoreContext } from '../../hooks/useStoreContext';
+import { computeVendorStats, fetchLostUnits } from '../../utils/vendorStats';
+import VendorForm from './VendorForm';
+
+const VendorList: React.FC = () => {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [lostUnits, setLostUnits] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+
+  const { currentStore } = useStoreContext();
+  const navigate = useNavigate();
+
+  const fetchVendors = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      setLoading(true);
+
+      const { data: vendorsData, error: vendorsError } = await supabase
+        .from('vendors')
+        .select('*')
+        .eq('organization_id', currentStore.organization_id)
+        .order('name');
+
+      if (vendorsError) throw vendorsError;
+
+      const { data: purchasesData, error: purchasesError } = await supabase
+        .from('purchases')
+        .select(`
+          *,
+          items:purchase_items (
+            *,
+            medicine:medicines (quantity, expiry_date)
+          )
+        `)
+        .eq('organization_id', currentStore.organization_id);
+
+      if (purchasesError) throw purchasesError;
+
+      const lostData = await fetchLostUnits(currentStore.organization_id);
+
+      setVendors(vendorsData || []);
+      setPurchases(purchasesData || []);
+      setLostUnits(lostData);
+    } catch (error) {
+      console.error('Error fetching vendors:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    fetchVendors();
+  }, [fetchVendors]);
+
+  const handleEdit = (e: React.MouseEvent, vendor: Vendor) => {
+    e.stopPropagation();
+    setEditingVendor(vendor);
+    setShowForm(true);
+  };
+
+  const handleToggleActive = async (e: React.MouseEvent, vendor: Vendor) => {
+    e.stopPropagation();
+    const deactivating = vendor.is_active !== false;
+    if (deactivating && !confirm(`Deactivate ${vendor.name}? Their purchase history will be kept.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('vendors')
+        .update({ is_active: !deactivating })
+        .eq('id', vendor.id);
+
+      if (error) throw error;
+      fetchVendors();
+    } catch (error) {
+      console.error('Error updating vendor:', error);
+      alert('Error updating vendor');
+    }
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingVendor(null);
+  };
+
+  const filteredVendors = vendors.filter(vendor => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      vendor.name.toLowerCase().includes(term) ||
+      vendor.contact_person.toLowerCase().includes(term) ||
+      vendor.phone.includes(term);
+    return matchesSearch && (showInactive || vendor.is_active !== false);
+  });
+
+  if (loading && vendors.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="space-y-4">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Vendors</h1>
+          <p className="text-gray-600 mt-1">
+            {vendors.filter(vendor => vendor.is_active !== false).length} active suppliers
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add Vendor</span>
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by name, contact or phone..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>Show inactive</span>
+        </label>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredVendors.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Vendor</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Contact</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Total Spend</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Avg Lead Time</th>
+                <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Expired Unsold</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredVendors.map((vendor) => {
+                const stats = computeVendorStats(purchases.filter(purchase => purchase.vendor_id === vendor.id), lostUnits);
+                return (
+                  <tr
+                    key={vendor.id}
+                    onClick={() => navigate(`/vendors/${vendor.id}`)}
+                    className={`hover:bg-gray-50 transition-colors cursor-pointer ${
+                      vendor.is_active === false ? 'opacity-60' : ''
+                    }`}
+                  >
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">{vendor.name}</p>
+                      <p className="text-sm text-gray-600">{stats.purchaseCount} purchases</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <p className="text-sm text-gray-900">{vendor.contact_person}</p>
+                      <div className="flex items-center space-x-1 text-sm text-gray-600">
+                        <Phone className="w-3 h-3 text-gray-400" />
+                        <span>{vendor.phone}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-right font-semibold text-gray-900">
+                      ${stats.totalSpend.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 text-right text-gray-600">
+                      {stats.averageLeadTime !== null ? `${stats.averageLeadTime.toFixed(1)} days` : '—'}
+                    </td>
+                    <td className={`px-6 py-4 text-right ${stats.expiredUnits > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                      {stats.expiredUnits} units
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={(e) => handleEdit(e, vendor)}
+                          className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={(e) => handleToggleActive(e, vendor)}
+                          className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                          title={vendor.is_active === false ? 'Reactivate' : 'Deactivate'}
+                        >
+                          {vendor.is_active === false ? <RotateCcw className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                        <ChevronRight className="w-4 h-4 text-gray-400" />
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12">
+            <Truck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No vendors found</h3>
+            <p className="text-gray-600">
+              {searchTerm ? 'Try adjusting your search or add a new vendor.' : 'Get started by adding your first supplier.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <VendorForm
+        isOpen={showForm}
+        onClose={handleCloseForm}
+        onSuccess={fetchVendors}
+        editingVendor={editingVendor}
+      />
+    </div>
+  );
+};
+
+export default VendorList;
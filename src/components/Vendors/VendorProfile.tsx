@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Edit,
+  Phone,
+  Mail,
+  MapPin,
+  User,
+  Truck,
+  AlertCircle,
+  AlertTriangle,
+  Undo2,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { Purchase, Vendor, VendorReturn } from '../../types';
+import { computeVendorStats, fetchLostUnits } from '../../utils/vendorStats';
+import VendorForm from './VendorForm';
+import VendorCreditModal from './VendorCreditModal';
+
+const VendorProfile: React.FC = () => {
+  const { vendorId } = useParams<{ vendorId: string }>();
+  const navigate = useNavigate();
+
+  const [vendor, setVendor] = useState<Vendor | null>(null);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [returns, setReturns] = useState<VendorReturn[]>([]);
+  const [lostUnits, setLostUnits] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [creditingReturn, setCreditingReturn] = useState<VendorReturn | null>(null);
+
+  const fetchVendor = useCallback(async () => {
+    if (!vendorId) return;
+
+    try {
+      setLoading(true);
+
+      const { data: vendorData, error: vendorError } = await supabase
+        .from('vendors')
+        .select('*')
+        .eq('id', vendorId)
+        .single();
+
+      if (vendorError) throw vendorError;
+
+      const { data: purchasesData, error: purchasesError } = await supabase
+        .from('purchases')
+        .select(`
+          *,
+          items:purchase_items (
+            *,
+            medicine:medicines (*)
+          )
+        `)
+        .eq('vendor_id', vendorId)
+        .order('purchase_date', { ascending: false });
+
+      if (purchasesError) throw purchasesError;
+
+      const { data: returnsData, error: returnsError } = await supabase
+        .from('vendor_returns')
+        .select('*, items:vendor_return_items (*)')
+        .eq('vendor_id', vendorId)
+        .order('created_at', { ascending: false });
+
+      if (returnsError) throw returnsError;
+
+      const medicineIds = (purchasesData || []).flatMap((purchase: Purchase) =>
+        (purchase.items || []).flatMap(item => (item.medicine_id ? [item.medicine_id] : []))
+      );
+      const lostData = await fetchLostUnits(vendorData.organization_id, medicineIds);
+
+      setVendor(vendorData);
+      setPurchases(purchasesData || []);
+      setLostUnits(lostData);
+      setReturns(returnsData || []);
+    } catch (error) {
+      console.error('Error fetching vendor:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [vendorId]);
+
+  useEffect(() => {
+    fetchVendor();
+  }, [fetchVendor]);
+
+  if (loading && !vendor) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+        <div className="h-40 bg-gray-200 rounded-2xl"></div>
+        <div className="h-64 bg-gray-200 rounded-2xl"></div>
+      </div>
+    );
+  }
+
+  if (!vendor) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Vendor not found</h3>
+        <button
+          onClick={() => navigate('/vendors')}
+          className="text-blue-600 hover:text-blue-700 font-medium"
+        >
+          Back to vendors
+        </button>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const stats = computeVendorStats(purchases, lostUnits, now);
+  const creditOutstanding = returns
+    .filter(vendorReturn => vendorReturn.status === 'pending')
+    .reduce((sum, vendorReturn) => sum + vendorReturn.credit_expected, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/vendors')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{vendor.name}</h1>
+            {vendor.is_active === false && (
+              <span className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                Inactive
+              </span>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => setShowEditForm(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <Edit className="w-4 h-4" />
+          <span>Edit</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Vendor Details */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Details</h3>
+          <div className="flex items-center space-x-3 text-gray-700">
+            <User className="w-4 h-4 text-gray-400" />
+            <span>{vendor.contact_person}</span>
+          </div>
+          <div className="flex items-center space-x-3 text-gray-700">
+            <Phone className="w-4 h-4 text-gray-400" />
+            <span>{vendor.phone}</span>
+          </div>
+          {vendor.email && (
+            <div className="flex items-center space-x-3 text-gray-700">
+              <Mail className="w-4 h-4 text-gray-400" />
+              <span>{vendor.email}</span>
+            </div>
+          )}
+          <div className="flex items-center space-x-3 text-gray-700">
+            <MapPin className="w-4 h-4 text-gray-400" />
+            <span>{vendor.address}</span>
+          </div>
+          {vendor.notes && (
+            <p className="text-sm text-gray-600 whitespace-pre-line">{vendor.notes}</p>
+          )}
+        </div>
+
+        {/* Performance */}
+        <div className="lg:col-span-2 grid grid-cols-2 md:grid-cols-4 gap-6 content-start">
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <p className="text-sm font-medium text-gray-600">Total Spend</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">${stats.totalSpend.toFixed(2)}</p>
+            <p className="text-sm text-gray-500">{stats.purchaseCount} purchases</p>
+          </div>
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <p className="text-sm font-medium text-gray-600">Units Received</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{stats.unitsReceived}</p>
+            <p className="text-sm text-gray-500">
+              {stats.lastPurchaseDate ? `Last ${format(new Date(stats.lastPurchaseDate), 'MMM dd')}` : 'No purchases'}
+            </p>
+          </div>
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <p className="text-sm font-medium text-gray-600">Avg Lead Time</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">
+              {stats.averageLeadTime !== null ? `${stats.averageLeadTime.toFixed(1)}d` : '—'}
+            </p>
+            <p className="text-sm text-gray-500">Order to receipt</p>
+          </div>
+          <div className={`p-6 rounded-2xl shadow-sm border ${
+            stats.expiredUnits > 0 ? 'bg-red-50 border-red-200' : 'bg-white border-gray-100'
+          }`}>
+            <p className="text-sm font-medium text-gray-600">Expired Unsold</p>
+            <p className={`text-2xl font-bold mt-1 ${stats.expiredUnits > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {stats.expiredUnits}
+            </p>
+            <p className="text-sm text-gray-500">${stats.expiredValue.toFixed(2)} at cost</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Purchase History */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">Purchase History</h3>
+        </div>
+        {purchases.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {purchases.map((purchase) => (
+              <div key={purchase.id} className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <p className="font-medium text-gray-900">#{purchase.invoice_no}</p>
+                    <p className="text-sm text-gray-600">
+                      Received {format(new Date(purchase.purchase_date), 'MMM dd, yyyy')}
+                      {purchase.order_date && ` • Ordered ${format(new Date(purchase.order_date), 'MMM dd, yyyy')}`}
+                    </p>
+                  </div>
+                  <span className="font-semibold text-gray-900">${purchase.total_amount.toFixed(2)}</span>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {purchase.items.map((item) => {
+                      const expiredOnShelf = item.medicine
+                        && item.medicine.quantity > 0
+                        && new Date(item.medicine.expiry_date) < now;
+                      return (
+                        <tr key={item.id} className="text-gray-700">
+                          <td className="py-1">{item.medicine?.name}</td>
+                          <td className="py-1 font-mono text-gray-500">{item.batch_no || item.medicine?.batch_no}</td>
+                          <td className="py-1">
+                            {item.medicine && format(new Date(item.medicine.expiry_date), 'MMM yyyy')}
+                            {expiredOnShelf && (
+                              <span className="inline-flex items-center ml-2 text-red-600">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {Math.min(item.quantity, item.medicine?.quantity || 0)} expired
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-1 text-right">× {item.quantity}</td>
+                          <td className="py-1 text-right">${item.total_cost.toFixed(2)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Truck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No purchases recorded from this vendor yet.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Returns */}
+      {returns.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Returns</h3>
+            {creditOutstanding > 0 && (
+              <span className="text-sm font-medium text-amber-700">
+                ${creditOutstanding.toFixed(2)} credit outstanding
+              </span>
+            )}
+          </div>
+          <div className="divide-y divide-gray-200">
+            {returns.map((vendorReturn) => (
+              <div key={vendorReturn.id} className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <p className="font-medium text-gray-900 flex items-center">
+                      <Undo2 className="w-4 h-4 text-gray-400 mr-2" />
+                      {vendorReturn.return_number}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {format(new Date(vendorReturn.created_at), 'MMM dd, yyyy')} • {vendorReturn.reason}
+                      {vendorReturn.notes && ` • ${vendorReturn.notes}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    {vendorReturn.status === 'credited' ? (
+                      <>
+                        <span className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          Credited
+                        </span>
+                        <p className="text-sm text-gray-600 mt-1">
+                          ${(vendorReturn.credit_received || 0).toFixed(2)} of ${vendorReturn.credit_expected.toFixed(2)}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="font-semibold text-gray-900">${vendorReturn.credit_expected.toFixed(2)} expected</p>
+                        {vendorReturn.status === 'pending' && (
+                          <button
+                            onClick={() => setCreditingReturn(vendorReturn)}
+                            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                          >
+                            Record credit
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {vendorReturn.items.map((item) => (
+                      <tr key={item.id} className="text-gray-700">
+                        <td className="py-1">{item.medicine_name}</td>
+                        <td className="py-1 font-mono text-gray-500">{item.batch_no}</td>
+                        <td className="py-1">{item.expiry_date && format(new Date(item.expiry_date), 'MMM yyyy')}</td>
+                        <td className="py-1 text-right">× {item.quantity}</td>
+                        <td className="py-1 text-right">${(item.quantity * item.unit_cost).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <VendorForm
+        isOpen={showEditForm}
+        onClose={() => setShowEditForm(false)}
+        onSuccess={fetchVendor}
+        editingVendor={vendor}
+      />
+
+      <VendorCreditModal
+        vendorReturn={creditingReturn}
+        vendor={vendor}
+        onClose={() => setCreditingReturn(null)}
+        onSuccess={fetchVendor}
+      />
+    </div>
+  );
+};
+
+export default VendorProfile;
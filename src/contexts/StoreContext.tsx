@@ -0,0 +1,13 @@
+import React, { ReactNode } from 'react';
+import { useStores } from '../hooks/useStores';
+import { StoreContext } from '../hooks/useStoreContext';
+
+export const StoreProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const stores = useStores();
+
+  return (
+    <StoreContext.Provider value={stores}>
+      {children}
+    </StoreContext.Provider>
+  );
+};
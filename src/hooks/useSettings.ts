@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { Settings } from '../types';
+
+const defaultSettings: Settings = {
+  business_name: 'RxSmart Pharmacy',
+  business_address: '',
+  business_phone: '',
+  business_email: '',
+  currency: 'USD',
+  tax_rate: 0,
+  tax_name: 'Tax',
+  location: '',
+  receipt_footer: 'Thank you for your purchase!',
+};
+
+export const useSettings = () => {
+  const [settings, setSettings] = useState<Settings>(defaultSettings);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('settings')
+        .select('key, value');
+
+      if (error) throw error;
+
+      // Settings are stored as key/value text rows
+      const values = (data || []).reduce((acc, row) => {
+        acc[row.key] = row.value;
+        return acc;
+      }, {} as Record<string, string>);
+
+      setSettings({
+        ...defaultSettings,
+        ...values,
+        tax_rate: parseFloat(values.tax_rate) || 0,
+      });
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  return {
+    settings,
+    loading,
+    refresh: fetchSettings,
+  };
+};
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { Store } from '../types';
+
+interface StoreContextType {
+  stores: Store[];
+  currentStore: Store | null;
+  loading: boolean;
+  selectStore: (storeId: string) => void;
+  refresh: () => Promise<void>;
+}
+
+export const StoreContext = createContext<StoreContextType | undefined>(undefined);
+
+export const useStoreContext = () => {
+  const context = useContext(StoreContext);
+  if (context === undefined) {
+    throw new Error('useStoreContext must be used within a StoreProvider');
+  }
+  return context;
+};
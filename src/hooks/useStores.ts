@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { Store } from '../types';
+import { useLocalStorage } from './useLocalStorage';
+import { useAuthContext } from '../contexts/AuthContext';
+
+export const useStores = () => {
+  const { user } = useAuthContext();
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Remember the last selected store between sessions
+  const [currentStoreId, setCurrentStoreId] = useLocalStorage<string | null>({
+    key: 'current_store_id',
+    defaultValue: null,
+  });
+
+  const fetchStores = useCallback(async () => {
+    if (!user) {
+      setStores([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('stores')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setStores(data || []);
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStores();
+  }, [fetchStores]);
+
+  // Fall back to the first store when nothing (or a stale store) is selected
+  const currentStore = stores.find(store => store.id === currentStoreId) || stores[0] || null;
+
+  const selectStore = useCallback((storeId: string) => {
+    setCurrentStoreId(storeId);
+  }, [setCurrentStoreId]);
+
+  return {
+    stores,
+    currentStore,
+    loading,
+    selectStore,
+    refresh: fetchStores,
+  };
+};
@@ -4,10 +4,67 @@ export interface User {
   role: 'admin' | 'pharmacist';
   full_name: string;
   phone?: string;
+  organization_id?: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  logo_url?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  license_number?: string;
+  description?: string;
+  website?: string;
+  tax_id?: string;
+  subscription_plan: 'basic' | 'professional' | 'enterprise';
+  subscription_status?: 'active' | 'suspended' | 'cancelled';
+  max_stores: number; // -1 means unlimited
+  max_users: number;
+}
+
+export interface Store {
+  id: string;
+  organization_id: string;
+  name: string;
+  code: string;
+  address: string;
+  phone?: string;
+  email?: string;
+  license_number?: string;
+  description?: string;
+  manager_id?: string;
+  operating_hours?: OperatingHours;
+  is_active: boolean;
+  created_at?: string;
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export type OperatingHours = Partial<Record<Weekday, { open: string; close: string; closed?: boolean }>>;
+
+export interface Product {
+  id: string;
+  organization_id?: string;
+  name: string;
+  category: string;
+  manufacturer?: string;
+  barcode?: string;
+  description?: string;
+  min_stock_level: number;
+  reorder_point?: number;
+  max_stock_level?: number;
+  preferred_vendor_id?: string;
+  is_active?: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Medicine {
   id: string;
+  product_id?: string;
   name: string;
   batch_no: string;
   expiry_date: string;
@@ -18,10 +75,41 @@ export interface Medicine {
   description?: string;
   manufacturer?: string;
   min_stock_level: number;
+  store_id?: string;
+  organization_id?: string;
+  barcode?: string;
+  sku?: string;
+  reorder_point?: number;
+  max_stock_level?: number;
+  location?: string;
+  is_active?: boolean;
+  preferred_vendor_id?: string;
+  quarantined?: boolean;
+  recall_id?: string;
+  clearance_price?: number | null;
+  controlled?: boolean;
+  schedule?: string | null;
+  prescription_only?: boolean;
+  active_ingredients?: string[];
+  strength?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface BatchRecall {
+  id: string;
+  organization_id: string;
+  product_id?: string;
+  product_name: string;
+  batch_numbers: string[];
+  reason: string;
+  reference?: string;
+  status: 'active' | 'closed';
+  initiated_by?: string;
+  created_at: string;
+  closed_at?: string;
+}
+
 export interface Vendor {
   id: string;
   name: string;
@@ -29,6 +117,10 @@ export interface Vendor {
   phone: string;
   email?: string;
   address: string;
+  organization_id?: string;
+  is_active?: boolean;
+  notes?: string;
+  created_at?: string;
 }
 
 export interface Patient {
@@ -39,7 +131,21 @@ export interface Patient {
   address: string;
   date_of_birth?: string;
   medical_history?: string;
+  allergies?: string[];
+  current_medications?: string[];
   notes?: string;
+  patient_id?: string;
+  emergency_contact?: string;
+  insurance_info?: InsuranceInfo;
+  store_id?: string;
+  organization_id?: string;
+  created_at?: string;
+}
+
+export interface InsuranceInfo {
+  provider?: string;
+  policy_number?: string;
+  group_number?: string;
 }
 
 export interface Sale {
@@ -51,6 +157,10 @@ export interface Sale {
   total_amount: number;
   payment_method: 'cash' | 'card' | 'bank_transfer';
   payment_status: 'paid' | 'pending' | 'partial';
+  amount_paid?: number;
+  prescription_id?: string | null;
+  store_id?: string;
+  organization_id?: string;
   created_by: string;
   created_at: string;
   items: SaleItem[];
@@ -60,9 +170,13 @@ export interface Sale {
 export interface SaleItem {
   id: string;
   medicine_id: string;
+  product_id?: string;
+  batch_no?: string;
+  expiry_date?: string;
   quantity: number;
   unit_price: number;
   total_price: number;
+  directions?: string | null;
   medicine?: Medicine;
 }
 
@@ -72,6 +186,11 @@ export interface Purchase {
   invoice_no: string;
   total_amount: number;
   purchase_date: string;
+  order_date?: string;
+  purchase_order_id?: string;
+  store_id?: string;
+  organization_id?: string;
+  notes?: string;
   created_by: string;
   created_at: string;
   items: PurchaseItem[];
@@ -80,11 +199,267 @@ export interface Purchase {
 
 export interface PurchaseItem {
   id: string;
-  medicine_id: string;
+  // Empty on order lines recorded as not delivered at all
+  medicine_id: string | null;
   quantity: number;
   unit_cost: number;
   total_cost: number;
+  batch_no?: string;
+  expiry_date?: string;
+  purchase_order_item_id?: string;
+  ordered_quantity?: number;
+  discrepancy_reason?: string;
   medicine?: Medicine;
+  order_item?: Pick<PurchaseOrderItem, 'medicine_name'>;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  organization_id: string;
+  store_id: string;
+  vendor_id: string;
+  po_number: string;
+  status: 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+  expected_date?: string;
+  sent_at?: string;
+  notes?: string;
+  total_amount: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  items: PurchaseOrderItem[];
+  vendor?: Vendor;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  medicine_id?: string;
+  medicine_name: string;
+  quantity: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface StockTransfer {
+  id: string;
+  organization_id: string;
+  from_store_id: string;
+  to_store_id: string;
+  transfer_number: string;
+  status: 'pending' | 'in_transit' | 'completed' | 'cancelled';
+  requested_by: string;
+  approved_by?: string;
+  approved_at?: string;
+  dispatched_at?: string;
+  received_at?: string;
+  received_by?: string;
+  notes?: string;
+  transfer_date: string;
+  created_at: string;
+  updated_at: string;
+  items: StockTransferItem[];
+  from_store?: Store;
+  to_store?: Store;
+}
+
+export interface StockTransferItem {
+  id: string;
+  transfer_id: string;
+  medicine_id: string;
+  medicine_name: string;
+  batch_no: string;
+  expiry_date: string;
+  category?: string;
+  manufacturer?: string;
+  quantity: number;
+  unit_cost: number;
+  unit_price: number;
+  controlled?: boolean;
+  schedule?: string | null;
+  prescription_only?: boolean;
+  active_ingredients?: string[];
+  strength?: string | null;
+  notes?: string;
+}
+
+export interface VendorReturn {
+  id: string;
+  organization_id: string;
+  store_id: string;
+  vendor_id: string;
+  return_number: string;
+  status: 'pending' | 'credited' | 'cancelled';
+  reason: string;
+  credit_expected: number;
+  credit_received?: number | null;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  credited_at?: string;
+  vendor?: Vendor;
+  items: VendorReturnItem[];
+}
+
+export interface VendorReturnItem {
+  id: string;
+  return_id: string;
+  medicine_id?: string;
+  purchase_id?: string;
+  medicine_name: string;
+  batch_no: string;
+  expiry_date?: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export type StockMovementType =
+  | 'receipt'
+  | 'sale'
+  | 'return'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'adjustment'
+  | 'write_off';
+
+export interface StockMovement {
+  id: string;
+  organization_id: string;
+  store_id: string;
+  medicine_id?: string | null;
+  medicine_name: string;
+  batch_no: string;
+  movement_type: StockMovementType;
+  quantity_change: number;
+  balance_after: number;
+  reason?: string | null;
+  reference_type?: string | null; // e.g. 'purchase', 'sale', 'stock_transfer'
+  reference_id?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  user?: User;
+}
+
+export interface StockTake {
+  id: string;
+  organization_id: string;
+  store_id: string;
+  reference: string;
+  location?: string | null;
+  status: 'counting' | 'submitted' | 'posted' | 'cancelled';
+  notes?: string;
+  started_by?: string;
+  submitted_by?: string;
+  submitted_at?: string;
+  approved_by?: string;
+  posted_at?: string;
+  created_at: string;
+  updated_at: string;
+  counts?: StockTakeCount[];
+}
+
+export interface StockTakeCount {
+  id: string;
+  stock_take_id: string;
+  medicine_id?: string | null;
+  medicine_name: string;
+  batch_no: string;
+  location?: string | null;
+  system_quantity: number;
+  counted_quantity: number;
+  unit_cost: number;
+  approved?: boolean;
+  counted_by?: string;
+  counted_at: string;
+  counter?: User;
+}
+
+export type RegisterEntryType =
+  | 'opening'
+  | 'receipt'
+  | 'dispense'
+  | 'return'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'adjustment'
+  | 'destruction';
+
+export interface ControlledRegisterEntry {
+  id: string;
+  organization_id: string;
+  store_id: string;
+  product_id?: string | null;
+  medicine_id?: string | null;
+  medicine_name: string;
+  schedule?: string | null;
+  batch_no: string;
+  entry_type: RegisterEntryType;
+  quantity_in: number;
+  quantity_out: number;
+  balance: number;
+  patient_id?: string | null;
+  patient_name?: string | null;
+  patient_address?: string | null;
+  prescriber_name?: string | null;
+  prescriber_registration?: string | null;
+  prescription_ref?: string | null;
+  supplier_name?: string | null;
+  invoice_no?: string | null;
+  witness_name?: string | null;
+  witness_signature?: string | null; // PNG data URL captured on screen
+  notes?: string | null;
+  reference_type?: string | null;
+  reference_id?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  user?: User;
+}
+
+export interface Prescription {
+  id: string;
+  organization_id: string;
+  store_id?: string;
+  patient_id: string;
+  reference: string;
+  prescriber_name: string;
+  prescriber_licence: string;
+  prescribed_date: string;
+  valid_until?: string | null;
+  refills_allowed: number;
+  refills_remaining: number; // repeats left after the first fill
+  dispense_count: number;
+  last_dispensed_at?: string | null;
+  image_path?: string | null; // key in the `prescriptions` storage bucket
+  status: 'active' | 'cancelled';
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  items: PrescriptionItem[];
+  patient?: Patient;
+}
+
+export interface PrescriptionItem {
+  id: string;
+  prescription_id: string;
+  product_id?: string | null;
+  medicine_name: string;
+  quantity: number; // per fill
+  directions?: string;
+}
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+export interface DrugInteraction {
+  id: string;
+  organization_id: string;
+  ingredient_a: string; // the pair is stored in alphabetical order
+  ingredient_b: string;
+  severity: InteractionSeverity;
+  description: string;
+  source?: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Payment {
@@ -93,13 +468,30 @@ export interface Payment {
   category: string;
   amount: number;
   description: string;
-  payment_method: 'cash' | 'card' | 'bank_transfer';
+  payment_method: 'cash' | 'card' | 'bank_transfer' | 'stock_adjustment';
   reference_id?: string;
-  reference_type?: string;
+  reference_type?: string; // e.g. 'sale' or 'purchase'
+  store_id?: string;
+  organization_id?: string;
+  payment_date?: string;
   created_by: string;
   created_at: string;
 }
 
+export interface Notification {
+  id: string;
+  organization_id?: string;
+  store_id?: string;
+  user_id?: string;
+  type: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  is_read: boolean;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  created_at: string;
+}
+
 export interface Settings {
   business_name: string;
   business_address: string;
@@ -109,4 +501,5 @@ export interface Settings {
   tax_rate: number;
   tax_name: string;
   location: string;
+  receipt_footer: string;
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { supabase } from '../lib/supabase';
+
+export interface AuditEntry {
+  organizationId?: string;
+  storeId?: string;
+  userId: string;
+  action: string;
+  resourceType: string;
+  resourceId?: string;
+  oldValues?: Record<string, unknown>;
+  newValues?: Record<string, unknown>;
+}
+
+export const logAudit = async ({
+  organizationId,
+  storeId,
+  userId,
+  action,
+  resourceType,
+  resourceId,
+  oldValues,
+  newValues,
+}: AuditEntry) => {
+  const { error } = await supabase
+    .from('audit_trail')
+    .insert({
+      organization_id: organizationId || null,
+      store_id: storeId || null,
+      user_id: userId,
+      action,
+      resource_type: resourceType,
+      resource_id: resourceId || null,
+      old_values: oldValues || null,
+      new_values: newValues || null,
+      user_agent: navigator.userAgent,
+    });
+
+  if (error) throw error;
+};
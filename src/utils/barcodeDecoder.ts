@@ -0,0 +1,99 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+
+export const SUPPORTED_FORMATS = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.QR_CODE,
+];
+
+export interface DecodedBarcode {
+  text: string;
+  format: string;
+}
+
+const createReader = () => {
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, SUPPORTED_FORMATS);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+  reader.setHints(hints);
+  return reader;
+};
+
+// Reused across frames; setHints() once then decodeWithState() is the fast path
+let sharedReader: MultiFormatReader | null = null;
+
+const toLuminance = ({ data, width, height }: ImageData) => {
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    luminance[i] = (data[offset] + 2 * data[offset + 1] + data[offset + 2]) / 4;
+  }
+  return luminance;
+};
+
+/**
+ * Decodes the first supported barcode in the canvas, or returns null when
+ * nothing readable is in frame.
+ */
+export const decodeCanvas = (canvas: HTMLCanvasElement): DecodedBarcode | null => {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context || canvas.width === 0 || canvas.height === 0) return null;
+
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  const source = new RGBLuminanceSource(toLuminance(imageData), canvas.width, canvas.height);
+  const bitmap = new BinaryBitmap(new HybridBinarizer(source));
+
+  if (!sharedReader) sharedReader = createReader();
+
+  try {
+    const result = sharedReader.decodeWithState(bitmap);
+    return { text: result.getText(), format: BarcodeFormat[result.getBarcodeFormat()] };
+  } catch {
+    // ZXing throws NotFoundException (and checksum/format errors) for frames without a readable code
+    return null;
+  } finally {
+    sharedReader.reset();
+  }
+};
+
+export const decodeImageFile = (file: File): Promise<DecodedBarcode | null> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      resolve(decodeCanvas(canvas));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image file'));
+    };
+
+    image.src = url;
+  });
+
+/**
+ * UPC-A is EAN-13 with a leading zero, and scanners report it either way, so
+ * a lookup should try both spellings of the code.
+ */
+export const barcodeCandidates = (code: string): string[] => {
+  const trimmed = code.trim();
+  if (/^\d{12}$/.test(trimmed)) return [trimmed, `0${trimmed}`];
+  if (/^0\d{12}$/.test(trimmed)) return [trimmed, trimmed.slice(1)];
+  return [trimmed];
+};
@@ -0,0 +1,126 @@
+import { supabase } from '../lib/supabase';
+import { ControlledRegisterEntry, Medicine, RegisterEntryType } from '../types';
+
+export const registerEntryLabels: Record<RegisterEntryType, string> = {
+  opening: 'Opening Balance',
+  receipt: 'Received',
+  dispense: 'Dispensed',
+  return: 'Returned to Supplier',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+  adjustment: 'Adjustment',
+  destruction: 'Destroyed',
+};
+
+// The particulars the law asks for on top of the stock movement itself
+export interface RegisterDetails {
+  patientId?: string;
+  patientName?: string;
+  patientAddress?: string;
+  prescriberName?: string;
+  prescriberRegistration?: string;
+  prescriptionRef?: string;
+  supplierName?: string;
+  invoiceNo?: string;
+  witnessName?: string;
+  witnessSignature?: string;
+  notes?: string;
+}
+
+export interface RegisterEntryInput {
+  medicine: Pick<Medicine, 'id' | 'name' | 'batch_no' | 'store_id' | 'organization_id' | 'product_id' | 'schedule'>;
+  entryType: RegisterEntryType;
+  quantityChange: number;
+  userId: string;
+  referenceType?: string;
+  referenceId?: string;
+  details?: RegisterDetails;
+}
+
+/**
+ * Appends lines to the controlled-substance register. The running balance
+ * per drug is carried forward by the database as each line is inserted.
+ */
+export const recordRegisterEntries = async (entries: RegisterEntryInput[]) => {
+  const rows = entries
+    .filter(entry => entry.quantityChange !== 0)
+    .map(({ medicine, entryType, quantityChange, userId, referenceType, referenceId, details }) => ({
+      organization_id: medicine.organization_id,
+      store_id: medicine.store_id,
+      product_id: medicine.product_id || null,
+      medicine_id: medicine.id,
+      medicine_name: medicine.name,
+      schedule: medicine.schedule || null,
+      batch_no: medicine.batch_no,
+      entry_type: entryType,
+      quantity_in: Math.max(quantityChange, 0),
+      quantity_out: Math.max(-quantityChange, 0),
+      patient_id: details?.patientId || null,
+      patient_name: details?.patientName || null,
+      patient_address: details?.patientAddress || null,
+      prescriber_name: details?.prescriberName || null,
+      prescriber_registration: details?.prescriberRegistration || null,
+      prescription_ref: details?.prescriptionRef || null,
+      supplier_name: details?.supplierName || null,
+      invoice_no: details?.invoiceNo || null,
+      witness_name: details?.witnessName || null,
+      witness_signature: details?.witnessSignature || null,
+      notes: details?.notes || null,
+      reference_type: referenceType || null,
+      reference_id: referenceId || null,
+      created_by: userId,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('controlled_register')
+    .insert(rows);
+
+  if (error) throw error;
+};
+
+// Stock already on the shelf when a drug is first scheduled opens its register
+export const openRegister = (batches: Medicine[], userId: string) =>
+  recordRegisterEntries(batches
+    .filter(batch => batch.quantity > 0)
+    .map(batch => ({
+      medicine: batch,
+      entryType: 'opening',
+      quantityChange: batch.quantity,
+      userId,
+      details: { notes: 'Stock on hand when scheduled' },
+    })));
+
+/**
+ * Register lines for one drug in a store over a period, with the balance
+ * brought forward from before the period starts.
+ */
+export const fetchRegister = async (storeId: string, productId: string, from: string, to: string) => {
+  const { data: previous, error: previousError } = await supabase
+    .from('controlled_register')
+    .select('balance')
+    .eq('store_id', storeId)
+    .eq('product_id', productId)
+    .lt('created_at', from)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (previousError) throw previousError;
+
+  const { data, error } = await supabase
+    .from('controlled_register')
+    .select('*, user:users (full_name)')
+    .eq('store_id', storeId)
+    .eq('product_id', productId)
+    .gte('created_at', from)
+    .lt('created_at', to)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return {
+    openingBalance: previous?.[0]?.balance ?? 0,
+    entries: (data || []) as ControlledRegisterEntry[],
+  };
+};
@@ -0,0 +1,169 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '../lib/supabase';
+
+export interface ReportField {
+  id: string;
+  name: string;
+  type: 'dimension' | 'metric';
+  dataType: 'string' | 'number' | 'currency' | 'date';
+  table: string;
+}
+
+export interface ReportFilter {
+  id: string;
+  field: string;
+  operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'between';
+  value: string | number;
+  value2?: string | number;
+}
+
+export interface ReportDefinition {
+  dimensions: string[];
+  metrics: string[];
+  filters: ReportFilter[];
+  dateRange: { start: string; end: string };
+  groupBy?: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+export type ReportValue = string | number | null;
+
+export interface ReportResult {
+  columns: Array<Pick<ReportField, 'name' | 'dataType'> & { total?: boolean }>;
+  rows: ReportValue[][];
+}
+
+// Tables whose rows belong to a single store rather than the whole organization
+const STORE_SCOPED_TABLES = ['sales', 'medicines'];
+const PAGE_SIZE = 1000;
+
+const columnOf = (field: ReportField) => field.id.slice(field.table.length + 1);
+
+const filterValue = (field: ReportField, value: string | number | undefined) =>
+  field.dataType === 'number' || field.dataType === 'currency' ? Number(value) : String(value ?? '');
+
+/**
+ * Runs a report built from fields of one table. With a group-by dimension the
+ * metrics are summed per group (dates per day) and a row count is added;
+ * otherwise the matching rows are returned as they are.
+ */
+export const runCustomReport = async (
+  report: ReportDefinition,
+  fields: ReportField[],
+  storeId?: string | null
+): Promise<ReportResult> => {
+  const lookup = (id: string) => {
+    const field = fields.find(item => item.id === id);
+    if (!field) throw new Error(`Unknown report field ${id}`);
+    return field;
+  };
+
+  const dimensions = report.dimensions.map(lookup);
+  const metrics = report.metrics.map(lookup);
+  const filters = report.filters.filter(filter => filter.field && filter.value !== '');
+  const selected = [...dimensions, ...metrics];
+
+  if (selected.length === 0) throw new Error('Choose at least one field to report on.');
+
+  const tables = new Set([...selected, ...filters.map(filter => lookup(filter.field))].map(field => field.table));
+  if (tables.size > 1) {
+    throw new Error(`Reports can use fields from one source at a time; this one mixes ${Array.from(tables).join(', ')}.`);
+  }
+
+  const table = selected[0].table;
+  const dateField = fields.find(field => field.table === table && field.dataType === 'date');
+  const columns = Array.from(new Set(selected.map(columnOf)));
+
+  const fetchPage = (from: number) => {
+    let query = supabase
+      .from(table)
+      .select(columns.join(', '));
+
+    if (storeId && STORE_SCOPED_TABLES.includes(table)) {
+      query = query.eq('store_id', storeId);
+    }
+    if (dateField && report.dateRange.start) {
+      query = query.gte(columnOf(dateField), parseISO(report.dateRange.start).toISOString());
+    }
+    if (dateField && report.dateRange.end) {
+      query = query.lt(columnOf(dateField), addDays(parseISO(report.dateRange.end), 1).toISOString());
+    }
+
+    filters.forEach(filter => {
+      const field = lookup(filter.field);
+      const column = columnOf(field);
+      const value = filterValue(field, filter.value);
+
+      switch (filter.operator) {
+        case 'equals':
+          query = query.eq(column, value);
+          break;
+        case 'contains':
+          query = query.ilike(column, `%${filter.value}%`);
+          break;
+        case 'greater_than':
+          query = query.gt(column, value);
+          break;
+        case 'less_than':
+          query = query.lt(column, value);
+          break;
+        case 'between':
+          query = query.gte(column, value).lte(column, filterValue(field, filter.value2));
+          break;
+      }
+    });
+
+    return query.range(from, from + PAGE_SIZE - 1);
+  };
+
+  const records: Record<string, ReportValue>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from);
+    if (error) throw error;
+
+    records.push(...((data || []) as unknown as Record<string, ReportValue>[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const direction = report.sortOrder === 'asc' ? 1 : -1;
+  const compare = (a: ReportValue, b: ReportValue) =>
+    typeof a === 'number' && typeof b === 'number' ? a - b : String(a ?? '').localeCompare(String(b ?? ''));
+
+  const groupField = report.groupBy ? lookup(report.groupBy) : undefined;
+
+  if (!groupField) {
+    const sortField = metrics[0] || dimensions[0];
+    return {
+      columns: selected.map(field => ({ name: field.name, dataType: field.dataType, total: field.type === 'metric' })),
+      rows: records
+        .map(record => selected.map(field => record[columnOf(field)] ?? null))
+        .sort((a, b) => direction * compare(a[selected.indexOf(sortField)], b[selected.indexOf(sortField)])),
+    };
+  }
+
+  const groups = new Map<string, ReportValue[]>();
+  records.forEach(record => {
+    const raw = record[columnOf(groupField)];
+    const key = groupField.dataType === 'date' && raw
+      ? format(new Date(String(raw)), 'yyyy-MM-dd')
+      : String(raw ?? '(blank)');
+
+    const row = groups.get(key) || [key, ...metrics.map(() => 0), 0];
+    metrics.forEach((metric, index) => {
+      row[index + 1] = Number(row[index + 1]) + Number(record[columnOf(metric)] || 0);
+    });
+    row[metrics.length + 1] = Number(row[metrics.length + 1]) + 1;
+    groups.set(key, row);
+  });
+
+  return {
+    columns: [
+      { name: groupField.name, dataType: groupField.dataType },
+      ...metrics.map(metric => ({ name: `Total ${metric.name}`, dataType: metric.dataType, total: true })),
+      { name: 'Records', dataType: 'number', total: true },
+    ],
+    rows: Array.from(groups.values()).sort((a, b) =>
+      direction * (metrics.length > 0 ? compare(a[1], b[1]) : compare(a[0], b[0]))
+    ),
+  };
+};
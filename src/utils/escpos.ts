@@ -0,0 +1,305 @@
+import { format } from 'date-fns';
+
+export type ReceiptWidth = 58 | 80;
+export type ReceiptCode = 'qr' | 'barcode' | 'none';
+
+export interface ReceiptPrinterConfig {
+  width: ReceiptWidth;
+  code: ReceiptCode;
+  connection: 'usb' | 'serial';
+  baudRate: number;
+}
+
+export const defaultReceiptPrinterConfig: ReceiptPrinterConfig = {
+  width: 80,
+  code: 'qr',
+  connection: 'usb',
+  baudRate: 9600,
+};
+
+export const RECEIPT_PRINTER_STORAGE_KEY = 'receipt_printer';
+
+// Characters per line in the printer's standard font (12 × 24 dots)
+const LINE_CHARS: Record<ReceiptWidth, number> = { 58: 32, 80: 48 };
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface ReceiptData {
+  storeName: string;
+  storeLines: string[];
+  invoiceNo: string;
+  date: string;
+  customer?: string;
+  items: ReceiptLine[];
+  subtotal: number;
+  taxName: string;
+  taxRate?: number;
+  tax: number;
+  total: number;
+  paymentMethod: string;
+  amountPaid?: number;
+  tendered?: number;
+  footer?: string;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const commands = {
+  init: [ESC, 0x40],
+  codePage437: [ESC, 0x74, 0x00],
+  alignLeft: [ESC, 0x61, 0x00],
+  alignCenter: [ESC, 0x61, 0x01],
+  alignRight: [ESC, 0x61, 0x02],
+  boldOn: [ESC, 0x45, 0x01],
+  boldOff: [ESC, 0x45, 0x00],
+  sizeNormal: [GS, 0x21, 0x00],
+  sizeDouble: [GS, 0x21, 0x11],
+  feedAndCut: [GS, 0x56, 0x42, 0x03],
+};
+
+// Printers only know their code page, so accents are dropped and anything else becomes "?"
+const encode = (text: string) =>
+  Array.from(
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e\n]/g, '?'),
+    char => char.charCodeAt(0)
+  );
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+const wrap = (text: string, width: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > width) {
+      if (line) lines.push(line);
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+      line = '';
+    }
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+    else {
+      lines.push(line);
+      line = word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Left text and right-aligned text on one line, truncating the left side first
+// and the right side too when it alone is wider than the line
+const columns = (left: string, right: string, width: number) => {
+  const value = right.slice(0, Math.max(0, width - 1));
+  const room = Math.max(0, width - value.length - 1);
+  const text = left.slice(0, room);
+  return `${text}${' '.repeat(Math.max(1, width - text.length - value.length))}${value}`;
+};
+
+const qrCode = (data: string, moduleSize: number) => {
+  const bytes = encode(data);
+  const length = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00, // model 2
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31, // error correction M
+    GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30, // print
+  ];
+};
+
+const code128 = (data: string, moduleWidth: number) => {
+  const bytes = [0x7b, 0x42, ...encode(data)]; // {B selects code set B
+  return [
+    GS, 0x68, 80, // height in dots
+    GS, 0x77, moduleWidth,
+    GS, 0x48, 0x02, // human-readable text below
+    GS, 0x6b, 0x49, bytes.length, ...bytes,
+  ];
+};
+
+/**
+ * The ESC/POS byte stream for a sale receipt: store header, items, totals with
+ * the tax line, payment and change, a QR code or barcode of the invoice
+ * number, then the footer and a paper cut.
+ */
+export const renderReceipt = (receipt: ReceiptData, config: ReceiptPrinterConfig) => {
+  const width = LINE_CHARS[config.width];
+  const out: number[] = [];
+  const line = (text = '') => out.push(...encode(text), LF);
+  const rule = () => line('-'.repeat(width));
+
+  out.push(...commands.init, ...commands.codePage437, ...commands.alignCenter);
+  out.push(...commands.boldOn, ...commands.sizeDouble);
+  wrap(receipt.storeName, width / 2).forEach(text => line(text));
+  out.push(...commands.sizeNormal, ...commands.boldOff);
+  receipt.storeLines.forEach(text => wrap(text, width).forEach(wrapped => line(wrapped)));
+  line();
+
+  out.push(...commands.alignLeft);
+  line(columns('Invoice', receipt.invoiceNo, width));
+  line(columns('Date', format(new Date(receipt.date), 'dd/MM/yyyy HH:mm'), width));
+  if (receipt.customer) line(columns('Customer', receipt.customer, width));
+  rule();
+
+  receipt.items.forEach(item => {
+    wrap(item.name, width).forEach(text => line(text));
+    line(columns(`  ${item.quantity} x ${money(item.unitPrice)}`, money(item.total), width));
+  });
+  rule();
+
+  line(columns('Subtotal', money(receipt.subtotal), width));
+  const taxLabel = receipt.taxRate !== undefined ? `${receipt.taxName} (${receipt.taxRate}%)` : receipt.taxName;
+  line(columns(taxLabel, money(receipt.tax), width));
+  out.push(...commands.boldOn);
+  line(columns('TOTAL', money(receipt.total), width));
+  out.push(...commands.boldOff);
+  rule();
+
+  line(columns('Payment', receipt.paymentMethod, width));
+  if (receipt.tendered !== undefined && receipt.tendered > 0) {
+    line(columns('Tendered', money(receipt.tendered), width));
+    line(columns('Change due', money(Math.max(0, receipt.tendered - receipt.total)), width));
+  }
+  if (receipt.amountPaid !== undefined && receipt.amountPaid < receipt.total) {
+    line(columns('Paid', money(receipt.amountPaid), width));
+    line(columns('Balance due', money(receipt.total - receipt.amountPaid), width));
+  }
+  line();
+
+  out.push(...commands.alignCenter);
+  if (config.code === 'qr') {
+    out.push(...qrCode(receipt.invoiceNo, config.width === 58 ? 5 : 6), LF);
+  } else if (config.code === 'barcode') {
+    out.push(...code128(receipt.invoiceNo, config.width === 58 ? 1 : 2), LF);
+  }
+
+  if (receipt.footer) {
+    line();
+    wrap(receipt.footer, width).forEach(text => line(text));
+  }
+
+  out.push(...commands.feedAndCut);
+  return new Uint8Array(out);
+};
+
+const commandNames: Array<[number[], string]> = [
+  [commands.init, 'INIT'],
+  [commands.codePage437, 'CODEPAGE 437'],
+  [commands.alignLeft, 'ALIGN LEFT'],
+  [commands.alignCenter, 'ALIGN CENTER'],
+  [commands.alignRight, 'ALIGN RIGHT'],
+  [commands.boldOn, 'BOLD ON'],
+  [commands.boldOff, 'BOLD OFF'],
+  [commands.sizeNormal, 'SIZE NORMAL'],
+  [commands.sizeDouble, 'SIZE DOUBLE'],
+  [commands.feedAndCut, 'FEED AND CUT'],
+];
+
+const startsWith = (bytes: Uint8Array, index: number, sequence: number[]) =>
+  sequence.every((byte, offset) => bytes[index + offset] === byte);
+
+/**
+ * Reads a byte stream back as text with the commands shown in brackets, so a
+ * receipt can be checked without a printer attached.
+ */
+export const describeEscPos = (bytes: Uint8Array) => {
+  let text = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const known = commandNames.find(([sequence]) => startsWith(bytes, i, sequence));
+    if (known) {
+      text += `[${known[1]}]`;
+      i += known[0].length;
+    } else if (bytes[i] === GS && bytes[i + 1] === 0x28 && bytes[i + 2] === 0x6b) {
+      const length = bytes[i + 3] | (bytes[i + 4] << 8);
+      if (bytes[i + 6] === 0x50) {
+        text += `[QR ${String.fromCharCode(...bytes.slice(i + 8, i + 5 + length))}]`;
+      }
+      i += 5 + length;
+    } else if (bytes[i] === GS && [0x68, 0x77, 0x48].includes(bytes[i + 1])) {
+      i += 3;
+    } else if (bytes[i] === GS && bytes[i + 1] === 0x6b && bytes[i + 2] === 0x49) {
+      const length = bytes[i + 3];
+      text += `[BARCODE ${String.fromCharCode(...bytes.slice(i + 6, i + 4 + length))}]`;
+      i += 4 + length;
+    } else if (bytes[i] === LF || (bytes[i] >= 0x20 && bytes[i] < 0x7f)) {
+      text += String.fromCharCode(bytes[i]);
+      i += 1;
+    } else {
+      text += `[0x${bytes[i].toString(16).padStart(2, '0')}]`;
+      i += 1;
+    }
+  }
+
+  return text;
+};
+
+export const hexDump = (bytes: Uint8Array) => {
+  const rows: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const chunk = Array.from(bytes.slice(offset, offset + 16));
+    rows.push([
+      offset.toString(16).padStart(6, '0'),
+      chunk.map(byte => byte.toString(16).padStart(2, '0')).join(' ').padEnd(47),
+      chunk.map(byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join(''),
+    ].join('  '));
+  }
+  return rows.join('\n');
+};
+
+// Reuses a printer the browser was already allowed to use before asking again
+export const printViaUSB = async (bytes: Uint8Array) => {
+  if (!navigator.usb) throw new Error('This browser cannot talk to USB printers. Use Chrome or Edge.');
+
+  const [known] = await navigator.usb.getDevices();
+  const device = known || await navigator.usb.requestDevice({ filters: [] });
+
+  await device.open();
+  try {
+    if (!device.configuration) await device.selectConfiguration(1);
+
+    const match = device.configuration?.interfaces
+      .map(usbInterface => ({
+        usbInterface,
+        endpoint: usbInterface.alternate.endpoints.find(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk'),
+      }))
+      .find(candidate => candidate.endpoint);
+
+    if (!match?.endpoint) throw new Error(`${device.productName || 'The USB device'} does not accept print data.`);
+
+    await device.claimInterface(match.usbInterface.interfaceNumber);
+    await device.transferOut(match.endpoint.endpointNumber, bytes);
+    await device.releaseInterface(match.usbInterface.interfaceNumber);
+  } finally {
+    await device.close();
+  }
+};
+
+export const printViaSerial = async (bytes: Uint8Array, baudRate: number) => {
+  if (!navigator.serial) throw new Error('This browser cannot talk to serial printers. Use Chrome or Edge.');
+
+  const [known] = await navigator.serial.getPorts();
+  const port = known || await navigator.serial.requestPort();
+
+  await port.open({ baudRate });
+  try {
+    if (!port.writable) throw new Error('The serial port cannot be written to.');
+    const writer = port.writable.getWriter();
+    try {
+      await writer.write(bytes);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await port.close();
+  }
+};
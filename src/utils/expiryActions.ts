@@ -0,0 +1,326 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Medicine, Payment, VendorReturn } from '../types';
+import { logAudit } from './auditTrail';
+import { RegisterDetails } from './controlledRegister';
+import { adjustBatchQuantity, recordMovement } from './stockLedger';
+
+export const WRITE_OFF_CATEGORY = 'Expiry Write-off';
+
+// Short-dated stock sells at its clearance price while one is set
+export const effectivePrice = (medicine: Pick<Medicine, 'price' | 'clearance_price'>) =>
+  medicine.clearance_price ?? medicine.price;
+
+export interface BatchSource {
+  vendorId?: string;
+  purchaseId?: string;
+  unitCost: number;
+}
+
+/**
+ * The vendor a batch was bought from, taken from its latest purchase line and
+ * falling back to the product's preferred vendor.
+ */
+export const findBatchSource = async (medicine: Medicine): Promise<BatchSource> => {
+  const { data: lines, error: linesError } = await supabase
+    .from('purchase_items')
+    .select('purchase_id, unit_cost')
+    .eq('medicine_id', medicine.id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (linesError) throw linesError;
+
+  const line = lines?.[0];
+  let vendorId = medicine.preferred_vendor_id;
+
+  if (line?.purchase_id) {
+    const { data: purchase, error: purchaseError } = await supabase
+      .from('purchases')
+      .select('vendor_id')
+      .eq('id', line.purchase_id)
+      .single();
+
+    if (purchaseError) throw purchaseError;
+    vendorId = purchase.vendor_id || vendorId;
+  }
+
+  return {
+    vendorId,
+    purchaseId: line?.purchase_id,
+    unitCost: line?.unit_cost ?? medicine.cost_price ?? 0,
+  };
+};
+
+/**
+ * Zeroes the batch and books its value at cost as a non-cash expense, so the
+ * loss shows in the accounts rather than silently disappearing from stock.
+ * The quantity written off is whatever the batch holds now, not what the
+ * screen last showed. Controlled drugs must be destroyed in front of a
+ * witness, whose details go in the register.
+ */
+export const writeOffBatch = async (
+  medicine: Medicine,
+  reason: string,
+  userId: string,
+  witness?: Pick<RegisterDetails, 'witnessName' | 'witnessSignature'>
+) => {
+  if (medicine.controlled && (!witness?.witnessName || !witness.witnessSignature)) {
+    throw new Error('A witness must sign for the destruction of a controlled drug.');
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('medicines')
+    .select('*')
+    .eq('id', medicine.id)
+    .single();
+
+  if (batchError) throw batchError;
+
+  const current = batch as Medicine;
+  if (current.quantity <= 0) {
+    throw new Error(`${current.name} (batch ${current.batch_no}) has no stock left to write off.`);
+  }
+
+  const loss = current.quantity * (current.cost_price || 0);
+
+  const { data: updated, error: stockError } = await supabase
+    .from('medicines')
+    .update({ quantity: 0, clearance_price: null })
+    .eq('id', current.id)
+    .eq('quantity', current.quantity)
+    .select('id');
+
+  if (stockError) throw stockError;
+  if (!updated || updated.length === 0) {
+    throw new Error(`Stock of ${current.name} (batch ${current.batch_no}) changed while writing it off. Try again.`);
+  }
+
+  await recordMovement({
+    type: 'write_off',
+    userId,
+    reason,
+    register: witness,
+    medicine: current,
+    quantityChange: -current.quantity,
+    balanceAfter: 0,
+  });
+
+  if (loss > 0) {
+    const { error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        type: 'expense',
+        category: WRITE_OFF_CATEGORY,
+        amount: loss,
+        description: `Write-off of ${current.quantity} × ${current.name} batch ${current.batch_no} (${reason})`,
+        payment_method: 'stock_adjustment',
+        reference_id: current.id,
+        reference_type: 'write_off',
+        store_id: current.store_id,
+        organization_id: current.organization_id,
+        created_by: userId,
+      });
+
+    if (paymentError) throw paymentError;
+  }
+
+  await logAudit({
+    organizationId: current.organization_id,
+    storeId: current.store_id,
+    userId,
+    action: 'WRITE_OFF',
+    resourceType: 'medicine',
+    resourceId: current.id,
+    oldValues: { quantity: current.quantity },
+    newValues: { quantity: 0, loss, reason },
+  });
+
+  return loss;
+};
+
+export interface VendorReturnInput {
+  medicine: Medicine;
+  storeCode: string;
+  quantity: number;
+  source: BatchSource & { vendorId: string };
+  reason: string;
+  notes?: string;
+  userId: string;
+}
+
+/**
+ * Sends stock back against the original vendor and records the credit we
+ * expect. The stock comes off the batch as it stands now, and is put back if
+ * the return itself cannot be saved.
+ */
+export const createVendorReturn = async ({
+  medicine,
+  storeCode,
+  quantity,
+  source,
+  reason,
+  notes,
+  userId,
+}: VendorReturnInput) => {
+  if (quantity <= 0) {
+    throw new Error('Return quantity must be at least 1');
+  }
+
+  const { medicine: batch, balanceAfter } = await adjustBatchQuantity(medicine.id, -quantity);
+  const creditExpected = quantity * source.unitCost;
+
+  let vendorReturn: VendorReturn;
+  try {
+    const { data, error: returnError } = await supabase
+      .from('vendor_returns')
+      .insert({
+        return_number: `RT-${storeCode}-${format(new Date(), 'yyMMdd-HHmmss')}`,
+        vendor_id: source.vendorId,
+        reason,
+        credit_expected: creditExpected,
+        notes: notes || null,
+        store_id: batch.store_id,
+        organization_id: batch.organization_id,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (returnError) throw returnError;
+    vendorReturn = data;
+
+    const { error: itemError } = await supabase
+      .from('vendor_return_items')
+      .insert({
+        return_id: vendorReturn.id,
+        medicine_id: batch.id,
+        purchase_id: source.purchaseId || null,
+        medicine_name: batch.name,
+        batch_no: batch.batch_no,
+        expiry_date: batch.expiry_date,
+        quantity,
+        unit_cost: source.unitCost,
+      });
+
+    if (itemError) throw itemError;
+  } catch (error) {
+    await adjustBatchQuantity(batch.id, quantity);
+    throw error;
+  }
+
+  await recordMovement({
+    type: 'return',
+    userId,
+    reason,
+    referenceType: 'vendor_return',
+    referenceId: vendorReturn.id,
+    medicine: batch,
+    quantityChange: -quantity,
+    balanceAfter,
+  });
+
+  await logAudit({
+    organizationId: batch.organization_id,
+    storeId: batch.store_id,
+    userId,
+    action: 'RETURN_TO_VENDOR',
+    resourceType: 'medicine',
+    resourceId: batch.id,
+    oldValues: { quantity: batch.quantity },
+    newValues: { quantity: balanceAfter, return_number: vendorReturn.return_number, credit_expected: creditExpected },
+  });
+
+  return vendorReturn;
+};
+
+/**
+ * Closes a return once the vendor's credit note arrives. Anything short of the
+ * expected credit is booked as an expiry loss.
+ */
+export const recordVendorCredit = async (
+  vendorReturn: VendorReturn,
+  amount: number,
+  paymentMethod: Payment['payment_method'],
+  creditDate: string,
+  userId: string
+) => {
+  const { data: credited, error: returnError } = await supabase
+    .from('vendor_returns')
+    .update({ status: 'credited', credit_received: amount, credited_at: new Date().toISOString() })
+    .eq('id', vendorReturn.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (returnError) throw returnError;
+  if (!credited || credited.length === 0) {
+    throw new Error(`Return ${vendorReturn.return_number} has already been credited or cancelled.`);
+  }
+
+  const entries = [];
+  if (amount > 0) {
+    entries.push({
+      type: 'income',
+      category: 'Vendor Credits',
+      amount,
+      description: `Credit for return ${vendorReturn.return_number}${vendorReturn.vendor ? ` from ${vendorReturn.vendor.name}` : ''}`,
+      payment_method: paymentMethod,
+    });
+  }
+  if (amount < vendorReturn.credit_expected) {
+    entries.push({
+      type: 'expense',
+      category: WRITE_OFF_CATEGORY,
+      amount: vendorReturn.credit_expected - amount,
+      description: `Uncredited value of return ${vendorReturn.return_number}`,
+      payment_method: 'stock_adjustment',
+    });
+  }
+
+  if (entries.length > 0) {
+    const { error: paymentError } = await supabase
+      .from('payments')
+      .insert(entries.map(entry => ({
+        ...entry,
+        reference_id: vendorReturn.id,
+        reference_type: 'vendor_return',
+        payment_date: creditDate,
+        store_id: vendorReturn.store_id,
+        organization_id: vendorReturn.organization_id,
+        created_by: userId,
+      })));
+
+    if (paymentError) throw paymentError;
+  }
+
+  await logAudit({
+    organizationId: vendorReturn.organization_id,
+    storeId: vendorReturn.store_id,
+    userId,
+    action: 'VENDOR_CREDIT',
+    resourceType: 'vendor_return',
+    resourceId: vendorReturn.id,
+    oldValues: { status: vendorReturn.status },
+    newValues: { status: 'credited', credit_received: amount },
+  });
+};
+
+export const setClearancePrice = async (medicine: Medicine, clearancePrice: number | null, userId: string) => {
+  const { error } = await supabase
+    .from('medicines')
+    .update({ clearance_price: clearancePrice })
+    .eq('id', medicine.id);
+
+  if (error) throw error;
+
+  await logAudit({
+    organizationId: medicine.organization_id,
+    storeId: medicine.store_id,
+    userId,
+    action: 'CLEARANCE_PRICE',
+    resourceType: 'medicine',
+    resourceId: medicine.id,
+    oldValues: { price: medicine.price, clearance_price: medicine.clearance_price ?? null },
+    newValues: { price: medicine.price, clearance_price: clearancePrice },
+  });
+};
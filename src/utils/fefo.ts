@@ -0,0 +1,64 @@
+import { differenceInDays } from 'date-fns';
+import { Medicine } from '../types';
+
+export interface BatchAllocation {
+  medicine: Medicine;
+  quantity: number;
+}
+
+export interface AllocationResult {
+  allocations: BatchAllocation[];
+  // Units that could not be covered by sellable stock
+  shortfall: number;
+}
+
+export const isBatchExpired = (medicine: Pick<Medicine, 'expiry_date'>, now: Date = new Date()) =>
+  differenceInDays(new Date(medicine.expiry_date), now) < 0;
+
+/**
+ * Batches that can be dispensed, in first-expiry-first-out order. Expired,
+ * quarantined and empty batches are never offered; batches expiring on the
+ * same day are taken oldest stock first.
+ */
+export const sellableBatches = (batches: Medicine[], now: Date = new Date()) =>
+  batches
+    .filter(medicine =>
+      medicine.quantity > 0 &&
+      medicine.is_active !== false &&
+      !medicine.quarantined &&
+      !isBatchExpired(medicine, now)
+    )
+    .sort((a, b) =>
+      a.expiry_date.localeCompare(b.expiry_date) || (a.created_at || '').localeCompare(b.created_at || '')
+    );
+
+export const sellableQuantity = (batches: Medicine[], now: Date = new Date()) =>
+  sellableBatches(batches, now).reduce((sum, medicine) => sum + medicine.quantity, 0);
+
+/**
+ * Splits a requested quantity across a product's batches, FEFO. A preferred
+ * batch (e.g. the pack that was scanned) is drawn down first when it is
+ * still sellable.
+ */
+export const allocateFEFO = (
+  batches: Medicine[],
+  quantity: number,
+  preferredBatchId?: string,
+  now: Date = new Date()
+): AllocationResult => {
+  const ordered = sellableBatches(batches, now);
+  const preferred = ordered.find(medicine => medicine.id === preferredBatchId);
+  const queue = preferred ? [preferred, ...ordered.filter(medicine => medicine !== preferred)] : ordered;
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const medicine of queue) {
+    if (remaining <= 0) break;
+    const take = Math.min(medicine.quantity, remaining);
+    allocations.push({ medicine, quantity: take });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: Math.max(remaining, 0) };
+};
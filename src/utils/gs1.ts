@@ -0,0 +1,148 @@
+import { format, lastDayOfMonth } from 'date-fns';
+
+export interface GS1Data {
+  gtin?: string;
+  batch?: string;
+  expiry?: string; // yyyy-MM-dd
+  serial?: string;
+}
+
+// FNC1 is transmitted as the ASCII group separator
+const GS = '\u001d';
+
+// Fixed-length AIs we may need to step over to reach the ones we read
+const FIXED_LENGTH: Record<string, number> = {
+  '00': 18,
+  '01': 14,
+  '02': 14,
+  '11': 6,
+  '12': 6,
+  '13': 6,
+  '15': 6,
+  '16': 6,
+  '17': 6,
+  '20': 2,
+};
+
+const VARIABLE_LENGTH: Record<string, number> = {
+  '10': 20,
+  '21': 20,
+  '22': 20,
+  '30': 8,
+  '37': 8,
+  '240': 30,
+  '241': 30,
+  '710': 20,
+  '711': 20,
+  '712': 20,
+  '713': 20,
+  '714': 20,
+};
+
+// Symbology identifiers some scanners prefix: DataMatrix, GS1-128, QR
+const SYMBOLOGY_PREFIX = /^\](d2|C1|Q3)/;
+
+/**
+ * GS1 dates are YYMMDD; a day of 00 means the last day of the month.
+ * Expiry dates on medicine packs are always this century.
+ */
+const parseGS1Date = (value: string): string | undefined => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+
+  const year = 2000 + parseInt(value.slice(0, 2));
+  const month = parseInt(value.slice(2, 4));
+  const day = parseInt(value.slice(4, 6));
+  if (month < 1 || month > 12 || day > 31) return undefined;
+
+  const date = day === 0 ? lastDayOfMonth(new Date(year, month - 1, 1)) : new Date(year, month - 1, day);
+  return format(date, 'yyyy-MM-dd');
+};
+
+const toElements = (raw: string): Record<string, string> | null => {
+  const elements: Record<string, string> = {};
+
+  // Human-readable form: (01)09506000134352(17)261231(10)AB12
+  if (raw.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = pattern.exec(raw)) !== null) {
+      elements[match[1]] = match[2].trim();
+      consumed += match[0].length;
+    }
+    return consumed === raw.length && Object.keys(elements).length > 0 ? elements : null;
+  }
+
+  let data = raw.replace(SYMBOLOGY_PREFIX, '');
+  if (data.startsWith(GS)) data = data.slice(1);
+
+  while (data.length > 0) {
+    const twoDigit = data.slice(0, 2);
+    const threeDigit = data.slice(0, 3);
+
+    if (FIXED_LENGTH[twoDigit]) {
+      const length = FIXED_LENGTH[twoDigit];
+      const value = data.slice(2, 2 + length);
+      if (value.length !== length) return null;
+      elements[twoDigit] = value;
+      data = data.slice(2 + length);
+      // A separator after a fixed-length field is allowed but not required
+      if (data.startsWith(GS)) data = data.slice(1);
+      continue;
+    }
+
+    const ai = VARIABLE_LENGTH[threeDigit] ? threeDigit : VARIABLE_LENGTH[twoDigit] ? twoDigit : null;
+    if (!ai) return null;
+
+    const rest = data.slice(ai.length);
+    const end = rest.indexOf(GS);
+    const value = end === -1 ? rest : rest.slice(0, end);
+    if (value.length === 0 || value.length > VARIABLE_LENGTH[ai]) return null;
+
+    elements[ai] = value;
+    data = end === -1 ? '' : rest.slice(end + 1);
+  }
+
+  return elements;
+};
+
+/**
+ * Parses a GS1 element string (DataMatrix, GS1-128 or the printed
+ * "(01)…(17)…" form) into the fields we stock by. Returns null when the
+ * payload is not GS1, e.g. a plain EAN-13.
+ */
+export const parseGS1 = (raw: string): GS1Data | null => {
+  const trimmed = raw.trim();
+  const looksLikeGS1 =
+    trimmed.startsWith('(') ||
+    trimmed.startsWith(GS) ||
+    SYMBOLOGY_PREFIX.test(trimmed) ||
+    /^01\d{14}/.test(trimmed);
+  if (!looksLikeGS1) return null;
+
+  const elements = toElements(trimmed);
+  if (!elements) return null;
+
+  const result: GS1Data = {
+    gtin: elements['01'] && /^\d{14}$/.test(elements['01']) ? elements['01'] : undefined,
+    batch: elements['10'],
+    expiry: elements['17'] ? parseGS1Date(elements['17']) : undefined,
+    serial: elements['21'],
+  };
+
+  return result.gtin || result.batch || result.expiry ? result : null;
+};
+
+/**
+ * A GTIN-14 with leading zeros is the same product as the EAN-13 / UPC-A
+ * printed on the pack, so lookups try every spelling.
+ */
+export const gtinCandidates = (gtin: string): string[] => {
+  const candidates = [gtin];
+  if (gtin.startsWith('0')) candidates.push(gtin.slice(1));
+  if (gtin.startsWith('00')) candidates.push(gtin.slice(2));
+  return candidates;
+};
+
+// The spelling we store in medicines.barcode: EAN-13 where the GTIN allows it
+export const gtinToBarcode = (gtin: string): string => (gtin.startsWith('0') ? gtin.slice(1) : gtin);
@@ -0,0 +1,7 @@
+// For values written into documents opened with window.open + document.write
+export const escapeHtml = (value?: string | number | null) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
@@ -0,0 +1,276 @@
+import { format, subDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { DrugInteraction, InteractionSeverity, Medicine } from '../types';
+
+export const interactionSeverityStyles: Record<InteractionSeverity, string> = {
+  minor: 'bg-gray-100 text-gray-800',
+  moderate: 'bg-amber-100 text-amber-800',
+  major: 'bg-red-100 text-red-800',
+  contraindicated: 'bg-red-600 text-white',
+};
+
+export const interactionSeverityLabels: Record<InteractionSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  major: 'Major',
+  contraindicated: 'Contraindicated',
+};
+
+// Anything at or above these stops the sale until the pharmacist records an override
+const BLOCKING_SEVERITIES: InteractionSeverity[] = ['major', 'contraindicated'];
+
+// How far back the patient's own purchases are checked against the cart
+export const RECENT_PURCHASE_DAYS = 90;
+
+export const normalizeIngredient = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const parseIngredientList = (text: string) =>
+  Array.from(new Set(text.split(/[,;\n]/).map(normalizeIngredient).filter(Boolean)));
+
+// Plain code-unit order, which matches the table's COLLATE "C" check on the pair
+const pairKey = (first: string, second: string) =>
+  first < second ? `${first}|${second}` : `${second}|${first}`;
+
+export type InteractionRecord = Pick<DrugInteraction, 'ingredient_a' | 'ingredient_b' | 'severity' | 'description'>;
+
+// Minimal RFC 4180 reader: quoted fields may hold commas, quotes and line breaks
+const parseCSV = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const pick = (record: Record<string, unknown>, keys: string[]) => {
+  const key = keys.find(name => record[name] !== undefined && record[name] !== null);
+  return key ? String(record[key]) : '';
+};
+
+/**
+ * Reads an interaction dataset exported as CSV (with a header row) or JSON
+ * (an array of objects). Columns may be named ingredient_a / ingredient_b,
+ * drug_a / drug_b or a / b, plus severity and description.
+ */
+export const parseInteractionDataset = (text: string, fileName: string) => {
+  let records: Record<string, unknown>[];
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    records = Array.isArray(parsed) ? parsed : parsed.interactions || [];
+  } else {
+    const [header = [], ...rows] = parseCSV(text);
+    const columns = header.map(column => column.trim().toLowerCase().replace(/\s+/g, '_'));
+    records = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  }
+
+  const byPair = new Map<string, InteractionRecord>();
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const first = normalizeIngredient(pick(record, ['ingredient_a', 'drug_a', 'a']));
+    const second = normalizeIngredient(pick(record, ['ingredient_b', 'drug_b', 'b']));
+    const severity = pick(record, ['severity', 'level']).trim().toLowerCase() as InteractionSeverity;
+    const description = pick(record, ['description', 'effect', 'notes']).trim();
+    const row = index + (fileName.toLowerCase().endsWith('.json') ? 1 : 2);
+
+    if (!first || !second || first === second) {
+      errors.push(`Row ${row}: needs two different ingredients`);
+      return;
+    }
+    if (!interactionSeverityLabels[severity]) {
+      errors.push(`Row ${row}: unknown severity "${severity}"`);
+      return;
+    }
+
+    const [ingredientA, ingredientB] = first < second ? [first, second] : [second, first];
+    byPair.set(pairKey(first, second), {
+      ingredient_a: ingredientA,
+      ingredient_b: ingredientB,
+      severity,
+      description: description || `${interactionSeverityLabels[severity]} interaction`,
+    });
+  });
+
+  return { records: Array.from(byPair.values()), errors };
+};
+
+// Re-importing a pair replaces its severity and description
+export const importInteractions = async (organizationId: string, records: InteractionRecord[], source: string) => {
+  for (let i = 0; i < records.length; i += 500) {
+    const { error } = await supabase
+      .from('drug_interactions')
+      .upsert(
+        records.slice(i, i + 500).map(record => ({ ...record, source, organization_id: organizationId })),
+        { onConflict: 'organization_id,ingredient_a,ingredient_b' }
+      );
+
+    if (error) throw error;
+  }
+};
+
+// Only the pairs among the given ingredients, so the whole knowledge base is never loaded
+export const fetchInteractions = async (ingredients: string[]) => {
+  if (ingredients.length < 2) return [];
+
+  const { data, error } = await supabase
+    .from('drug_interactions')
+    .select('*')
+    .in('ingredient_a', ingredients)
+    .in('ingredient_b', ingredients);
+
+  if (error) throw error;
+  return (data || []) as DrugInteraction[];
+};
+
+export interface DispensingSubject {
+  name: string;
+  ingredients: string[];
+}
+
+export const subjectFor = (medicine: Pick<Medicine, 'name' | 'active_ingredients'>): DispensingSubject => ({
+  name: medicine.name,
+  ingredients: (medicine.active_ingredients || []).map(normalizeIngredient),
+});
+
+// Medicines bought by the patient recently, labelled with when they were bought
+interface RecentSale {
+  created_at: string;
+  items: Array<{ medicine: Pick<Medicine, 'name' | 'active_ingredients'> | null }>;
+}
+
+export const fetchRecentPurchases = async (patientId: string): Promise<DispensingSubject[]> => {
+  const { data, error } = await supabase
+    .from('sales')
+    .select('created_at, items:sale_items (medicine:medicines (name, active_ingredients))')
+    .eq('patient_id', patientId)
+    .gte('created_at', subDays(new Date(), RECENT_PURCHASE_DAYS).toISOString())
+    .order('created_at', { ascending: false })
+    .returns<RecentSale[]>();
+
+  if (error) throw error;
+
+  return (data || []).flatMap(sale => sale.items.flatMap(({ medicine }) => {
+    if (!medicine?.active_ingredients?.length) return [];
+    const subject = subjectFor(medicine);
+    return [{ ...subject, name: `${subject.name} (bought ${format(new Date(sale.created_at), 'MMM dd')})` }];
+  }));
+};
+
+export interface DispensingAlert {
+  key: string;
+  kind: 'interaction' | 'allergy';
+  severity: InteractionSeverity | 'allergy';
+  medicine: string;
+  against: string;
+  reason: string;
+  blocking: boolean;
+}
+
+export interface DispensingCheckInput {
+  cart: DispensingSubject[];
+  recentPurchases: DispensingSubject[];
+  currentMedications: string[];
+  allergies: string[];
+  interactions: DrugInteraction[];
+}
+
+/**
+ * Every interaction between a cart item and another cart item, the patient's
+ * recent purchases or their current medication, plus any cart item that
+ * matches a recorded allergy.
+ */
+export const checkDispensing = ({
+  cart,
+  recentPurchases,
+  currentMedications,
+  allergies,
+  interactions,
+}: DispensingCheckInput): DispensingAlert[] => {
+  const byPair = new Map(interactions.map(interaction => [
+    pairKey(interaction.ingredient_a, interaction.ingredient_b),
+    interaction,
+  ]));
+  const alerts = new Map<string, DispensingAlert>();
+
+  const others = [
+    ...recentPurchases,
+    ...currentMedications.map(name => ({ name: `${name} (current medication)`, ingredients: [normalizeIngredient(name)] })),
+  ];
+
+  cart.forEach((item, index) => {
+    const against = [...cart.slice(index + 1), ...others];
+
+    against.forEach(other => {
+      item.ingredients.forEach(ingredient => {
+        other.ingredients.forEach(otherIngredient => {
+          const interaction = byPair.get(pairKey(ingredient, otherIngredient));
+          if (!interaction) return;
+
+          const key = `${item.name}|${other.name}|${pairKey(ingredient, otherIngredient)}`;
+          alerts.set(key, {
+            key,
+            kind: 'interaction',
+            severity: interaction.severity,
+            medicine: item.name,
+            against: other.name,
+            reason: `${ingredient} + ${otherIngredient}: ${interaction.description}`,
+            blocking: BLOCKING_SEVERITIES.includes(interaction.severity),
+          });
+        });
+      });
+    });
+
+    allergies.map(normalizeIngredient).forEach(allergy => {
+      const matched = item.ingredients.find(ingredient => ingredient.includes(allergy)) ||
+        (item.name.toLowerCase().includes(allergy) ? item.name : undefined);
+      if (!matched) return;
+
+      const key = `${item.name}|allergy|${allergy}`;
+      alerts.set(key, {
+        key,
+        kind: 'allergy',
+        severity: 'allergy',
+        medicine: item.name,
+        against: `Allergy: ${allergy}`,
+        reason: `Patient is recorded as allergic to ${allergy} (${matched})`,
+        blocking: true,
+      });
+    });
+  });
+
+  return Array.from(alerts.values());
+};
@@ -0,0 +1,109 @@
+import { format } from 'date-fns';
+import { Store } from '../types';
+import { escapeHtml } from './html';
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  widthMm: number;
+  heightMm: number;
+  fontSizePt: number;
+  showBatch: boolean;
+}
+
+// Common dispensing label stock; the last one used is remembered per device
+export const labelTemplates: LabelTemplate[] = [
+  { id: 'standard', name: 'Standard dispensing (70 × 35 mm)', widthMm: 70, heightMm: 35, fontSizePt: 8, showBatch: true },
+  { id: 'dymo', name: 'Dymo address (89 × 36 mm)', widthMm: 89, heightMm: 36, fontSizePt: 8, showBatch: true },
+  { id: '3x2', name: 'Thermal 3 × 2 in (76 × 51 mm)', widthMm: 76, heightMm: 51, fontSizePt: 9, showBatch: true },
+  { id: '4x2', name: 'Thermal 4 × 2 in (102 × 51 mm)', widthMm: 102, heightMm: 51, fontSizePt: 10, showBatch: true },
+];
+
+export const LABEL_TEMPLATE_STORAGE_KEY = 'dispensing_label_template';
+
+export interface LabelData {
+  patientName: string;
+  drug: string;
+  strength?: string | null;
+  directions: string;
+  quantity: number;
+  date: string;
+  pharmacistInitials: string;
+  batches: string[];
+  expiry?: string | null;
+}
+
+export const initialsOf = (name?: string | null) =>
+  (name || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+const renderLabel = (label: LabelData, template: LabelTemplate, store: Store | null) => `
+  <div class="label">
+    <div class="store">
+      <strong>${escapeHtml(store?.name)}</strong>
+      ${escapeHtml([store?.address, store?.phone].filter(Boolean).join(' • '))}
+    </div>
+    <div class="drug">
+      ${escapeHtml(label.drug)}${label.strength ? ` ${escapeHtml(label.strength)}` : ''}
+      <span class="qty">Qty ${label.quantity}</span>
+    </div>
+    <div class="directions">${escapeHtml(label.directions)}</div>
+    <div class="footer">
+      <span><strong>${escapeHtml(label.patientName)}</strong></span>
+      <span>${format(new Date(label.date), 'dd/MM/yyyy')} • ${escapeHtml(label.pharmacistInitials)}</span>
+    </div>
+    ${template.showBatch && label.batches.length > 0 ? `
+      <div class="batch">
+        Batch ${escapeHtml(label.batches.join(', '))}${label.expiry ? ` • Exp ${format(new Date(label.expiry), 'MM/yyyy')}` : ''}
+        ${store?.license_number ? ` • Lic ${escapeHtml(store.license_number)}` : ''}
+      </div>
+    ` : ''}
+  </div>
+`;
+
+// One label per printed page, sized to the label stock so label printers feed correctly
+export const renderLabelsHTML = (labels: LabelData[], template: LabelTemplate, store: Store | null) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <title>Dispensing Labels</title>
+    <style>
+      @page { size: ${template.widthMm}mm ${template.heightMm}mm; margin: 0; }
+      * { box-sizing: border-box; }
+      body { margin: 0; font-family: Arial, sans-serif; font-size: ${template.fontSizePt}pt; line-height: 1.2; color: #000; }
+      .label {
+        width: ${template.widthMm}mm;
+        height: ${template.heightMm}mm;
+        padding: 2mm 3mm;
+        overflow: hidden;
+        display: flex;
+        flex-direction: column;
+        page-break-after: always;
+      }
+      .label:last-child { page-break-after: auto; }
+      .store { font-size: 0.85em; border-bottom: 1px solid #000; padding-bottom: 1mm; }
+      .store strong { display: block; }
+      .drug { font-weight: bold; font-size: 1.15em; margin-top: 1mm; display: flex; justify-content: space-between; gap: 2mm; }
+      .qty { white-space: nowrap; }
+      .directions { flex: 1; margin-top: 1mm; }
+      .footer { display: flex; justify-content: space-between; gap: 2mm; }
+      .batch { font-size: 0.8em; }
+    </style>
+  </head>
+  <body>
+    ${labels.map(label => renderLabel(label, template, store)).join('')}
+  </body>
+  </html>
+`;
+
+export const printLabels = (labels: LabelData[], template: LabelTemplate, store: Store | null) => {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(renderLabelsHTML(labels, template, store));
+    printWindow.document.close();
+    printWindow.print();
+  }
+};
@@ -0,0 +1,230 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput, Styles } from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Organization, Store } from '../types';
+
+export interface PdfBranding {
+  name: string;
+  // Kept as a data URL so documents still carry the logo while offline
+  logo?: string | null;
+  details: string[];
+}
+
+type BrandingOrganization = Pick<Organization, 'name' | 'logo_url' | 'address' | 'phone' | 'email' | 'license_number' | 'tax_id'>;
+
+interface CachedBranding {
+  organization: BrandingOrganization;
+  logo: string | null;
+}
+
+const BRANDING_CACHE_KEY = 'pdf_branding';
+const MARGIN = 14;
+const BRAND_COLOR: [number, number, number] = [29, 78, 216];
+
+const toDataUrl = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Logo request failed with status ${response.status}`);
+
+  const blob = await response.blob();
+  if (!['image/png', 'image/jpeg'].includes(blob.type)) {
+    throw new Error(`Unsupported logo format ${blob.type}; use a PNG or JPEG`);
+  }
+
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * The organization's name and logo with the store's contact details. The last
+ * branding fetched is cached on the device so PDFs can be produced offline.
+ */
+export const fetchBranding = async (organizationId?: string | null, store?: Store | null): Promise<PdfBranding> => {
+  const cacheKey = `${BRANDING_CACHE_KEY}_${organizationId}`;
+  let cached: CachedBranding | null = null;
+
+  if (organizationId) {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('name, logo_url, address, phone, email, license_number, tax_id')
+        .eq('id', organizationId)
+        .single();
+
+      if (error) throw error;
+
+      let logo: string | null = null;
+      if (data.logo_url) {
+        try {
+          logo = await toDataUrl(data.logo_url);
+        } catch (logoError) {
+          console.warn('Error loading organization logo:', logoError);
+        }
+      }
+
+      cached = { organization: data, logo };
+      try {
+        localStorage.setItem(cacheKey, JSON.stringify(cached));
+      } catch (storageError) {
+        console.warn('Error caching organization branding:', storageError);
+      }
+    } catch (error) {
+      console.error('Error fetching organization branding:', error);
+      const stored = localStorage.getItem(cacheKey);
+      cached = stored ? JSON.parse(stored) : null;
+    }
+  }
+
+  const organization = cached?.organization;
+  const name = organization?.name || store?.name || 'Pharmacy';
+
+  return {
+    name,
+    logo: cached?.logo,
+    details: [
+      store && store.name !== name ? store.name : '',
+      store?.address || organization?.address || '',
+      [store?.phone || organization?.phone, store?.email || organization?.email].filter(Boolean).join(' | '),
+      [
+        (store?.license_number || organization?.license_number) && `Licence ${store?.license_number || organization?.license_number}`,
+        organization?.tax_id && `Tax ID ${organization.tax_id}`,
+      ].filter(Boolean).join(' | '),
+    ].filter(Boolean),
+  };
+};
+
+export interface PdfOptions {
+  title: string;
+  subtitle?: string[];
+  orientation?: 'portrait' | 'landscape';
+}
+
+// Starts an A4 document with the letterhead drawn; returns the y position below it
+export const createPdf = (branding: PdfBranding, { title, subtitle = [], orientation = 'portrait' }: PdfOptions) => {
+  const doc = new jsPDF({ orientation, unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let textX = MARGIN;
+  let logoBottom = MARGIN;
+
+  if (branding.logo) {
+    const { width, height, fileType } = doc.getImageProperties(branding.logo);
+    const logoHeight = 16;
+    const logoWidth = Math.min(40, (width / height) * logoHeight);
+    doc.addImage(branding.logo, fileType, MARGIN, MARGIN, logoWidth, logoHeight);
+    textX += logoWidth + 4;
+    logoBottom += logoHeight;
+  }
+
+  doc.setFont('helvetica', 'bold').setFontSize(14).setTextColor(0);
+  doc.text(branding.name, textX, MARGIN + 5);
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(90);
+  branding.details.forEach((line, index) => doc.text(line, textX, MARGIN + 10 + index * 3.5));
+
+  doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(...BRAND_COLOR);
+  doc.text(title, pageWidth - MARGIN, MARGIN + 5, { align: 'right' });
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(60);
+  subtitle.forEach((line, index) => doc.text(line, pageWidth - MARGIN, MARGIN + 11 + index * 4, { align: 'right' }));
+
+  const y = Math.max(
+    logoBottom,
+    MARGIN + 10 + branding.details.length * 3.5,
+    MARGIN + 11 + subtitle.length * 4
+  ) + 2;
+
+  doc.setDrawColor(200).setLineWidth(0.3).line(MARGIN, y, pageWidth - MARGIN, y);
+  doc.setTextColor(0);
+
+  return { doc, y: y + 6 };
+};
+
+// Moves to a new page when fewer than `needed` mm are left above the footer
+const ensureSpace = (doc: jsPDF, y: number, needed: number) => {
+  if (y + needed <= doc.internal.pageSize.getHeight() - 20) return y;
+  doc.addPage();
+  return MARGIN;
+};
+
+export const addHeading = (doc: jsPDF, y: number, text: string) => {
+  const top = ensureSpace(doc, y, 20);
+  doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(0);
+  doc.text(text, MARGIN, top + 4);
+  return top + 7;
+};
+
+// Label/value pairs in columns, e.g. a report's headline figures
+export const addSummary = (doc: jsPDF, y: number, rows: Array<[string, string]>, columns = 2) => {
+  const columnWidth = (doc.internal.pageSize.getWidth() - MARGIN * 2) / columns;
+  const top = ensureSpace(doc, y, Math.ceil(rows.length / columns) * 5 + 4);
+
+  rows.forEach(([label, value], index) => {
+    const x = MARGIN + (index % columns) * columnWidth;
+    const rowY = top + 4 + Math.floor(index / columns) * 5;
+    doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(90);
+    doc.text(label, x, rowY);
+    doc.setFont('helvetica', 'bold').setTextColor(0);
+    doc.text(value, x + columnWidth - 4, rowY, { align: 'right' });
+  });
+
+  return top + Math.ceil(rows.length / columns) * 5 + 4;
+};
+
+export interface PdfTable {
+  head: string[];
+  body: RowInput[];
+  foot?: RowInput[];
+  columnStyles?: Record<number, Partial<Styles>>;
+}
+
+// Breaks across pages as needed, repeating the column headings on each page
+export const addTable = (doc: jsPDF, y: number, { head, body, foot, columnStyles }: PdfTable) => {
+  autoTable(doc, {
+    startY: y,
+    head: [head],
+    body,
+    foot,
+    columnStyles,
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    margin: { top: MARGIN, right: MARGIN, bottom: 20, left: MARGIN },
+    styles: { font: 'helvetica', fontSize: 8, cellPadding: 1.8 },
+    headStyles: { fillColor: BRAND_COLOR, textColor: 255 },
+    footStyles: { fillColor: [243, 244, 246], textColor: 0 },
+    alternateRowStyles: { fillColor: [249, 250, 251] },
+  });
+
+  const { lastAutoTable } = doc as jsPDF & { lastAutoTable: { finalY: number } };
+  return lastAutoTable.finalY + 6;
+};
+
+export const addParagraph = (doc: jsPDF, y: number, text: string) => {
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(60);
+  const lines = doc.splitTextToSize(text, width) as string[];
+  const top = ensureSpace(doc, y, lines.length * 4 + 2);
+  doc.text(lines, MARGIN, top + 4);
+  doc.setTextColor(0);
+  return top + lines.length * 4 + 2;
+};
+
+// Stamps the organization name, print date and page numbers on every page
+const addFooters = (doc: jsPDF, branding: PdfBranding) => {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const footerY = doc.internal.pageSize.getHeight() - 8;
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(120);
+    doc.text(`${branding.name} | Generated ${format(new Date(), 'MMM dd, yyyy HH:mm')}`, MARGIN, footerY);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, footerY, { align: 'right' });
+  }
+};
+
+export const pdfFile = (doc: jsPDF, branding: PdfBranding, fileName: string) => {
+  addFooters(doc, branding);
+  return new File([doc.output('blob')], fileName, { type: 'application/pdf' });
+};
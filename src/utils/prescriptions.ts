@@ -0,0 +1,216 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Prescription, PrescriptionItem, Store } from '../types';
+
+const SCAN_BUCKET = 'prescriptions';
+
+export type PrescriptionState = 'active' | 'expired' | 'used' | 'cancelled';
+
+export const prescriptionStateStyles: Record<PrescriptionState, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-red-100 text-red-800',
+  used: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export const prescriptionStateLabels: Record<PrescriptionState, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  used: 'No Refills Left',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * The first fill is the prescription itself; every fill after it uses up one
+ * of the refills the prescriber allowed.
+ */
+export const prescriptionState = (prescription: Prescription): PrescriptionState => {
+  if (prescription.status === 'cancelled') return 'cancelled';
+  if (prescription.valid_until && prescription.valid_until < format(new Date(), 'yyyy-MM-dd')) return 'expired';
+  if (prescription.dispense_count > 0 && prescription.refills_remaining === 0) return 'used';
+  return 'active';
+};
+
+export interface DispenseLine {
+  productId?: string;
+  name: string;
+  quantity: number;
+}
+
+const itemFor = (prescription: Prescription, line: DispenseLine) =>
+  prescription.items.find(item =>
+    (line.productId && item.product_id === line.productId) ||
+    item.medicine_name.trim().toLowerCase() === line.name.trim().toLowerCase()
+  );
+
+// Why the prescription cannot cover these lines, or null when it can
+export const checkPrescription = (
+  prescription: Prescription,
+  patientId: string,
+  lines: DispenseLine[]
+): string | null => {
+  if (prescription.patient_id !== patientId) {
+    return `Prescription ${prescription.reference} was written for a different patient.`;
+  }
+
+  const state = prescriptionState(prescription);
+  if (state !== 'active') {
+    return `Prescription ${prescription.reference} cannot be dispensed: ${prescriptionStateLabels[state].toLowerCase()}.`;
+  }
+
+  for (const line of lines) {
+    const item = itemFor(prescription, line);
+    if (!item) {
+      return `${line.name} is not on prescription ${prescription.reference}.`;
+    }
+    if (line.quantity > item.quantity) {
+      return `Prescription ${prescription.reference} allows ${item.quantity} of ${line.name} per fill.`;
+    }
+  }
+
+  return null;
+};
+
+export const fetchPatientPrescriptions = async (patientId: string) => {
+  const { data, error } = await supabase
+    .from('prescriptions')
+    .select('*, items:prescription_items (*)')
+    .eq('patient_id', patientId)
+    .order('prescribed_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Prescription[];
+};
+
+export interface PrescriptionInput {
+  store: Store;
+  userId: string;
+  patientId: string;
+  prescriberName: string;
+  prescriberLicence: string;
+  prescribedDate: string;
+  validUntil?: string;
+  refillsAllowed: number;
+  notes?: string;
+  items: Pick<PrescriptionItem, 'product_id' | 'medicine_name' | 'quantity' | 'directions'>[];
+  scan?: File | null;
+}
+
+export const createPrescription = async ({
+  store,
+  userId,
+  patientId,
+  prescriberName,
+  prescriberLicence,
+  prescribedDate,
+  validUntil,
+  refillsAllowed,
+  notes,
+  items,
+  scan,
+}: PrescriptionInput) => {
+  const { data: prescription, error } = await supabase
+    .from('prescriptions')
+    .insert({
+      reference: `RX-${store.code}-${format(new Date(), 'yyMMdd-HHmmss')}`,
+      patient_id: patientId,
+      prescriber_name: prescriberName,
+      prescriber_licence: prescriberLicence,
+      prescribed_date: prescribedDate,
+      valid_until: validUntil || null,
+      refills_allowed: refillsAllowed,
+      refills_remaining: refillsAllowed,
+      notes: notes || null,
+      store_id: store.id,
+      organization_id: store.organization_id,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { data: itemsData, error: itemsError } = await supabase
+    .from('prescription_items')
+    .insert(items.map(item => ({ ...item, prescription_id: prescription.id })))
+    .select();
+
+  if (itemsError) throw itemsError;
+
+  let imagePath: string | null = null;
+  if (scan) {
+    // Scans live under the organization id, which is what the bucket policies check
+    const extension = scan.name.split('.').pop()?.toLowerCase() || 'jpg';
+    imagePath = `${store.organization_id}/${prescription.id}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(SCAN_BUCKET)
+      .upload(imagePath, scan, { contentType: scan.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error: pathError } = await supabase
+      .from('prescriptions')
+      .update({ image_path: imagePath })
+      .eq('id', prescription.id);
+
+    if (pathError) throw pathError;
+  }
+
+  return { ...prescription, image_path: imagePath, items: itemsData || [] } as Prescription;
+};
+
+/**
+ * Counts a fill against the prescription. The update only applies if nobody
+ * else dispensed it in the meantime, so one refill cannot be used twice.
+ */
+export const consumePrescription = async (prescription: Prescription) => {
+  const { data, error } = await supabase
+    .from('prescriptions')
+    .update({
+      dispense_count: prescription.dispense_count + 1,
+      refills_remaining: prescription.dispense_count > 0
+        ? prescription.refills_remaining - 1
+        : prescription.refills_remaining,
+      last_dispensed_at: new Date().toISOString(),
+    })
+    .eq('id', prescription.id)
+    .eq('dispense_count', prescription.dispense_count)
+    .select();
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(`Prescription ${prescription.reference} was just dispensed elsewhere. Reload it and try again.`);
+  }
+};
+
+// Hands back a fill counted by consumePrescription when the sale then fails
+export const restorePrescription = async (prescription: Prescription) => {
+  const { error } = await supabase
+    .from('prescriptions')
+    .update({
+      dispense_count: prescription.dispense_count,
+      refills_remaining: prescription.refills_remaining,
+      last_dispensed_at: prescription.last_dispensed_at || null,
+    })
+    .eq('id', prescription.id)
+    .eq('dispense_count', prescription.dispense_count + 1);
+
+  if (error) throw error;
+};
+
+// Scans are private, so they are opened through a short-lived link
+export const openPrescriptionScan = async (imagePath: string) => {
+  // The tab is opened before the request so browsers do not block it as a popup
+  const scanWindow = window.open('', '_blank');
+
+  const { data, error } = await supabase.storage
+    .from(SCAN_BUCKET)
+    .createSignedUrl(imagePath, 300);
+
+  if (error) {
+    scanWindow?.close();
+    throw error;
+  }
+  if (scanWindow) scanWindow.location.href = data.signedUrl;
+};
@@ -0,0 +1,131 @@
+import { differenceInDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Medicine, Product } from '../types';
+
+export interface ProductStock {
+  key: string;
+  product: Product | null;
+  name: string;
+  category: string;
+  manufacturer?: string;
+  minStockLevel: number;
+  batches: Medicine[];
+  // Sellable (unexpired, not quarantined) units across all batches in the list
+  onHand: number;
+  expiredUnits: number;
+  quarantinedUnits: number;
+  stockValue: number;
+  storeCount: number;
+  nextExpiry: string | null;
+}
+
+export const productKey = (medicine: Pick<Medicine, 'product_id' | 'name'>) =>
+  medicine.product_id || `name:${medicine.name.trim().toLowerCase()}`;
+
+/**
+ * Rolls stock batches up under their catalogue product. Batches that have not
+ * been linked to a product yet are grouped by name so they still total up.
+ */
+export const groupBatchesByProduct = (
+  medicines: Medicine[],
+  products: Product[] = [],
+  now: Date = new Date()
+): ProductStock[] => {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const groups = new Map<string, ProductStock>();
+  const storesByGroup = new Map<string, Set<string>>();
+
+  medicines.forEach(medicine => {
+    const key = productKey(medicine);
+    let group = groups.get(key);
+
+    if (!group) {
+      const product = (medicine.product_id && productsById.get(medicine.product_id)) || null;
+      group = {
+        key,
+        product,
+        name: product?.name || medicine.name,
+        category: product?.category || medicine.category,
+        manufacturer: product?.manufacturer || medicine.manufacturer,
+        minStockLevel: product?.min_stock_level ?? medicine.min_stock_level,
+        batches: [],
+        onHand: 0,
+        expiredUnits: 0,
+        quarantinedUnits: 0,
+        stockValue: 0,
+        storeCount: 0,
+        nextExpiry: null,
+      };
+      groups.set(key, group);
+      storesByGroup.set(key, new Set());
+    }
+
+    group.batches.push(medicine);
+    if (medicine.store_id) storesByGroup.get(key)?.add(medicine.store_id);
+
+    if (medicine.quarantined) {
+      group.quarantinedUnits += medicine.quantity;
+      return;
+    }
+
+    if (differenceInDays(new Date(medicine.expiry_date), now) < 0) {
+      group.expiredUnits += medicine.quantity;
+      return;
+    }
+
+    group.onHand += medicine.quantity;
+    group.stockValue += medicine.quantity * (medicine.cost_price || 0);
+    if (medicine.quantity > 0 && (!group.nextExpiry || medicine.expiry_date < group.nextExpiry)) {
+      group.nextExpiry = medicine.expiry_date;
+    }
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      storeCount: storesByGroup.get(group.key)?.size || 0,
+      batches: [...group.batches].sort((a, b) => a.expiry_date.localeCompare(b.expiry_date)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const isProductLowStock = (stock: ProductStock) => stock.onHand <= stock.minStockLevel;
+
+/**
+ * Returns the catalogue product for a medicine name in the organization,
+ * creating it from the supplied details when it does not exist yet.
+ */
+export const findOrCreateProduct = async (
+  details: Pick<Product, 'name' | 'category'> & Partial<Product>,
+  organizationId: string
+): Promise<string> => {
+  const { data: existing, error: lookupError } = await supabase
+    .from('products')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .ilike('name', details.name.trim().replace(/[%_\\]/g, '\\$&'))
+    .limit(1);
+
+  if (lookupError) throw lookupError;
+  if (existing && existing.length > 0) return existing[0].id;
+
+  const { data, error } = await supabase
+    .from('products')
+    .insert({
+      organization_id: organizationId,
+      name: details.name.trim(),
+      category: details.category || 'Other',
+      manufacturer: details.manufacturer || null,
+      barcode: details.barcode || null,
+      description: details.description || null,
+      min_stock_level: details.min_stock_level ?? 10,
+      reorder_point: details.reorder_point,
+      max_stock_level: details.max_stock_level,
+      preferred_vendor_id: details.preferred_vendor_id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
@@ -0,0 +1,146 @@
+import { supabase } from '../lib/supabase';
+import { BatchRecall, Medicine, Patient, Product, Sale, SaleItem } from '../types';
+
+export interface RecallSaleLine {
+  item: SaleItem;
+  sale: Omit<Sale, 'items'>;
+}
+
+export interface RecallPatient {
+  patient: Patient;
+  units: number;
+  invoices: string[];
+  lastDispensed: string;
+}
+
+export interface RecallTrace {
+  batches: Medicine[];
+  sales: RecallSaleLine[];
+}
+
+export interface RecallSummary {
+  quarantinedUnits: number;
+  soldUnits: number;
+  walkInUnits: number;
+  storeIds: string[];
+  patients: RecallPatient[];
+}
+
+export interface InitiateRecallInput {
+  organizationId: string;
+  product: Product;
+  batchNumbers: string[];
+  reason: string;
+  reference?: string;
+  userId: string;
+}
+
+/**
+ * Records the recall. Quarantining the batches in every store and notifying
+ * the affected stores happens in the database when the recall is inserted.
+ */
+export const initiateRecall = async ({
+  organizationId,
+  product,
+  batchNumbers,
+  reason,
+  reference,
+  userId,
+}: InitiateRecallInput): Promise<BatchRecall> => {
+  const { data, error } = await supabase
+    .from('batch_recalls')
+    .insert({
+      organization_id: organizationId,
+      product_id: product.id,
+      product_name: product.name,
+      batch_numbers: batchNumbers,
+      reason,
+      reference: reference || null,
+      initiated_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const closeRecall = async (recall: BatchRecall) => {
+  const { error } = await supabase
+    .from('batch_recalls')
+    .update({ status: 'closed', closed_at: new Date().toISOString() })
+    .eq('id', recall.id);
+
+  if (error) throw error;
+};
+
+// Every batch row and every dispensed sale line for the recalled batches
+export const traceRecall = async (recall: BatchRecall): Promise<RecallTrace> => {
+  const { data: batches, error: batchesError } = await supabase
+    .from('medicines')
+    .select('*')
+    .eq('organization_id', recall.organization_id)
+    .eq('product_id', recall.product_id)
+    .in('batch_no', recall.batch_numbers);
+
+  if (batchesError) throw batchesError;
+
+  const { data: items, error: itemsError } = await supabase
+    .from('sale_items')
+    .select(`
+      *,
+      sale:sales (
+        *,
+        patient:patients (*)
+      )
+    `)
+    .eq('product_id', recall.product_id)
+    .in('batch_no', recall.batch_numbers);
+
+  if (itemsError) throw itemsError;
+
+  const sales = (items || [])
+    .filter(item => item.sale && item.sale.organization_id === recall.organization_id)
+    .map(({ sale, ...item }) => ({ item, sale }))
+    .sort((a, b) => b.sale.created_at.localeCompare(a.sale.created_at));
+
+  return { batches: batches || [], sales };
+};
+
+export const summarizeRecall = (trace: RecallTrace): RecallSummary => {
+  const patients = new Map<string, RecallPatient>();
+  let soldUnits = 0;
+  let walkInUnits = 0;
+
+  trace.sales.forEach(({ item, sale }) => {
+    soldUnits += item.quantity;
+
+    if (!sale.patient) {
+      walkInUnits += item.quantity;
+      return;
+    }
+
+    const entry = patients.get(sale.patient.id) || {
+      patient: sale.patient,
+      units: 0,
+      invoices: [],
+      lastDispensed: sale.created_at,
+    };
+    entry.units += item.quantity;
+    if (!entry.invoices.includes(sale.invoice_no)) entry.invoices.push(sale.invoice_no);
+    if (sale.created_at > entry.lastDispensed) entry.lastDispensed = sale.created_at;
+    patients.set(sale.patient.id, entry);
+  });
+
+  const storeIds = new Set<string>();
+  trace.batches.forEach(batch => batch.store_id && storeIds.add(batch.store_id));
+  trace.sales.forEach(({ sale }) => sale.store_id && storeIds.add(sale.store_id));
+
+  return {
+    quarantinedUnits: trace.batches.reduce((sum, batch) => sum + batch.quantity, 0),
+    soldUnits,
+    walkInUnits,
+    storeIds: Array.from(storeIds),
+    patients: Array.from(patients.values()).sort((a, b) => a.patient.name.localeCompare(b.patient.name)),
+  };
+};
@@ -0,0 +1,30 @@
+import { differenceInDays } from 'date-fns';
+import { Sale } from '../types';
+
+export type AgeingBucket = '0-30' | '31-60' | '60+';
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['0-30', '31-60', '60+'];
+
+// Amounts are stored to the cent, so sums are rounded before they are compared or written
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount still owed on a sale. Sales recorded before instalments were
+ * tracked have no `amount_paid`, so a `paid` status is trusted as settled.
+ */
+export const getOutstanding = (sale: Pick<Sale, 'total_amount' | 'amount_paid' | 'payment_status'>) => {
+  if (sale.payment_status === 'paid') return 0;
+  return Math.max(0, roundCurrency(sale.total_amount - (sale.amount_paid || 0)));
+};
+
+export const resolvePaymentStatus = (total: number, paid: number): Sale['payment_status'] => {
+  if (roundCurrency(total - paid) <= 0) return 'paid';
+  return paid > 0 ? 'partial' : 'pending';
+};
+
+export const getAgeingBucket = (createdAt: string, now: Date = new Date()): AgeingBucket => {
+  const age = differenceInDays(now, new Date(createdAt));
+  if (age <= 30) return '0-30';
+  if (age <= 60) return '31-60';
+  return '60+';
+};
@@ -0,0 +1,82 @@
+import { Medicine } from '../types';
+import { productKey } from './productCatalogue';
+
+export interface ReorderSuggestion {
+  key: string;
+  name: string;
+  medicineId: string;
+  productId: string | null;
+  category: string;
+  onHand: number;
+  reorderPoint: number;
+  targetLevel: number;
+  dailyVelocity: number;
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+  unitCost: number;
+  vendorId: string | null;
+}
+
+export interface ReorderOptions {
+  lookbackDays?: number;
+  coverDays?: number;
+  now?: Date;
+}
+
+/**
+ * Builds reorder suggestions per product from its batches.
+ *
+ * `unitsSold` maps batch ids to units sold over the lookback window and
+ * `lastVendors` maps batch ids to the vendor they were last received from,
+ * used when a product has no preferred vendor. A product is suggested once
+ * sellable stock is at its reorder point, or will be within `coverDays` at
+ * the current sales rate; the quantity tops it up to `max_stock_level`.
+ */
+export const buildReorderSuggestions = (
+  medicines: Medicine[],
+  unitsSold: Record<string, number>,
+  lastVendors: Record<string, string> = {},
+  { lookbackDays = 30, coverDays = 14, now = new Date() }: ReorderOptions = {}
+): ReorderSuggestion[] => {
+  const products = medicines.reduce((acc, medicine) => {
+    const key = productKey(medicine);
+    (acc[key] = acc[key] || []).push(medicine);
+    return acc;
+  }, {} as Record<string, Medicine[]>);
+
+  return Object.entries(products)
+    .map(([key, batches]) => {
+      // The newest batch carries the current pricing and stock settings
+      const latest = [...batches].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+      const onHand = batches
+        .filter(batch => !batch.quarantined && new Date(batch.expiry_date) > now)
+        .reduce((sum, batch) => sum + batch.quantity, 0);
+      const sold = batches.reduce((sum, batch) => sum + (unitsSold[batch.id] || 0), 0);
+      const dailyVelocity = sold / lookbackDays;
+      const reorderPoint = latest.reorder_point ?? latest.min_stock_level;
+      const targetLevel = latest.max_stock_level
+        ?? Math.max(reorderPoint * 2, reorderPoint + Math.ceil(dailyVelocity * coverDays));
+      const projected = onHand - dailyVelocity * coverDays;
+      const vendorId = latest.preferred_vendor_id
+        || batches.map(batch => lastVendors[batch.id]).find(Boolean)
+        || null;
+
+      return {
+        key,
+        name: latest.name,
+        medicineId: latest.id,
+        productId: latest.product_id || null,
+        category: latest.category,
+        onHand,
+        reorderPoint,
+        targetLevel,
+        dailyVelocity,
+        daysOfCover: dailyVelocity > 0 ? onHand / dailyVelocity : null,
+        suggestedQuantity: projected <= reorderPoint ? Math.max(0, Math.ceil(targetLevel - onHand)) : 0,
+        unitCost: latest.cost_price,
+        vendorId,
+      };
+    })
+    .filter(suggestion => suggestion.suggestedQuantity > 0)
+    .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || a.onHand - b.onHand);
+};
@@ -0,0 +1,250 @@
+import { supabase } from '../lib/supabase';
+import { Medicine, Payment, Store } from '../types';
+import { findOrCreateProduct } from './productCatalogue';
+import { adjustBatchQuantity, MovementSource, recordMovement } from './stockLedger';
+
+export interface IntakeLine {
+  name: string;
+  category: string;
+  manufacturer: string;
+  batch_no: string;
+  expiry_date: string;
+  quantity: number;
+  unit_cost: number;
+  price: number;
+  // Carried over from the source batch on transfers
+  controlled?: boolean;
+  schedule?: string | null;
+  prescription_only?: boolean;
+  active_ingredients?: string[];
+  strength?: string | null;
+  // Set when the line is received against a purchase order
+  purchase_order_item_id?: string;
+  ordered_quantity?: number;
+  discrepancy_reason?: string;
+}
+
+export interface PostPurchaseInput {
+  store: Store;
+  userId: string;
+  vendorId: string;
+  vendorName?: string;
+  invoiceNo: string;
+  purchaseDate: string;
+  orderDate?: string;
+  notes?: string;
+  paymentMethod: Payment['payment_method'];
+  purchaseOrderId?: string;
+  lines: IntakeLine[];
+  medicines: Medicine[];
+}
+
+/**
+ * Top up an existing batch in this store, or create a new batch row. The batch
+ * is looked up in the database rather than in `medicines`, which may be stale
+ * or miss a batch an earlier line of the same document just created.
+ */
+export const receiveBatch = async (
+  line: IntakeLine,
+  medicines: Medicine[],
+  store: Store,
+  source: MovementSource
+): Promise<string> => {
+  const { data: batches, error: batchError } = await supabase
+    .from('medicines')
+    .select('id, name, price')
+    .eq('store_id', store.id)
+    .eq('batch_no', line.batch_no);
+
+  if (batchError) throw batchError;
+
+  const existingBatch = (batches || []).find(medicine => medicine.name.toLowerCase() === line.name.toLowerCase());
+
+  if (existingBatch) {
+    const { medicine, balanceAfter } = await adjustBatchQuantity(existingBatch.id, line.quantity, {
+      cost_price: line.unit_cost,
+      price: line.price || existingBatch.price,
+    });
+
+    await recordMovement({
+      ...source,
+      medicine,
+      quantityChange: line.quantity,
+      balanceAfter,
+    });
+    return existingBatch.id;
+  }
+
+  const template = medicines.find(medicine => medicine.name.toLowerCase() === line.name.toLowerCase());
+  const productId = template?.product_id || await findOrCreateProduct(
+    {
+      name: line.name,
+      category: line.category || template?.category || 'Other',
+      manufacturer: line.manufacturer || template?.manufacturer,
+      barcode: template?.barcode,
+      min_stock_level: template?.min_stock_level,
+      reorder_point: template?.reorder_point,
+      max_stock_level: template?.max_stock_level,
+      preferred_vendor_id: template?.preferred_vendor_id,
+    },
+    store.organization_id
+  );
+
+  const { data, error } = await supabase
+    .from('medicines')
+    .insert({
+      product_id: productId,
+      name: line.name,
+      batch_no: line.batch_no,
+      expiry_date: line.expiry_date,
+      quantity: line.quantity,
+      price: line.price || template?.price || 0,
+      cost_price: line.unit_cost,
+      category: line.category || template?.category || 'Other',
+      manufacturer: line.manufacturer || template?.manufacturer || null,
+      min_stock_level: template?.min_stock_level ?? 10,
+      reorder_point: template?.reorder_point,
+      max_stock_level: template?.max_stock_level,
+      preferred_vendor_id: template?.preferred_vendor_id,
+      barcode: template?.barcode || null,
+      controlled: line.controlled ?? template?.controlled ?? false,
+      schedule: line.schedule ?? template?.schedule ?? null,
+      prescription_only: line.prescription_only ?? template?.prescription_only ?? false,
+      active_ingredients: line.active_ingredients ?? template?.active_ingredients ?? [],
+      strength: line.strength ?? template?.strength ?? null,
+      store_id: store.id,
+      organization_id: store.organization_id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await recordMovement({
+    ...source,
+    medicine: data,
+    quantityChange: line.quantity,
+    balanceAfter: line.quantity,
+  });
+  return data.id;
+};
+
+/**
+ * Records a supplier invoice: the purchase, its items, the stock intake for
+ * every line and the matching expense in the payments ledger. If any step
+ * fails, the stock already booked is taken back out and the purchase removed,
+ * so the invoice can be posted again.
+ */
+export const postPurchase = async ({
+  store,
+  userId,
+  vendorId,
+  vendorName,
+  invoiceNo,
+  purchaseDate,
+  orderDate,
+  notes,
+  paymentMethod,
+  purchaseOrderId,
+  lines,
+  medicines,
+}: PostPurchaseInput) => {
+  const totalAmount = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  const { data: purchase, error: purchaseError } = await supabase
+    .from('purchases')
+    .insert({
+      vendor_id: vendorId,
+      invoice_no: invoiceNo,
+      total_amount: totalAmount,
+      purchase_date: purchaseDate,
+      order_date: orderDate || null,
+      notes: notes || null,
+      purchase_order_id: purchaseOrderId || null,
+      store_id: store.id,
+      organization_id: store.organization_id,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (purchaseError) throw purchaseError;
+
+  const source: MovementSource = {
+    type: 'receipt',
+    userId,
+    reason: `Supplier invoice ${invoiceNo}`,
+    referenceType: 'purchase',
+    referenceId: purchase.id,
+    register: { supplierName: vendorName, invoiceNo },
+  };
+
+  const received: Array<{ medicineId: string; quantity: number }> = [];
+  try {
+    const purchaseItems = [];
+    for (const line of lines) {
+      // Order lines that did not arrive are kept only for their discrepancy
+      const medicineId = line.quantity > 0 ? await receiveBatch(line, medicines, store, source) : null;
+      if (medicineId) received.push({ medicineId, quantity: line.quantity });
+
+      purchaseItems.push({
+        purchase_id: purchase.id,
+        medicine_id: medicineId,
+        quantity: line.quantity,
+        unit_cost: line.unit_cost,
+        total_cost: line.quantity * line.unit_cost,
+        batch_no: line.batch_no || null,
+        expiry_date: line.expiry_date || null,
+        purchase_order_item_id: line.purchase_order_item_id || null,
+        ordered_quantity: line.ordered_quantity ?? null,
+        discrepancy_reason: line.discrepancy_reason || null,
+      });
+    }
+
+    const { error: itemsError } = await supabase
+      .from('purchase_items')
+      .insert(purchaseItems);
+
+    if (itemsError) throw itemsError;
+
+    const { error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        type: 'expense',
+        category: 'Purchases',
+        amount: totalAmount,
+        description: `Supplier invoice ${invoiceNo} from ${vendorName || 'vendor'}`,
+        payment_method: paymentMethod,
+        reference_id: purchase.id,
+        reference_type: 'purchase',
+        payment_date: purchaseDate,
+        store_id: store.id,
+        organization_id: store.organization_id,
+        created_by: userId,
+      });
+
+    if (paymentError) throw paymentError;
+  } catch (error) {
+    for (const line of received) {
+      const { medicine, balanceAfter } = await adjustBatchQuantity(line.medicineId, -line.quantity);
+      await recordMovement({
+        ...source,
+        type: 'adjustment',
+        reason: `Supplier invoice ${invoiceNo} reversed`,
+        medicine,
+        quantityChange: -line.quantity,
+        balanceAfter,
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('purchases')
+      .delete()
+      .eq('id', purchase.id);
+
+    if (deleteError) throw deleteError;
+    throw error;
+  }
+
+  return purchase;
+};
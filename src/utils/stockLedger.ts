@@ -0,0 +1,133 @@
+import { supabase } from '../lib/supabase';
+import { Medicine, RegisterEntryType, StockMovement, StockMovementType } from '../types';
+import { recordRegisterEntries, RegisterDetails } from './controlledRegister';
+
+export const movementLabels: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  sale: 'Sale',
+  return: 'Return',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+  adjustment: 'Adjustment',
+  write_off: 'Write-off',
+};
+
+const registerEntryTypes: Record<StockMovementType, RegisterEntryType> = {
+  receipt: 'receipt',
+  sale: 'dispense',
+  return: 'return',
+  transfer_in: 'transfer_in',
+  transfer_out: 'transfer_out',
+  adjustment: 'adjustment',
+  write_off: 'destruction',
+};
+
+// Where a movement came from; shared by every line of the same document
+export interface MovementSource {
+  type: StockMovementType;
+  userId: string;
+  reason?: string;
+  referenceType?: string;
+  referenceId?: string;
+  // Extra particulars kept when the batch is a controlled drug
+  register?: RegisterDetails;
+}
+
+export interface MovementInput extends MovementSource {
+  medicine: Pick<
+    Medicine,
+    'id' | 'name' | 'batch_no' | 'store_id' | 'organization_id' | 'product_id' | 'controlled' | 'schedule'
+  >;
+  quantityChange: number;
+  balanceAfter: number;
+}
+
+/**
+ * Appends movements to the stock ledger. Call alongside every write to
+ * `medicines.quantity` so the ledger always sums to the batch quantity.
+ * Movements of controlled drugs are also entered in the controlled register.
+ */
+export const recordMovements = async (movements: MovementInput[]) => {
+  const rows = movements
+    .filter(movement => movement.quantityChange !== 0)
+    .map(movement => ({
+      organization_id: movement.medicine.organization_id,
+      store_id: movement.medicine.store_id,
+      medicine_id: movement.medicine.id,
+      medicine_name: movement.medicine.name,
+      batch_no: movement.medicine.batch_no,
+      movement_type: movement.type,
+      quantity_change: movement.quantityChange,
+      balance_after: movement.balanceAfter,
+      reason: movement.reason || null,
+      reference_type: movement.referenceType || null,
+      reference_id: movement.referenceId || null,
+      created_by: movement.userId,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('stock_movements')
+    .insert(rows);
+
+  if (error) throw error;
+
+  await recordRegisterEntries(movements
+    .filter(movement => movement.medicine.controlled)
+    .map(movement => ({
+      medicine: movement.medicine,
+      entryType: registerEntryTypes[movement.type],
+      quantityChange: movement.quantityChange,
+      userId: movement.userId,
+      referenceType: movement.referenceType,
+      referenceId: movement.referenceId,
+      details: { notes: movement.reason, ...movement.register },
+    })));
+};
+
+export const recordMovement = (movement: MovementInput) => recordMovements([movement]);
+
+/**
+ * Adds `change` to a batch's quantity as it stands in the database, not as a
+ * screen last loaded it. The write only lands if nobody moved the batch in the
+ * meantime and is retried otherwise, so concurrent writers cannot overwrite
+ * each other. `change` may be worked out from the current quantity instead.
+ * Returns the batch as read and the quantity written.
+ */
+export const adjustBatchQuantity = async (
+  medicineId: string,
+  change: number | ((quantity: number) => number),
+  updates: Partial<Pick<Medicine, 'cost_price' | 'price'>> = {}
+) => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: batch, error } = await supabase
+      .from('medicines')
+      .select('*')
+      .eq('id', medicineId)
+      .single();
+
+    if (error) throw error;
+
+    const balanceAfter = batch.quantity + (typeof change === 'function' ? change(batch.quantity) : change);
+    if (balanceAfter < 0) {
+      throw new Error(`Only ${batch.quantity} units of ${batch.name} (batch ${batch.batch_no}) are in stock.`);
+    }
+
+    const { data, error: updateError } = await supabase
+      .from('medicines')
+      .update({ ...updates, quantity: balanceAfter })
+      .eq('id', medicineId)
+      .eq('quantity', batch.quantity)
+      .select('id');
+
+    if (updateError) throw updateError;
+    if (data && data.length > 0) return { medicine: batch as Medicine, balanceAfter };
+  }
+
+  throw new Error('Stock for this batch kept changing while it was being updated. Try again.');
+};
+
+// Quantity implied by the ledger, to check against the recorded batch quantity
+export const ledgerBalance = (movements: Pick<StockMovement, 'quantity_change'>[]) =>
+  movements.reduce((sum, movement) => sum + movement.quantity_change, 0);
@@ -0,0 +1,205 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Medicine, Store, StockTake, StockTakeCount, User } from '../types';
+import { logAudit } from './auditTrail';
+import { offlineSync } from './offlineSync';
+import { adjustBatchQuantity, recordMovement } from './stockLedger';
+
+export const stockTakeStatusStyles: Record<StockTake['status'], string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-amber-100 text-amber-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export const stockTakeStatusLabels: Record<StockTake['status'], string> = {
+  counting: 'Counting',
+  submitted: 'Awaiting Approval',
+  posted: 'Posted',
+  cancelled: 'Cancelled',
+};
+
+export interface CountVariance {
+  count: StockTakeCount;
+  variance: number;
+  costImpact: number;
+}
+
+export const countVariance = (count: StockTakeCount): CountVariance => {
+  const variance = count.counted_quantity - count.system_quantity;
+  return { count, variance, costImpact: variance * count.unit_cost };
+};
+
+export const summarizeStockTake = (counts: StockTakeCount[]) => {
+  const variances = counts.map(countVariance);
+  return {
+    variances: variances.filter(line => line.variance !== 0),
+    unitsShort: variances.reduce((sum, line) => sum + Math.min(line.variance, 0), 0),
+    unitsOver: variances.reduce((sum, line) => sum + Math.max(line.variance, 0), 0),
+    netCostImpact: variances.reduce((sum, line) => sum + line.costImpact, 0),
+  };
+};
+
+// Counts are signed off by the store's manager or an org admin, as with transfers
+export const canApproveStockTake = (stockTake: StockTake, stores: Store[], user: User | null): boolean => {
+  if (!user || stockTake.status !== 'submitted') return false;
+  if (user.role === 'admin') return true;
+
+  const store = stores.find(item => item.id === stockTake.store_id);
+  return !!store?.manager_id && store.manager_id === user.id;
+};
+
+export const startStockTake = async (store: Store, location: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .insert({
+      reference: `ST-${store.code}-${format(new Date(), 'yyMMdd-HHmm')}`,
+      location: location || null,
+      store_id: store.id,
+      organization_id: store.organization_id,
+      started_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as StockTake;
+};
+
+/**
+ * Builds the count row for a batch. The system quantity is captured now so a
+ * sale made between counting and posting is not mistaken for a variance.
+ */
+export const buildCount = (
+  stockTakeId: string,
+  medicine: Medicine,
+  countedQuantity: number,
+  userId: string,
+  existing?: StockTakeCount
+): StockTakeCount => ({
+  id: existing?.id || crypto.randomUUID(),
+  stock_take_id: stockTakeId,
+  medicine_id: medicine.id,
+  medicine_name: medicine.name,
+  batch_no: medicine.batch_no,
+  location: medicine.location || null,
+  system_quantity: existing?.system_quantity ?? medicine.quantity,
+  counted_quantity: countedQuantity,
+  unit_cost: medicine.cost_price || 0,
+  counted_by: userId,
+  counted_at: new Date().toISOString(),
+});
+
+// Saved through the offline queue so counting carries on without a connection
+export const saveCount = (count: StockTakeCount, isNew: boolean) =>
+  offlineSync.addOperation('stock_take_counts', isNew ? 'INSERT' : 'UPDATE', count);
+
+// Server counts plus any taken on this device that have not synced yet
+export const mergeCounts = (server: StockTakeCount[], local: StockTakeCount[]) => {
+  const merged = server.map(count => {
+    const pending = local.find(item => item.id === count.id);
+    return pending && pending.counted_at > count.counted_at ? { ...count, ...pending } : count;
+  });
+  return [...merged, ...local.filter(count => !server.some(item => item.id === count.id))];
+};
+
+/**
+ * Applies the approved variances to stock. Each variance is added to the
+ * batch's current quantity rather than overwriting it, so sales since the
+ * count still stand. Every adjustment is written to the stock ledger with the
+ * name of whoever counted it, and its count is marked approved straight
+ * away, so posting again after a failure skips the counts already applied.
+ */
+const postVariances = async (stockTake: StockTake, approvedIds: string[], userId: string) => {
+  const { data: counts, error: countsFetchError } = await supabase
+    .from('stock_take_counts')
+    .select('*, counter:users (full_name)')
+    .eq('stock_take_id', stockTake.id);
+
+  if (countsFetchError) throw countsFetchError;
+
+  const approved = ((counts || []) as StockTakeCount[])
+    .filter(count => approvedIds.includes(count.id) && !count.approved)
+    .map(countVariance);
+
+  const { data: batches, error: batchesError } = await supabase
+    .from('medicines')
+    .select('id')
+    .in('id', approved.flatMap(line => line.count.medicine_id ? [line.count.medicine_id] : []));
+
+  if (batchesError) throw batchesError;
+
+  const adjusted: typeof approved = [];
+  for (const line of approved) {
+    const { count, variance } = line;
+    const medicineId = count.medicine_id;
+
+    if (medicineId && variance !== 0 && batches?.some(batch => batch.id === medicineId)) {
+      // A shortage larger than what is left only empties the batch
+      const { medicine, balanceAfter } = await adjustBatchQuantity(medicineId, quantity => Math.max(variance, -quantity));
+      await recordMovement({
+        type: 'adjustment',
+        userId,
+        reason: `Stock-take ${stockTake.reference}, counted by ${count.counter?.full_name || 'unknown'}`,
+        referenceType: 'stock_take',
+        referenceId: stockTake.id,
+        medicine,
+        quantityChange: balanceAfter - medicine.quantity,
+        balanceAfter,
+      });
+      adjusted.push(line);
+    }
+
+    const { error: countError } = await supabase
+      .from('stock_take_counts')
+      .update({ approved: true })
+      .eq('id', count.id);
+
+    if (countError) throw countError;
+  }
+
+  await logAudit({
+    organizationId: stockTake.organization_id,
+    storeId: stockTake.store_id,
+    userId,
+    action: 'STOCK_TAKE_POST',
+    resourceType: 'stock_take',
+    resourceId: stockTake.id,
+    newValues: {
+      reference: stockTake.reference,
+      adjusted_batches: adjusted.length,
+      net_cost_impact: adjusted.reduce((sum, line) => sum + line.costImpact, 0),
+    },
+  });
+};
+
+// Marks a submitted stock-take as posted and applies its approved variances
+export const postStockTake = async (
+  stockTake: StockTake,
+  approvedIds: string[],
+  userId: string
+) => {
+  // Claimed first, so a double click or a second device cannot post the variances twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('stock_takes')
+    .update({ status: 'posted', approved_by: userId, posted_at: new Date().toISOString() })
+    .eq('id', stockTake.id)
+    .eq('status', 'submitted')
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) {
+    throw new Error(`Stock-take ${stockTake.reference} has already been posted or is no longer submitted.`);
+  }
+
+  try {
+    await postVariances(stockTake, approvedIds, userId);
+  } catch (error) {
+    await supabase
+      .from('stock_takes')
+      .update({ status: 'submitted', approved_by: null, posted_at: null })
+      .eq('id', stockTake.id)
+      .eq('status', 'posted');
+    throw error;
+  }
+};
@@ -0,0 +1,182 @@
+import { supabase } from '../lib/supabase';
+import { Store, StockTransfer, StockTransferItem, User } from '../types';
+import { receiveBatch } from './stockIntake';
+import { adjustBatchQuantity, recordMovement, recordMovements } from './stockLedger';
+
+// Stock leaves the source store, so its manager (or an org admin) signs off
+export const canApproveTransfer = (
+  transfer: StockTransfer,
+  stores: Store[],
+  user: User | null
+): boolean => {
+  if (!user || transfer.status !== 'pending' || transfer.approved_by) return false;
+  if (user.role === 'admin') return true;
+
+  const source = stores.find(store => store.id === transfer.from_store_id);
+  return !!source?.manager_id && source.manager_id === user.id;
+};
+
+// Total quantity per source batch, in case a batch appears on more than one line
+const quantitiesByBatch = (transfer: StockTransfer) => {
+  const totals = new Map<string, { item: StockTransferItem; quantity: number }>();
+  transfer.items.forEach(item => {
+    const total = totals.get(item.medicine_id);
+    totals.set(item.medicine_id, { item, quantity: (total?.quantity || 0) + item.quantity });
+  });
+  return Array.from(totals.values());
+};
+
+/**
+ * Marks a transfer as being worked on, so a second click or device cannot
+ * dispatch or receive it again. Fails if someone else got there first.
+ */
+const claimTransfer = async (transfer: StockTransfer, step: 'dispatch' | 'receive', userId: string) => {
+  const now = new Date().toISOString();
+  let query = supabase
+    .from('stock_transfers')
+    .update(step === 'dispatch' ? { dispatched_at: now, updated_at: now } : { received_at: now, received_by: userId, updated_at: now })
+    .eq('id', transfer.id);
+
+  query = step === 'dispatch'
+    ? query.eq('status', 'pending').not('approved_by', 'is', null).is('dispatched_at', null)
+    : query.eq('status', 'in_transit').is('received_at', null);
+
+  const { data, error } = await query.select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error(`Transfer ${transfer.transfer_number} has already been ${step === 'dispatch' ? 'dispatched' : 'received'} or is no longer ${step === 'dispatch' ? 'approved' : 'in transit'}. Refresh the list.`);
+  }
+};
+
+const releaseTransfer = async (transfer: StockTransfer, step: 'dispatch' | 'receive') => {
+  const { error } = await supabase
+    .from('stock_transfers')
+    .update(step === 'dispatch' ? { dispatched_at: null } : { received_at: null, received_by: null })
+    .eq('id', transfer.id);
+
+  if (error) console.error('Error releasing stock transfer:', error);
+};
+
+/**
+ * Deducts every line from its source batch and marks the transfer in transit.
+ * Quantities are deducted from the batch as it stands now, and if any line
+ * cannot be dispatched the lines already deducted are put back.
+ */
+export const dispatchTransfer = async (transfer: StockTransfer, userId: string) => {
+  const lines = quantitiesByBatch(transfer);
+
+  const { data: batches, error: batchesError } = await supabase
+    .from('medicines')
+    .select('id, quarantined')
+    .in('id', lines.map(line => line.item.medicine_id));
+
+  if (batchesError) throw batchesError;
+
+  const quarantined = lines.find(line => batches?.find(batch => batch.id === line.item.medicine_id)?.quarantined);
+  if (quarantined) {
+    throw new Error(`${quarantined.item.medicine_name} (batch ${quarantined.item.batch_no}) is quarantined under a recall and cannot be dispatched`);
+  }
+
+  await claimTransfer(transfer, 'dispatch', userId);
+
+  const deducted: Array<Awaited<ReturnType<typeof adjustBatchQuantity>> & { quantity: number }> = [];
+  try {
+    for (const line of lines) {
+      deducted.push({ ...await adjustBatchQuantity(line.item.medicine_id, -line.quantity), quantity: line.quantity });
+    }
+  } catch (error) {
+    for (const deduction of deducted) {
+      await adjustBatchQuantity(deduction.medicine.id, deduction.quantity);
+    }
+    await releaseTransfer(transfer, 'dispatch');
+    throw error;
+  }
+
+  await recordMovements(deducted.map(deduction => ({
+    type: 'transfer_out',
+    userId,
+    reason: `Transfer ${transfer.transfer_number}`,
+    referenceType: 'stock_transfer',
+    referenceId: transfer.id,
+    medicine: deduction.medicine,
+    quantityChange: -deduction.quantity,
+    balanceAfter: deduction.balanceAfter,
+  })));
+
+  const { error } = await supabase
+    .from('stock_transfers')
+    .update({ status: 'in_transit', updated_at: new Date().toISOString() })
+    .eq('id', transfer.id)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+};
+
+/**
+ * Books every line into the destination store under the same batch and
+ * expiry. If a line fails, the lines already booked are taken back out so the
+ * transfer can be received again.
+ */
+export const receiveTransfer = async (transfer: StockTransfer, store: Store, userId: string) => {
+  const { data: medicines, error: medicinesError } = await supabase
+    .from('medicines')
+    .select('*')
+    .eq('store_id', store.id);
+
+  if (medicinesError) throw medicinesError;
+
+  await claimTransfer(transfer, 'receive', userId);
+
+  const source = {
+    type: 'transfer_in' as const,
+    userId,
+    reason: `Transfer ${transfer.transfer_number}`,
+    referenceType: 'stock_transfer',
+    referenceId: transfer.id,
+  };
+
+  const received: Array<{ medicineId: string; quantity: number }> = [];
+  try {
+    for (const item of transfer.items) {
+      const medicineId = await receiveBatch({
+        name: item.medicine_name,
+        category: item.category || '',
+        manufacturer: item.manufacturer || '',
+        batch_no: item.batch_no,
+        expiry_date: item.expiry_date,
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+        price: item.unit_price,
+        controlled: item.controlled,
+        schedule: item.schedule,
+        prescription_only: item.prescription_only,
+        active_ingredients: item.active_ingredients,
+        strength: item.strength,
+      }, medicines || [], store, source);
+      received.push({ medicineId, quantity: item.quantity });
+    }
+  } catch (error) {
+    for (const line of received) {
+      const { medicine, balanceAfter } = await adjustBatchQuantity(line.medicineId, -line.quantity);
+      await recordMovement({
+        ...source,
+        type: 'adjustment',
+        reason: `Transfer ${transfer.transfer_number} receipt reversed`,
+        medicine,
+        quantityChange: -line.quantity,
+        balanceAfter,
+      });
+    }
+    await releaseTransfer(transfer, 'receive');
+    throw error;
+  }
+
+  const { error } = await supabase
+    .from('stock_transfers')
+    .update({ status: 'completed', updated_at: new Date().toISOString() })
+    .eq('id', transfer.id)
+    .eq('status', 'in_transit');
+
+  if (error) throw error;
+};
@@ -0,0 +1,88 @@
+import { differenceInDays, startOfDay, subDays } from 'date-fns';
+import { Medicine, Organization, Sale } from '../types';
+
+export interface StoreStats {
+  stockValue: number;
+  skuCount: number;
+  lowStockCount: number;
+  expiringCount: number;
+  salesToday: number;
+  salesLast30Days: number;
+  transactionsLast30Days: number;
+}
+
+const emptyStats = (): StoreStats => ({
+  stockValue: 0,
+  skuCount: 0,
+  lowStockCount: 0,
+  expiringCount: 0,
+  salesToday: 0,
+  salesLast30Days: 0,
+  transactionsLast30Days: 0,
+});
+
+/**
+ * Headline figures per store. Stock value is at cost and ignores expired
+ * batches; "expiring" means a batch with stock that expires within 30 days.
+ */
+export const buildStoreStats = (
+  medicines: Pick<Medicine, 'store_id' | 'name' | 'quantity' | 'cost_price' | 'min_stock_level' | 'expiry_date' | 'quarantined'>[],
+  sales: Pick<Sale, 'store_id' | 'total_amount' | 'created_at'>[],
+  now: Date = new Date()
+): Record<string, StoreStats> => {
+  const stats: Record<string, StoreStats> = {};
+  const statsFor = (storeId: string) => {
+    if (!stats[storeId]) stats[storeId] = emptyStats();
+    return stats[storeId];
+  };
+
+  // Low stock is judged per product, summed across its sellable batches
+  const productStock: Record<string, { quantity: number; minLevel: number }> = {};
+
+  medicines.forEach(medicine => {
+    if (!medicine.store_id) return;
+    const storeStats = statsFor(medicine.store_id);
+    const expiry = new Date(medicine.expiry_date);
+    const key = `${medicine.store_id}:${medicine.name.toLowerCase()}`;
+    if (!productStock[key]) productStock[key] = { quantity: 0, minLevel: medicine.min_stock_level };
+    const product = productStock[key];
+
+    // Expired and recalled batches are not sellable stock
+    if (expiry < now || medicine.quarantined) return;
+
+    storeStats.stockValue += medicine.quantity * medicine.cost_price;
+    product.quantity += medicine.quantity;
+    if (medicine.quantity > 0 && differenceInDays(expiry, now) <= 30) {
+      storeStats.expiringCount += 1;
+    }
+  });
+
+  Object.entries(productStock).forEach(([key, product]) => {
+    const storeStats = statsFor(key.split(':')[0]);
+    storeStats.skuCount += 1;
+    if (product.quantity <= product.minLevel) storeStats.lowStockCount += 1;
+  });
+
+  const today = startOfDay(now);
+  const monthAgo = subDays(today, 30);
+
+  sales.forEach(sale => {
+    if (!sale.store_id) return;
+    const storeStats = statsFor(sale.store_id);
+    const soldAt = new Date(sale.created_at);
+    if (soldAt >= monthAgo) {
+      storeStats.salesLast30Days += sale.total_amount;
+      storeStats.transactionsLast30Days += 1;
+    }
+    if (soldAt >= today) storeStats.salesToday += sale.total_amount;
+  });
+
+  return stats;
+};
+
+export const getStoreStats = (stats: Record<string, StoreStats>, storeId: string): StoreStats =>
+  stats[storeId] || emptyStats();
+
+// -1 means the plan has no store limit
+export const canAddStore = (organization: Organization | null, activeStoreCount: number): boolean =>
+  !!organization && (organization.max_stores < 0 || activeStoreCount < organization.max_stores);
@@ -0,0 +1,84 @@
+import { differenceInDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Purchase } from '../types';
+
+export interface VendorStats {
+  totalSpend: number;
+  purchaseCount: number;
+  unitsReceived: number;
+  averageLeadTime: number | null;
+  expiredUnits: number;
+  expiredValue: number;
+  lastPurchaseDate: string | null;
+}
+
+/**
+ * Summarises a vendor's purchases. Lead time only counts purchases with an
+ * `order_date`. Expired units are stock from this vendor that never sold:
+ * units written off or returned (`lostUnits`, per batch, from the stock
+ * ledger) plus units still on the shelf after their batch expired.
+ */
+export const computeVendorStats = (
+  purchases: Purchase[],
+  lostUnits: Record<string, number> = {},
+  now: Date = new Date()
+): VendorStats => {
+  const leadTimes = purchases
+    .filter(purchase => purchase.order_date)
+    .map(purchase => differenceInDays(new Date(purchase.purchase_date), new Date(purchase.order_date as string)));
+
+  let unitsReceived = 0;
+  let expiredUnits = 0;
+  let expiredValue = 0;
+
+  purchases.forEach(purchase => {
+    (purchase.items || []).forEach(item => {
+      unitsReceived += item.quantity;
+      const batch = item.medicine;
+      const onShelf = batch && batch.quantity > 0 && new Date(batch.expiry_date) < now ? batch.quantity : 0;
+      const lost = item.medicine_id ? lostUnits[item.medicine_id] || 0 : 0;
+      const units = Math.min(item.quantity, onShelf + lost);
+      expiredUnits += units;
+      expiredValue += units * item.unit_cost;
+    });
+  });
+
+  const lastPurchaseDate = purchases.reduce<string | null>(
+    (latest, purchase) => (!latest || purchase.purchase_date > latest ? purchase.purchase_date : latest),
+    null
+  );
+
+  return {
+    totalSpend: purchases.reduce((sum, purchase) => sum + purchase.total_amount, 0),
+    purchaseCount: purchases.length,
+    unitsReceived,
+    averageLeadTime: leadTimes.length > 0
+      ? leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length
+      : null,
+    expiredUnits,
+    expiredValue,
+    lastPurchaseDate,
+  };
+};
+
+// Units per batch that left stock unsold, through write-offs and vendor returns
+export const fetchLostUnits = async (organizationId: string, medicineIds?: string[]) => {
+  let query = supabase
+    .from('stock_movements')
+    .select('medicine_id, quantity_change')
+    .eq('organization_id', organizationId)
+    .in('movement_type', ['write_off', 'return']);
+
+  if (medicineIds) {
+    if (medicineIds.length === 0) return {};
+    query = query.in('medicine_id', medicineIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, number>>((lost, movement) => {
+    lost[movement.medicine_id] = (lost[movement.medicine_id] || 0) - movement.quantity_change;
+    return lost;
+  }, {});
+};
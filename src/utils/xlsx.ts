@@ -0,0 +1,161 @@
+import type { Cell, Worksheet } from 'exceljs';
+import { parseISO } from 'date-fns';
+
+export type XlsxCellType = 'text' | 'integer' | 'number' | 'currency' | 'percent' | 'date' | 'datetime';
+
+type XlsxScalar = string | number | Date | null | undefined;
+
+// A plain value takes its column's type; an object can override it or hold a formula
+export type XlsxCell = XlsxScalar | { value?: XlsxScalar; formula?: string; type?: XlsxCellType };
+
+export interface XlsxColumn {
+  header: string;
+  type?: XlsxCellType;
+  width?: number;
+  // Adds a formula to a totals row under the data
+  total?: 'SUM' | 'AVERAGE' | 'COUNT';
+}
+
+export interface XlsxSheet {
+  name: string;
+  title?: string;
+  subtitle?: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+}
+
+const numberFormats: Record<XlsxCellType, string | undefined> = {
+  text: undefined,
+  integer: '#,##0',
+  number: '#,##0.00',
+  currency: '"$"#,##0.00',
+  percent: '0.0%',
+  date: 'yyyy-mm-dd',
+  datetime: 'yyyy-mm-dd hh:mm',
+};
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const headerRowNumber = (sheet: Pick<XlsxSheet, 'title'>) => (sheet.title ? 4 : 1);
+
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// The A1 reference of a data cell, for formulas that point at other rows
+export const xlsxCellRef = (sheet: Pick<XlsxSheet, 'title'>, rowIndex: number, columnIndex: number) =>
+  `${columnLetter(columnIndex)}${headerRowNumber(sheet) + 1 + rowIndex}`;
+
+// Excel has no time zones, so the local wall-clock time is what gets stored
+const toExcelDate = (value: Date | string) => {
+  const date = typeof value === 'string' ? parseISO(value) : value;
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+};
+
+const writeCell = (cell: Cell, content: XlsxCell, columnType: XlsxCellType) => {
+  const isObject = content !== null && typeof content === 'object' && !(content instanceof Date);
+  const type = (isObject && content.type) || columnType;
+  const value = isObject ? content.value : content;
+
+  if (isObject && content.formula) {
+    cell.value = { formula: content.formula } as Cell['value'];
+  } else if (value === null || value === undefined || value === '') {
+    cell.value = null;
+  } else if (type === 'date' || type === 'datetime') {
+    cell.value = toExcelDate(value as Date | string);
+  } else if (type !== 'text' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    cell.value = Number(value);
+  } else {
+    cell.value = value as string | number;
+  }
+
+  const numFmt = numberFormats[type];
+  if (numFmt) cell.numFmt = numFmt;
+  if (type !== 'text') cell.alignment = { horizontal: 'right' };
+};
+
+const writeSheet = (worksheet: Worksheet, sheet: XlsxSheet) => {
+  const headerRow = headerRowNumber(sheet);
+
+  if (sheet.title) {
+    worksheet.getCell('A1').value = sheet.title;
+    worksheet.getCell('A1').font = { bold: true, size: 14 };
+    if (sheet.subtitle) {
+      worksheet.getCell('A2').value = sheet.subtitle;
+      worksheet.getCell('A2').font = { color: { argb: 'FF6B7280' } };
+    }
+  }
+
+  const header = worksheet.getRow(headerRow);
+  sheet.columns.forEach((column, index) => {
+    const cell = header.getCell(index + 1);
+    cell.value = column.header;
+    cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1D4ED8' } };
+  });
+
+  sheet.rows.forEach((row, rowIndex) => {
+    const excelRow = worksheet.getRow(headerRow + 1 + rowIndex);
+    sheet.columns.forEach((column, columnIndex) => {
+      writeCell(excelRow.getCell(columnIndex + 1), row[columnIndex], column.type || 'text');
+    });
+  });
+
+  if (sheet.rows.length > 0 && sheet.columns.some(column => column.total)) {
+    const firstRow = headerRow + 1;
+    const lastRow = headerRow + sheet.rows.length;
+    const totalsRow = worksheet.getRow(lastRow + 1);
+
+    if (!sheet.columns[0].total) totalsRow.getCell(1).value = 'Total';
+    sheet.columns.forEach((column, index) => {
+      if (!column.total) return;
+      const letter = columnLetter(index);
+      writeCell(
+        totalsRow.getCell(index + 1),
+        { formula: `${column.total}(${letter}${firstRow}:${letter}${lastRow})` },
+        column.total === 'COUNT' ? 'integer' : column.type || 'number'
+      );
+    });
+    totalsRow.font = { bold: true };
+    totalsRow.eachCell(cell => {
+      cell.border = { top: { style: 'thin' } };
+    });
+  }
+
+  sheet.columns.forEach((column, index) => {
+    const longest = Math.max(
+      column.header.length,
+      ...sheet.rows.slice(0, 200).map(row => {
+        const content = row[index];
+        const value = content !== null && typeof content === 'object' && !(content instanceof Date) ? content.value : content;
+        return column.type === 'date' || column.type === 'datetime' ? 16 : String(value ?? '').length;
+      })
+    );
+    worksheet.getColumn(index + 1).width = column.width || Math.min(50, Math.max(10, longest + 2));
+  });
+
+  worksheet.views = [{ state: 'frozen', ySplit: headerRow }];
+  if (sheet.rows.length > 0) {
+    worksheet.autoFilter = {
+      from: { row: headerRow, column: 1 },
+      to: { row: headerRow + sheet.rows.length, column: sheet.columns.length },
+    };
+  }
+};
+
+export const xlsxFile = async (sheets: XlsxSheet[], fileName: string) => {
+  // Loaded on demand; the library is large and only needed when exporting
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'RxSmart';
+  workbook.created = new Date();
+  // Recalculate formulas on open so totals show even though no cached results are written
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  sheets.forEach(sheet => {
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    writeSheet(workbook.addWorksheet(sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31)), sheet);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new File([buffer], fileName, { type: XLSX_MIME });
+};
@@ -0,0 +1,26 @@
+/*
+  # Goods Received Tracking
+
+  1. Modified Tables
+    - `purchases`
+      - `store_id` (uuid, store that received the goods)
+      - `organization_id` (uuid)
+      - `notes` (text)
+    - `purchase_items`
+      - `batch_no` (text, batch received on the supplier invoice)
+      - `expiry_date` (date, expiry of the received batch)
+
+  2. Indexes
+    - Purchases by store
+    - Purchase items by purchase
+*/
+
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS store_id uuid REFERENCES stores(id);
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id);
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS notes text;
+
+ALTER TABLE purchase_items ADD COLUMN IF NOT EXISTS batch_no text;
+ALTER TABLE purchase_items ADD COLUMN IF NOT EXISTS expiry_date date;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_store ON purchases(store_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_items_purchase ON purchase_items(purchase_id);
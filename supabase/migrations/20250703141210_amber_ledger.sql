@@ -0,0 +1,20 @@
+/*
+  # Store-Scoped Payments Ledger
+
+  1. Modified Tables
+    - `payments`
+      - `store_id` (uuid, store the cash movement belongs to)
+      - `organization_id` (uuid)
+      - `payment_date` (date, when the money actually moved)
+
+  2. Indexes
+    - Payments by store
+    - Payments by linked document (`reference_type`, `reference_id`)
+*/
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS store_id uuid REFERENCES stores(id);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_date date DEFAULT CURRENT_DATE;
+
+CREATE INDEX IF NOT EXISTS idx_payments_store ON payments(store_id);
+CREATE INDEX IF NOT EXISTS idx_payments_reference ON payments(reference_type, reference_id);
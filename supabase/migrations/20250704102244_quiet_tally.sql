@@ -0,0 +1,19 @@
+/*
+  # Sale Receivables
+
+  1. Modified Tables
+    - `sales`
+      - `amount_paid` (numeric, running total of instalments received against the sale)
+
+  2. Data
+    - Existing `paid` sales are backfilled so their balance is zero
+
+  3. Indexes
+    - Sales by store and payment status, for the receivables view
+*/
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS amount_paid numeric(10,2) NOT NULL DEFAULT 0;
+
+UPDATE sales SET amount_paid = total_amount WHERE payment_status = 'paid' AND amount_paid = 0;
+
+CREATE INDEX IF NOT EXISTS idx_sales_store_status ON sales(store_id, payment_status);
@@ -0,0 +1,24 @@
+/*
+  # Organization-Scoped Vendors
+
+  1. Modified Tables
+    - `vendors`
+      - `organization_id` (uuid, owning organization)
+      - `is_active` (boolean, vendors are deactivated rather than deleted so purchase history survives)
+      - `notes` (text)
+    - `purchases`
+      - `order_date` (date, when the order was placed; used for vendor lead time)
+
+  2. Indexes
+    - Vendors by organization
+    - Purchases by vendor
+*/
+
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS is_active boolean DEFAULT true;
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS notes text;
+
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS order_date date;
+
+CREATE INDEX IF NOT EXISTS idx_vendors_organization ON vendors(organization_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_vendor ON purchases(vendor_id);
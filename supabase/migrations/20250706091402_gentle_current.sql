@@ -0,0 +1,71 @@
+/*
+  # Purchase Orders
+
+  1. New Tables
+    - `purchase_orders` - Orders placed with a vendor for one store, starting life as drafts
+    - `purchase_order_items` - Ordered products, quantities and agreed unit costs
+
+  2. Modified Tables
+    - `medicines`
+      - `preferred_vendor_id` (uuid, vendor that reorder suggestions are grouped under)
+
+  3. Security
+    - RLS on both new tables, scoped to the user's organization
+
+  4. Indexes
+    - Purchase orders by store and by vendor
+*/
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  store_id uuid REFERENCES stores(id),
+  vendor_id uuid REFERENCES vendors(id),
+  po_number text UNIQUE NOT NULL,
+  status text DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'cancelled')),
+  expected_date date,
+  notes text,
+  total_amount numeric(10,2) DEFAULT 0,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  medicine_id uuid REFERENCES medicines(id),
+  medicine_name text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_cost numeric(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS preferred_vendor_id uuid REFERENCES vendors(id);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_store ON purchase_orders(store_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_vendor ON purchase_orders(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage purchase orders in their organization"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage purchase order items in their organization"
+  ON purchase_order_items FOR ALL
+  TO authenticated
+  USING (
+    purchase_order_id IN (
+      SELECT id FROM purchase_orders WHERE organization_id IN (
+        SELECT organization_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
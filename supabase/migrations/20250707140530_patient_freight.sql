@@ -0,0 +1,34 @@
+/*
+  # Purchase Order Receiving
+
+  1. Modified Tables
+    - `purchase_orders`
+      - `status` now also allows `partially_received` and `received`
+      - `sent_at` (timestamptz, when the order went to the vendor)
+    - `purchase_order_items`
+      - `quantity_received` (integer, running total across deliveries)
+    - `purchases`
+      - `purchase_order_id` (uuid, order the delivery was received against)
+    - `purchase_items`
+      - `purchase_order_item_id` (uuid, order line the batch was received against)
+      - `ordered_quantity` (integer, quantity still outstanding on that line at receipt)
+      - `discrepancy_reason` (text, why the delivered quantity differs)
+
+  2. Indexes
+    - Purchases by purchase order
+*/
+
+ALTER TABLE purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_status_check;
+ALTER TABLE purchase_orders ADD CONSTRAINT purchase_orders_status_check
+  CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled'));
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS sent_at timestamptz;
+
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS quantity_received integer NOT NULL DEFAULT 0;
+
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES purchase_orders(id);
+
+ALTER TABLE purchase_items ADD COLUMN IF NOT EXISTS purchase_order_item_id uuid REFERENCES purchase_order_items(id);
+ALTER TABLE purchase_items ADD COLUMN IF NOT EXISTS ordered_quantity integer;
+ALTER TABLE purchase_items ADD COLUMN IF NOT EXISTS discrepancy_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_purchase_order ON purchases(purchase_order_id);
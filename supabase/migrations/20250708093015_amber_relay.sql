@@ -0,0 +1,56 @@
+/*
+  # Inter-Store Stock Transfers
+
+  1. Modified Tables
+    - `stock_transfers`
+      - `approved_at` (timestamptz)
+      - `dispatched_at` (timestamptz, stock left the source store)
+      - `received_at` (timestamptz, stock booked into the destination store)
+      - `received_by` (uuid, user who received the stock)
+    - `stock_transfer_items`
+      - `medicine_name`, `batch_no`, `expiry_date`, `category`, `manufacturer`, `unit_price`
+        (snapshot of the source batch so the destination can book it in
+        without reading the source store's inventory)
+
+  2. Security
+    - Organization members can manage transfers between their stores
+
+  3. Indexes
+    - Transfers by source and destination store
+*/
+
+ALTER TABLE stock_transfers ADD COLUMN IF NOT EXISTS approved_at timestamptz;
+ALTER TABLE stock_transfers ADD COLUMN IF NOT EXISTS dispatched_at timestamptz;
+ALTER TABLE stock_transfers ADD COLUMN IF NOT EXISTS received_at timestamptz;
+ALTER TABLE stock_transfers ADD COLUMN IF NOT EXISTS received_by uuid REFERENCES auth.users(id);
+
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS medicine_name text;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS batch_no text;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS expiry_date date;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS manufacturer text;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS unit_price numeric(10,2);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from_store ON stock_transfers(from_store_id, status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to_store ON stock_transfers(to_store_id, status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON stock_transfer_items(transfer_id);
+
+CREATE POLICY "Users can manage stock transfers in their organization"
+  ON stock_transfers FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage stock transfer items in their organization"
+  ON stock_transfer_items FOR ALL
+  TO authenticated
+  USING (
+    transfer_id IN (
+      SELECT id FROM stock_transfers WHERE organization_id IN (
+        SELECT organization_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
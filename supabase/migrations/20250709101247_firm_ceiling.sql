@@ -0,0 +1,47 @@
+/*
+  # Store Limits
+
+  1. Functions
+    - `enforce_store_limit()` rejects creating or reactivating a store once the
+      organization already has `max_stores` active stores (-1 means unlimited)
+
+  2. Triggers
+    - `stores_enforce_limit` on insert, and on update of `is_active`
+*/
+
+CREATE OR REPLACE FUNCTION enforce_store_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  store_limit integer;
+  active_stores integer;
+BEGIN
+  IF NEW.is_active IS NOT TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_active IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max_stores INTO store_limit FROM organizations WHERE id = NEW.organization_id;
+
+  IF store_limit IS NULL OR store_limit < 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO active_stores
+  FROM stores
+  WHERE organization_id = NEW.organization_id AND is_active = true AND id <> NEW.id;
+
+  IF active_stores >= store_limit THEN
+    RAISE EXCEPTION 'Your plan allows % active store(s). Upgrade your subscription to add more.', store_limit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS stores_enforce_limit ON stores;
+CREATE TRIGGER stores_enforce_limit
+  BEFORE INSERT OR UPDATE OF is_active ON stores
+  FOR EACH ROW EXECUTE FUNCTION enforce_store_limit();
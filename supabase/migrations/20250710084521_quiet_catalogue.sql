@@ -0,0 +1,83 @@
+/*
+  # Product Catalogue
+
+  1. New Tables
+    - `products` - Organization-wide product master (name, manufacturer, category,
+      barcode and stock thresholds). One row per product regardless of how many
+      batches or stores hold it.
+
+  2. Modified Tables
+    - `medicines`
+      - `product_id` (uuid, the catalogue product this stock batch belongs to).
+        Name, category and manufacturer stay on the batch as a copy so existing
+        screens keep working.
+
+  3. Data
+    - One product is created per organization and case-insensitive medicine name,
+      taking its details from the most recently created batch, and every existing
+      batch is linked to it
+
+  4. Security
+    - RLS on `products`, scoped to the user's organization
+
+  5. Indexes
+    - Unique product name per organization, batches by product
+*/
+
+CREATE TABLE IF NOT EXISTS products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  category text NOT NULL DEFAULT 'Other',
+  manufacturer text,
+  barcode text,
+  description text,
+  min_stock_level integer DEFAULT 10,
+  reorder_point integer,
+  max_stock_level integer,
+  preferred_vendor_id uuid REFERENCES vendors(id),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS product_id uuid REFERENCES products(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_org_name ON products(organization_id, lower(name));
+CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);
+CREATE INDEX IF NOT EXISTS idx_medicines_product ON medicines(product_id);
+
+INSERT INTO products (
+  organization_id, name, category, manufacturer, barcode, description,
+  min_stock_level, reorder_point, max_stock_level, preferred_vendor_id
+)
+SELECT DISTINCT ON (organization_id, lower(name))
+  organization_id, name, category, manufacturer, barcode, description,
+  min_stock_level, reorder_point, max_stock_level, preferred_vendor_id
+FROM medicines
+WHERE organization_id IS NOT NULL
+ORDER BY organization_id, lower(name), created_at DESC
+ON CONFLICT (organization_id, lower(name)) DO NOTHING;
+
+UPDATE medicines m
+SET product_id = p.id
+FROM products p
+WHERE m.product_id IS NULL
+  AND p.organization_id = m.organization_id
+  AND lower(p.name) = lower(m.name);
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage products in their organization"
+  ON products FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
@@ -0,0 +1,30 @@
+/*
+  # FEFO Dispensing
+
+  1. Modified Tables
+    - `sale_items`
+      - `product_id` (uuid, catalogue product that was sold)
+      - `batch_no` (text, batch the units were taken from)
+      - `expiry_date` (date, expiry of that batch at the time of sale)
+
+    One sale line can now be split across several batches; each batch consumed
+    gets its own `sale_items` row pointing at it through `medicine_id`.
+
+  2. Indexes
+    - Sale items by batch and by product, for recall look-ups
+*/
+
+ALTER TABLE sale_items ADD COLUMN IF NOT EXISTS product_id uuid REFERENCES products(id);
+ALTER TABLE sale_items ADD COLUMN IF NOT EXISTS batch_no text;
+ALTER TABLE sale_items ADD COLUMN IF NOT EXISTS expiry_date date;
+
+UPDATE sale_items si
+SET product_id = m.product_id,
+    batch_no = m.batch_no,
+    expiry_date = m.expiry_date
+FROM medicines m
+WHERE si.medicine_id = m.id
+  AND si.batch_no IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sale_items_medicine ON sale_items(medicine_id);
+CREATE INDEX IF NOT EXISTS idx_sale_items_product ON sale_items(product_id);
@@ -0,0 +1,121 @@
+/*
+  # Batch Recalls
+
+  1. New Tables
+    - `batch_recalls` - A manufacturer recall of one product's batches across the
+      organization, with the reason and the manufacturer's reference
+
+  2. Modified Tables
+    - `medicines`
+      - `quarantined` (boolean, batch is held back and cannot be sold or transferred)
+      - `recall_id` (uuid, recall that put the batch into quarantine)
+
+  3. Functions
+    - `apply_batch_recall()` runs after a recall is created. It quarantines the
+      matching batches in every store of the organization, including stores the
+      initiating user is not a member of, and raises an urgent notification for
+      each store that holds or has sold the batch.
+
+  4. Security
+    - Everyone in the organization can read recalls; only admins can create or close them
+    - Users can read and mark as read the notifications for their organization
+*/
+
+CREATE TABLE IF NOT EXISTS batch_recalls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES products(id),
+  product_name text NOT NULL,
+  batch_numbers text[] NOT NULL CHECK (array_length(batch_numbers, 1) > 0),
+  reason text NOT NULL,
+  reference text,
+  status text DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  initiated_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  closed_at timestamptz
+);
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS quarantined boolean DEFAULT false;
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS recall_id uuid REFERENCES batch_recalls(id);
+
+CREATE INDEX IF NOT EXISTS idx_batch_recalls_org ON batch_recalls(organization_id);
+CREATE INDEX IF NOT EXISTS idx_sale_items_batch ON sale_items(product_id, batch_no);
+CREATE INDEX IF NOT EXISTS idx_notifications_store ON notifications(store_id);
+
+CREATE OR REPLACE FUNCTION apply_batch_recall()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE medicines
+  SET quarantined = true, recall_id = NEW.id
+  WHERE organization_id = NEW.organization_id
+    AND product_id = NEW.product_id
+    AND batch_no = ANY(NEW.batch_numbers);
+
+  INSERT INTO notifications (organization_id, store_id, type, title, message, data, priority)
+  SELECT
+    NEW.organization_id,
+    affected.store_id,
+    'batch_recall',
+    'Batch recall: ' || NEW.product_name,
+    'Batch ' || array_to_string(NEW.batch_numbers, ', ') || ' has been recalled (' || NEW.reason ||
+      '). Stock has been quarantined; contact patients who received it.',
+    jsonb_build_object('recall_id', NEW.id, 'batch_numbers', to_jsonb(NEW.batch_numbers)),
+    'urgent'
+  FROM (
+    SELECT store_id FROM medicines
+    WHERE recall_id = NEW.id
+    UNION
+    SELECT s.store_id FROM sale_items si
+    JOIN sales s ON s.id = si.sale_id
+    WHERE s.organization_id = NEW.organization_id
+      AND si.product_id = NEW.product_id
+      AND si.batch_no = ANY(NEW.batch_numbers)
+  ) affected
+  WHERE affected.store_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS batch_recalls_apply ON batch_recalls;
+CREATE TRIGGER batch_recalls_apply
+  AFTER INSERT ON batch_recalls
+  FOR EACH ROW EXECUTE FUNCTION apply_batch_recall();
+
+ALTER TABLE batch_recalls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recalls in their organization"
+  ON batch_recalls FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage recalls in their organization"
+  ON batch_recalls FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can view notifications in their organization"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can mark notifications in their organization as read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
@@ -0,0 +1,101 @@
+/*
+  # Expiry Write-offs, Vendor Returns and Clearance Pricing
+
+  1. New Tables
+    - `vendor_returns` - Stock sent back to a vendor, with the credit we expect
+      and the credit actually received
+    - `vendor_return_items` - Returned batches, quantities and unit costs
+
+  2. Modified Tables
+    - `medicines`
+      - `clearance_price` (numeric, discounted selling price for short-dated stock;
+        the regular `price` is kept so the discount can be removed)
+    - `payments`
+      - `payment_method` also accepts `stock_adjustment`, used for non-cash
+        entries such as expiry write-offs so they do not affect cash positions
+
+  3. Security
+    - RLS on both new tables, scoped to the user's organization
+    - Users can write audit entries for their organization; admins can read them
+*/
+
+CREATE TABLE IF NOT EXISTS vendor_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  store_id uuid REFERENCES stores(id),
+  vendor_id uuid REFERENCES vendors(id),
+  return_number text UNIQUE NOT NULL,
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'credited', 'cancelled')),
+  reason text NOT NULL,
+  credit_expected numeric(10,2) NOT NULL DEFAULT 0,
+  credit_received numeric(10,2),
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  credited_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS vendor_return_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id uuid REFERENCES vendor_returns(id) ON DELETE CASCADE,
+  medicine_id uuid REFERENCES medicines(id),
+  purchase_id uuid REFERENCES purchases(id),
+  medicine_name text NOT NULL,
+  batch_no text NOT NULL,
+  expiry_date date,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_cost numeric(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS clearance_price numeric(10,2);
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_payment_method_check;
+ALTER TABLE payments ADD CONSTRAINT payments_payment_method_check
+  CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'stock_adjustment'));
+
+CREATE INDEX IF NOT EXISTS idx_vendor_returns_vendor ON vendor_returns(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_returns_store ON vendor_returns(store_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_return_items_return ON vendor_return_items(return_id);
+
+ALTER TABLE vendor_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_return_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage vendor returns in their organization"
+  ON vendor_returns FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage vendor return items in their organization"
+  ON vendor_return_items FOR ALL
+  TO authenticated
+  USING (
+    return_id IN (
+      SELECT id FROM vendor_returns WHERE organization_id IN (
+        SELECT organization_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can write audit entries for their organization"
+  ON audit_trail FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view audit entries in their organization"
+  ON audit_trail FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
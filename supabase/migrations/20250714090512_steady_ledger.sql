@@ -0,0 +1,76 @@
+/*
+  # Stock Movement Ledger
+
+  1. New Tables
+    - `stock_movements` - Append-only record of every change to a batch's quantity
+      - `movement_type` (receipt, sale, return, transfer_in, transfer_out,
+        adjustment, write_off)
+      - `quantity_change` (signed; the sum for a batch equals its quantity)
+      - `balance_after` (batch quantity once the movement was applied)
+      - `reason`, `reference_type`, `reference_id` (the purchase, sale, transfer
+        or return that caused the movement)
+      - `medicine_name`, `batch_no` kept so history survives a deleted batch
+
+  2. Data
+    - Every existing batch gets an opening `adjustment` for its current quantity,
+      so balances can be derived from the ledger from day one
+
+  3. Security
+    - RLS scoped to the user's organization
+    - Only SELECT and INSERT policies: movements cannot be edited or removed
+*/
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  store_id uuid REFERENCES stores(id),
+  medicine_id uuid REFERENCES medicines(id) ON DELETE SET NULL,
+  medicine_name text NOT NULL,
+  batch_no text NOT NULL,
+  movement_type text NOT NULL CHECK (movement_type IN (
+    'receipt', 'sale', 'return', 'transfer_in', 'transfer_out', 'adjustment', 'write_off'
+  )),
+  quantity_change integer NOT NULL CHECK (quantity_change <> 0),
+  balance_after integer NOT NULL,
+  reason text,
+  reference_type text,
+  reference_id uuid,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO stock_movements (
+  organization_id, store_id, medicine_id, medicine_name, batch_no,
+  movement_type, quantity_change, balance_after, reason, created_at
+)
+SELECT
+  m.organization_id, m.store_id, m.id, m.name, m.batch_no,
+  'adjustment', m.quantity, m.quantity, 'Opening balance', m.created_at
+FROM medicines m
+WHERE m.quantity <> 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.medicine_id = m.id);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_medicine ON stock_movements(medicine_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_store ON stock_movements(store_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_type, reference_id);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view stock movements in their organization"
+  ON stock_movements FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record stock movements in their organization"
+  ON stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
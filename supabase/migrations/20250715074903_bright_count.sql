@@ -0,0 +1,83 @@
+/*
+  # Stock-take / Cycle Count
+
+  1. New Tables
+    - `stock_takes` - A counting session for one store, optionally limited to a
+      shelf/bin location
+      - `status` (counting, submitted, posted, cancelled)
+      - `submitted_by`, `approved_by`, `posted_at` for the sign-off trail
+    - `stock_take_counts` - One counted batch per row
+      - `system_quantity` (batch quantity when it was counted, so sales made
+        after the count do not distort the variance)
+      - `counted_quantity`, `unit_cost` (cost impact of the variance)
+      - `counted_by`, `counted_at`
+      - `approved` (set when the adjustment is posted)
+      - Row ids are generated on the device so counts taken offline can be
+        queued and replayed without duplicates
+
+  2. Security
+    - RLS on both tables, scoped to the user's organization
+*/
+
+CREATE TABLE IF NOT EXISTS stock_takes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  store_id uuid REFERENCES stores(id),
+  reference text UNIQUE NOT NULL,
+  location text,
+  status text DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'posted', 'cancelled')),
+  notes text,
+  started_by uuid REFERENCES users(id),
+  submitted_by uuid REFERENCES users(id),
+  submitted_at timestamptz,
+  approved_by uuid REFERENCES users(id),
+  posted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_take_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id uuid REFERENCES stock_takes(id) ON DELETE CASCADE,
+  medicine_id uuid REFERENCES medicines(id) ON DELETE SET NULL,
+  medicine_name text NOT NULL,
+  batch_no text NOT NULL,
+  location text,
+  system_quantity integer NOT NULL,
+  counted_quantity integer NOT NULL CHECK (counted_quantity >= 0),
+  unit_cost numeric(10,2) NOT NULL DEFAULT 0,
+  approved boolean DEFAULT false,
+  counted_by uuid REFERENCES users(id),
+  counted_at timestamptz DEFAULT now(),
+  UNIQUE (stock_take_id, medicine_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_takes_store ON stock_takes(store_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_take_counts_take ON stock_take_counts(stock_take_id);
+
+CREATE TRIGGER update_stock_takes_updated_at
+  BEFORE UPDATE ON stock_takes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage stock takes in their organization"
+  ON stock_takes FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage stock take counts in their organization"
+  ON stock_take_counts FOR ALL
+  TO authenticated
+  USING (
+    stock_take_id IN (
+      SELECT id FROM stock_takes WHERE organization_id IN (
+        SELECT organization_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,113 @@
+/*
+  # Controlled-Substance Register
+
+  1. Modified Tables
+    - `medicines`
+      - `controlled` (boolean, scheduled drug that must be kept in the register)
+      - `schedule` (text, e.g. "Schedule II", "Narcotic", "Psychotropic")
+    - `stock_transfer_items`
+      - `controlled`, `schedule` carried with the batch so the receiving store
+        keeps it in its register
+
+  2. New Tables
+    - `controlled_register` - One line per movement of a controlled drug
+      - `entry_type` (opening, receipt, dispense, return, transfer_in,
+        transfer_out, adjustment, destruction)
+      - `quantity_in`, `quantity_out`
+      - `balance` (running balance for the drug in the store, set by trigger)
+      - Patient and prescriber details for dispensing, supplier and invoice for
+        receipts, witness name and signature for destruction
+
+  3. Functions
+    - `set_controlled_register_balance()` carries the running balance forward
+      per store and product on every insert
+
+  4. Security
+    - RLS scoped to the user's organization
+    - Only SELECT and INSERT policies: register lines cannot be edited or removed
+*/
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS controlled boolean DEFAULT false;
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS schedule text;
+
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS controlled boolean DEFAULT false;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS schedule text;
+
+CREATE TABLE IF NOT EXISTS controlled_register (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  store_id uuid REFERENCES stores(id),
+  product_id uuid REFERENCES products(id),
+  medicine_id uuid REFERENCES medicines(id) ON DELETE SET NULL,
+  medicine_name text NOT NULL,
+  schedule text,
+  batch_no text NOT NULL,
+  entry_type text NOT NULL CHECK (entry_type IN (
+    'opening', 'receipt', 'dispense', 'return', 'transfer_in', 'transfer_out', 'adjustment', 'destruction'
+  )),
+  quantity_in integer NOT NULL DEFAULT 0 CHECK (quantity_in >= 0),
+  quantity_out integer NOT NULL DEFAULT 0 CHECK (quantity_out >= 0),
+  balance integer NOT NULL DEFAULT 0,
+  patient_id uuid REFERENCES patients(id),
+  patient_name text,
+  patient_address text,
+  prescriber_name text,
+  prescriber_registration text,
+  prescription_ref text,
+  supplier_name text,
+  invoice_no text,
+  witness_name text,
+  witness_signature text,
+  notes text,
+  reference_type text,
+  reference_id uuid,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_controlled_register_drug ON controlled_register(store_id, product_id, created_at);
+
+CREATE OR REPLACE FUNCTION set_controlled_register_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Serialise inserts for the same drug so two dispenses cannot read the same balance
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.store_id::text || coalesce(NEW.product_id::text, NEW.medicine_name)));
+
+  NEW.balance := coalesce((
+    SELECT balance FROM controlled_register
+    WHERE store_id = NEW.store_id
+      AND (product_id = NEW.product_id OR (NEW.product_id IS NULL AND medicine_name = NEW.medicine_name))
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), 0) + NEW.quantity_in - NEW.quantity_out;
+
+  -- clock_timestamp() keeps lines inserted in one statement in order
+  NEW.created_at := clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_controlled_register_balance
+  BEFORE INSERT ON controlled_register
+  FOR EACH ROW EXECUTE FUNCTION set_controlled_register_balance();
+
+ALTER TABLE controlled_register ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the controlled register in their organization"
+  ON controlled_register FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can write to the controlled register in their organization"
+  ON controlled_register FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
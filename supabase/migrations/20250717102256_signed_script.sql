@@ -0,0 +1,120 @@
+/*
+  # Prescriptions
+
+  1. Modified Tables
+    - `medicines`
+      - `prescription_only` (boolean, can only be sold against a valid prescription)
+    - `stock_transfer_items`
+      - `prescription_only` carried with the batch to the receiving store
+    - `sales`
+      - `prescription_id` (uuid, the prescription the sale was dispensed against)
+
+  2. New Tables
+    - `prescriptions` - A prescription brought in by a patient
+      - `reference` (our number for the prescription)
+      - `prescriber_name`, `prescriber_licence`
+      - `prescribed_date`, `valid_until`
+      - `refills_allowed`, `refills_remaining` (repeats after the first fill)
+      - `dispense_count`, `last_dispensed_at`
+      - `image_path` (scanned copy in the `prescriptions` storage bucket)
+      - `status` (active, cancelled)
+    - `prescription_items` - Medicines on the prescription, quantity per fill and directions
+
+  3. Storage
+    - Private `prescriptions` bucket; files are kept under the organization id
+
+  4. Security
+    - RLS on both new tables and the bucket, scoped to the user's organization
+*/
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS prescription_only boolean DEFAULT false;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS prescription_only boolean DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS prescriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  store_id uuid REFERENCES stores(id),
+  patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  reference text UNIQUE NOT NULL,
+  prescriber_name text NOT NULL,
+  prescriber_licence text NOT NULL,
+  prescribed_date date NOT NULL,
+  valid_until date,
+  refills_allowed integer NOT NULL DEFAULT 0 CHECK (refills_allowed >= 0),
+  refills_remaining integer NOT NULL DEFAULT 0 CHECK (refills_remaining >= 0),
+  dispense_count integer NOT NULL DEFAULT 0,
+  last_dispensed_at timestamptz,
+  image_path text,
+  status text DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS prescription_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prescription_id uuid REFERENCES prescriptions(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES products(id),
+  medicine_name text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  directions text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS prescription_id uuid REFERENCES prescriptions(id);
+
+CREATE INDEX IF NOT EXISTS idx_prescriptions_patient ON prescriptions(patient_id);
+CREATE INDEX IF NOT EXISTS idx_prescription_items_prescription ON prescription_items(prescription_id);
+CREATE INDEX IF NOT EXISTS idx_sales_prescription ON sales(prescription_id);
+
+CREATE TRIGGER update_prescriptions_updated_at
+  BEFORE UPDATE ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE prescriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prescription_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage prescriptions in their organization"
+  ON prescriptions FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage prescription items in their organization"
+  ON prescription_items FOR ALL
+  TO authenticated
+  USING (
+    prescription_id IN (
+      SELECT id FROM prescriptions WHERE organization_id IN (
+        SELECT organization_id FROM users WHERE id = auth.uid()
+      )
+    )
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('prescriptions', 'prescriptions', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read prescription scans in their organization"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'prescriptions'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can upload prescription scans in their organization"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'prescriptions'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM users WHERE id = auth.uid()
+    )
+  );
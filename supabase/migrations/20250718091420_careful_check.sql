@@ -0,0 +1,70 @@
+/*
+  # Interaction and Allergy Checks
+
+  1. Modified Tables
+    - `medicines`
+      - `active_ingredients` (text[], lower-case ingredient names)
+    - `stock_transfer_items`
+      - `active_ingredients` carried with the batch to the receiving store
+    - `patients`
+      - `allergies` (text[], ingredients or drug classes the patient reacts to)
+      - `current_medications` (text[], taken regularly but not necessarily bought here)
+
+  2. New Tables
+    - `drug_interactions` - The organization's interaction knowledge base
+      - `ingredient_a`, `ingredient_b` (lower-case, stored in alphabetical order
+        so each pair appears once)
+      - `severity` (minor, moderate, major, contraindicated)
+      - `description` (what happens and what to do)
+      - `source` (the dataset the pair was imported from)
+
+  3. Security
+    - Everyone in the organization can read the knowledge base; only admins can
+      import or change it
+*/
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS active_ingredients text[] DEFAULT '{}';
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS active_ingredients text[] DEFAULT '{}';
+
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS allergies text[] DEFAULT '{}';
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS current_medications text[] DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS drug_interactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  ingredient_a text NOT NULL,
+  ingredient_b text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('minor', 'moderate', 'major', 'contraindicated')),
+  description text NOT NULL,
+  source text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (ingredient_a < ingredient_b),
+  UNIQUE (organization_id, ingredient_a, ingredient_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drug_interactions_b ON drug_interactions(organization_id, ingredient_b);
+
+CREATE TRIGGER update_drug_interactions_updated_at
+  BEFORE UPDATE ON drug_interactions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE drug_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view drug interactions in their organization"
+  ON drug_interactions FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage drug interactions in their organization"
+  ON drug_interactions FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM users WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
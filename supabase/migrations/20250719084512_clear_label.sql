@@ -0,0 +1,16 @@
+/*
+  # Dispensing Labels
+
+  1. Modified Tables
+    - `medicines`
+      - `strength` (text, e.g. "500 mg", "5 mg/5 ml")
+    - `stock_transfer_items`
+      - `strength` carried with the batch to the receiving store
+    - `sale_items`
+      - `directions` (text, dosage instructions printed on the label, kept so
+        labels can be reprinted)
+*/
+
+ALTER TABLE medicines ADD COLUMN IF NOT EXISTS strength text;
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS strength text;
+ALTER TABLE sale_items ADD COLUMN IF NOT EXISTS directions text;
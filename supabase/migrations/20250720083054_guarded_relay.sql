@@ -0,0 +1,54 @@
+/*
+  # Guarded Stock Transfer Transitions
+
+  1. Functions
+    - `enforce_transfer_transition()` only lets a transfer move forward
+      (pending → in_transit → completed, or pending → cancelled), and only
+      lets an org admin or the source store's manager approve it. A transfer
+      cannot be dispatched until it is approved.
+
+  2. Triggers
+    - `stock_transfers_enforce_transition` on update
+*/
+
+CREATE OR REPLACE FUNCTION enforce_transfer_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  approver_role text;
+  source_manager uuid;
+BEGIN
+  IF NEW.approved_by IS DISTINCT FROM OLD.approved_by THEN
+    IF OLD.approved_by IS NOT NULL OR OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'Transfer % has already been approved or dispatched', OLD.transfer_number;
+    END IF;
+
+    SELECT role INTO approver_role FROM users WHERE id = auth.uid();
+    SELECT manager_id INTO source_manager FROM stores WHERE id = OLD.from_store_id;
+
+    IF NEW.approved_by IS DISTINCT FROM auth.uid()
+      OR (approver_role IS DISTINCT FROM 'admin' AND source_manager IS DISTINCT FROM auth.uid()) THEN
+      RAISE EXCEPTION 'Only an admin or the source store''s manager can approve transfer %', OLD.transfer_number;
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('in_transit', 'cancelled')) OR
+      (OLD.status = 'in_transit' AND NEW.status = 'completed')
+    ) THEN
+      RAISE EXCEPTION 'Transfer % cannot go from % to %', OLD.transfer_number, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'in_transit' AND NEW.approved_by IS NULL THEN
+      RAISE EXCEPTION 'Transfer % must be approved before it is dispatched', OLD.transfer_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS stock_transfers_enforce_transition ON stock_transfers;
+CREATE TRIGGER stock_transfers_enforce_transition
+  BEFORE UPDATE ON stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION enforce_transfer_transition();
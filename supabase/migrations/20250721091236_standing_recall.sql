@@ -0,0 +1,102 @@
+/*
+  # Standing Batch Recalls
+
+  1. New Tables
+    - `notification_reads` - Which user has read which notification, so one
+      user clearing their bell does not clear it for the rest of the store
+
+  2. Functions
+    - `apply_batch_recall()` is recreated with a fixed `search_path`, as it runs
+      with its owner's rights
+    - `quarantine_recalled_batch()` quarantines a batch row when it is created
+      or changed while an active recall covers its batch number, so stock that
+      arrives after the recall (a late delivery or a transfer) cannot be sold
+
+  3. Triggers
+    - `medicines_quarantine_recalled` on insert, and on update of the batch
+      number, product or quarantine flag
+
+  4. Security
+    - Users read and record their own notification reads
+    - Notifications themselves are no longer updated by users
+*/
+
+CREATE OR REPLACE FUNCTION apply_batch_recall()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE medicines
+  SET quarantined = true, recall_id = NEW.id
+  WHERE organization_id = NEW.organization_id
+    AND product_id = NEW.product_id
+    AND batch_no = ANY(NEW.batch_numbers);
+
+  INSERT INTO notifications (organization_id, store_id, type, title, message, data, priority)
+  SELECT
+    NEW.organization_id,
+    affected.store_id,
+    'batch_recall',
+    'Batch recall: ' || NEW.product_name,
+    'Batch ' || array_to_string(NEW.batch_numbers, ', ') || ' has been recalled (' || NEW.reason ||
+      '). Stock has been quarantined; contact patients who received it.',
+    jsonb_build_object('recall_id', NEW.id, 'batch_numbers', to_jsonb(NEW.batch_numbers)),
+    'urgent'
+  FROM (
+    SELECT store_id FROM medicines
+    WHERE recall_id = NEW.id
+    UNION
+    SELECT s.store_id FROM sale_items si
+    JOIN sales s ON s.id = si.sale_id
+    WHERE s.organization_id = NEW.organization_id
+      AND si.product_id = NEW.product_id
+      AND si.batch_no = ANY(NEW.batch_numbers)
+  ) affected
+  WHERE affected.store_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION quarantine_recalled_batch()
+RETURNS TRIGGER AS $$
+DECLARE
+  active_recall uuid;
+BEGIN
+  SELECT id INTO active_recall
+  FROM batch_recalls
+  WHERE organization_id = NEW.organization_id
+    AND product_id = NEW.product_id
+    AND NEW.batch_no = ANY(batch_numbers)
+    AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF active_recall IS NOT NULL THEN
+    NEW.quarantined := true;
+    NEW.recall_id := active_recall;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS medicines_quarantine_recalled ON medicines;
+CREATE TRIGGER medicines_quarantine_recalled
+  BEFORE INSERT OR UPDATE OF batch_no, product_id, quarantined ON medicines
+  FOR EACH ROW EXECUTE FUNCTION quarantine_recalled_batch();
+
+CREATE TABLE IF NOT EXISTS notification_reads (
+  notification_id uuid REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  read_at timestamptz DEFAULT now(),
+  PRIMARY KEY (notification_id, user_id)
+);
+
+ALTER TABLE notification_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification reads"
+  ON notification_reads FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can mark notifications in their organization as read" ON notifications;
@@ -0,0 +1,21 @@
+/*
+  # Collation-Independent Interaction Pairs
+
+  1. Modified Tables
+    - `drug_interactions`
+      - The `ingredient_a < ingredient_b` check now compares with `COLLATE "C"`,
+        the plain character order the app sorts pairs in. Under a language
+        collation such as en_US, names with hyphens or spaces
+        (e.g. "co-trimoxazole" and "codeine") sort differently and valid
+        imports were rejected.
+*/
+
+-- The old check would reject the rows swapped below, so it goes first
+ALTER TABLE drug_interactions DROP CONSTRAINT IF EXISTS drug_interactions_check;
+
+UPDATE drug_interactions
+SET ingredient_a = ingredient_b, ingredient_b = ingredient_a
+WHERE ingredient_a COLLATE "C" > ingredient_b COLLATE "C";
+
+ALTER TABLE drug_interactions ADD CONSTRAINT drug_interactions_pair_order
+  CHECK (ingredient_a COLLATE "C" < ingredient_b COLLATE "C");
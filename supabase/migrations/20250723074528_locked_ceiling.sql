@@ -0,0 +1,42 @@
+/*
+  # Serialized Store Limit Check
+
+  1. Functions
+    - `enforce_store_limit()` now locks the organization row before counting
+      its active stores, so two stores created or reactivated at the same time
+      cannot both fit under the last free slot. It runs with its owner's
+      rights so the lock does not depend on the caller's access to the
+      organization row.
+*/
+
+CREATE OR REPLACE FUNCTION enforce_store_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  store_limit integer;
+  active_stores integer;
+BEGIN
+  IF NEW.is_active IS NOT TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_active IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max_stores INTO store_limit FROM organizations WHERE id = NEW.organization_id FOR UPDATE;
+
+  IF store_limit IS NULL OR store_limit < 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO active_stores
+  FROM stores
+  WHERE organization_id = NEW.organization_id AND is_active = true AND id <> NEW.id;
+
+  IF active_stores >= store_limit THEN
+    RAISE EXCEPTION 'Your plan allows % active store(s). Upgrade your subscription to add more.', store_limit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;